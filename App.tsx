@@ -1,166 +1,1087 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Mic, Square, AudioWaveform, Upload, FileAudio } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Mic, Square, Pause, Play, AudioWaveform, Upload, FileAudio, X, History, BookOpen, FileSignature, ListChecks, Briefcase, ArrowLeft, ShieldCheck, Archive, Settings } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 
-import { Recording, TranscriptionStatus } from './types';
-import { transcribeAudio } from './services/geminiService';
-import { getAudioDuration } from './utils/audioUtils';
+import { Bookmark, DocumentTemplate, Glossary, Matter, Recording, TranscriptionStatus, TranscriptSegment } from './types';
+import { isAbortError, loadProviderConfig, ProviderConfig, saveProviderConfig, throwIfAborted } from './services/transcriptionProvider';
+import { getTranscriptionProvider } from './services/providerRegistry';
+import { createTranscriptionQueue, JobInfo } from './services/transcriptionQueue';
+import { findPersonNames, generateDocument } from './services/geminiService';
+import { AppSettings, buildAudioConstraints, PlaybackSettings, buildRecorderOptions, getGeminiConfig, loadSettings, saveSettings } from './services/settingsService';
+import { createDocument, loadTemplates, saveTemplates } from './services/documentService';
+import { applyGlossariesToResult, buildVocabulary, getActiveGlossaries, loadGlossaries, saveGlossaries } from './services/glossaryService';
+import { needsChunking, transcribeInChunks } from './services/chunkedTranscriptionService';
+import { LiveTranscriber, LiveTranscriptState, startLiveTranscription } from './services/liveTranscriptionService';
+import {
+  analyzeSpeech,
+  condenseForTranscription,
+  loadVadConfig,
+  monitorVoiceActivity,
+  PreRoll,
+  PreRollRecorder,
+  saveVadConfig,
+  startPreRoll,
+  VadConfig,
+  VoiceActivityMonitor,
+} from './services/vadService';
+import { loadPreprocessingConfig, preprocessAudio, PreprocessingConfig, preprocessingKey, ProcessedAudio, savePreprocessingConfig } from './services/preprocessingService';
+import { assignMatter, groupByMatter, loadMatterLibrary, MatterLibrary, saveMatterLibrary } from './services/matterService';
+import { ACCEPTED_AUDIO, collectDroppedFiles, ImportProgress, ImportReport, importFiles } from './services/importService';
+import {
+  appendCaptureChunk,
+  CaptureSession,
+  deleteCaptureSession,
+  deleteRecording,
+  getStorageEstimate,
+  InterruptedCapture,
+  loadInterruptedCaptures,
+  loadRecordings,
+  requestPersistentStorage,
+  saveCaptureBookmarks,
+  saveRecording,
+  startCaptureSession,
+  StorageEstimate,
+  StorageQuotaError,
+} from './services/storageService';
+import { canExport, downloadBlob, ExportFormat, exportRecordings } from './services/exportService';
+import { applyRestore, createBackup, DuplicateResolution, getBackupFileName, RestorePlan } from './services/backupService';
+import { getRedactionUnits } from './services/redactionService';
+import { buildSearchIndex, EMPTY_SEARCH, getAllTags, SearchQuery, SearchResult, searchRecordings, stemTerms } from './services/searchService';
+import { formatBytes, formatDuration, formatLongDuration, formatTimestamp, getAudioDuration } from './utils/audioUtils';
+import { addVersion, revertToVersion } from './utils/versionUtils';
+import { transcriptToText } from './utils/transcriptUtils';
+import { applyEditToRecording, EditableAudio, encodeEditableAudio, restoreSegmentTimes, splitRecording } from './utils/audioEditUtils';
+import { createBookmark, matchBookmarkShortcut, sortBookmarks } from './utils/bookmarkUtils';
 import AudioVisualizer from './components/AudioVisualizer';
+import SettingsPanel from './components/SettingsPanel';
 import RecordingItem from './components/RecordingItem';
+import ExportMenu from './components/ExportMenu';
+import ProviderSettings from './components/ProviderSettings';
+import SearchPanel from './components/SearchPanel';
+import LiveTranscript from './components/LiveTranscript';
+import BookmarkCapture from './components/BookmarkCapture';
+import GlossaryManager from './components/GlossaryManager';
+import TemplateManager from './components/TemplateManager';
+import ImportStatus from './components/ImportStatus';
+import VadSettings from './components/VadSettings';
+import PreprocessingSettings from './components/PreprocessingSettings';
+import MatterManager from './components/MatterManager';
+import MatterSelect from './components/MatterSelect';
+import VaultSettings from './components/VaultSettings';
+import BackupPanel from './components/BackupPanel';
+import { useI18n } from './components/I18nProvider';
+import { holdAutoLock } from './services/vaultService';
+import { describeError } from './services/i18nService';
+
+// MediaRecorder hands over (and we persist) audio at this interval while recording
+const CAPTURE_TIMESLICE_MS = 5000;
 
 const App: React.FC = () => {
+  const { t } = useI18n();
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [recordings, setRecordings] = useState<Recording[]>([]);
   const [recordingTime, setRecordingTime] = useState(0);
   const [mediaStream, setMediaStream] = useState<MediaStream | null>(null);
   const [permissionError, setPermissionError] = useState<string | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [exportNotice, setExportNotice] = useState<string | null>(null);
+  const [interruptedCaptures, setInterruptedCaptures] = useState<InterruptedCapture[]>([]);
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(loadProviderConfig);
+  const [matterLibrary, setMatterLibrary] = useState<MatterLibrary>(loadMatterLibrary);
+  const [glossaries, setGlossaries] = useState<Glossary[]>(() => loadGlossaries(matterLibrary.matters));
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [templates, setTemplates] = useState<DocumentTemplate[]>(loadTemplates);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [isMattersOpen, setIsMattersOpen] = useState(false);
+  const [isVaultSettingsOpen, setIsVaultSettingsOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // The recording the player shortcuts act on; only it may play
+  const [activeRecordingId, setActiveRecordingId] = useState<string | null>(null);
+  const [captureMatterId, setCaptureMatterId] = useState<string | undefined>(undefined); // for new recordings and imports
+  const [vadConfig, setVadConfig] = useState<VadConfig>(loadVadConfig);
+  const [preprocessingConfig, setPreprocessingConfig] = useState<PreprocessingConfig>(loadPreprocessingConfig);
+  // Processed copies by recording id; not persisted, they are cheap to redo
+  const [processed, setProcessed] = useState<Record<string, ProcessedAudio>>({});
+
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [isLiveMode, setIsLiveMode] = useState(false);
+  const [isVoiceMode, setIsVoiceMode] = useState(false);
+  const [isArmed, setIsArmed] = useState(false); // voice-activated mode, waiting for speech
+  const [liveState, setLiveState] = useState<LiveTranscriptState | null>(null);
+  const [captureBookmarks, setCaptureBookmarks] = useState<Bookmark[]>([]);
+
+  const [searchQuery, setSearchQuery] = useState<SearchQuery>(EMPTY_SEARCH);
+
+  const geminiConfig = useMemo(() => getGeminiConfig(settings), [settings]);
+  const provider = useMemo(() => getTranscriptionProvider(providerConfig, geminiConfig), [providerConfig, geminiConfig]);
+
+  // Jobs by recording id, mirrored from the queue for display
+  const [jobs, setJobs] = useState<Record<string, JobInfo>>({});
+  const transcriptionQueue = useMemo(
+    () => createTranscriptionQueue((list) => setJobs(Object.fromEntries(list.map(job => [job.id, job])))),
+    []
+  );
+
+  useEffect(() => {
+    transcriptionQueue.setConcurrency(providerConfig.concurrency);
+  }, [transcriptionQueue, providerConfig.concurrency]);
+
+  useEffect(() => () => transcriptionQueue.cancelAll(), [transcriptionQueue]);
+
+  useEffect(() => () => {
+    vadMonitorRef.current?.stop();
+    preRollRef.current?.stop();
+  }, []);
+
+  // Queued jobs run later than the click that queued them and must see the current library
+  const recordingsRef = useRef(recordings);
+  recordingsRef.current = recordings;
+  const processedRef = useRef(processed);
+  processedRef.current = processed;
+
+  // A copy made from older audio or with other settings cannot be reused
+  const getProcessed = (recording: Recording, config: PreprocessingConfig): ProcessedAudio | undefined => {
+    const copy = processedRef.current[recording.id];
+    return copy && copy.source === recording.blob && copy.key === preprocessingKey(config) ? copy : undefined;
+  };
+
+  const storeProcessed = (id: string, copy: ProcessedAudio | null) => {
+    setProcessed(prev => {
+      if (prev[id]) URL.revokeObjectURL(prev[id].url);
+      const { [id]: _, ...rest } = prev;
+      return copy ? { ...rest, [id]: copy } : rest;
+    });
+  };
+
+  const jobList: JobInfo[] = Object.values(jobs);
+  const queuedCount = jobList.filter(job => job.state === 'queued').length;
+
+  const untranscribed = useMemo(
+    () => recordings.filter(r => r.status === TranscriptionStatus.IDLE || r.status === TranscriptionStatus.ERROR),
+    [recordings]
+  );
+
+  // The index is only needed (and rebuilt) while there is a text query
+  const hasSearchText = searchQuery.text.trim() !== '';
+  const searchIndex = useMemo(
+    () => (hasSearchText ? buildSearchIndex(recordings) : null),
+    [recordings, hasSearchText]
+  );
+  // Names and tags collate in the interface language, so `t` re-sorts them on a switch
+  const searchResults = useMemo(
+    () => searchRecordings(recordings, searchIndex, searchQuery),
+    [recordings, searchIndex, searchQuery, t]
+  );
+  const searchStems = useMemo(() => new Set(stemTerms(searchQuery.text)), [searchQuery.text]);
+  const allTags = useMemo(() => getAllTags(recordings), [recordings, t]);
+
+  const { matters, clients } = matterLibrary;
+  const openMatter = matters.find(m => m.id === searchQuery.filters.matterId) ?? null;
+  const matterGroups = useMemo(
+    () => groupByMatter(searchResults, (result: SearchResult) => result.recording, matters),
+    [searchResults, matters]
+  );
+  const matterCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    recordings.forEach(r => {
+      if (r.matterId) counts[r.matterId] = (counts[r.matterId] ?? 0) + 1;
+    });
+    return counts;
+  }, [recordings]);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<number | null>(null);
+  // Milliseconds recorded before the current (unpaused) run, and when that run began
+  const elapsedRef = useRef(0);
+  const runStartedRef = useRef<number | null>(null);
+  const liveRef = useRef<LiveTranscriber | null>(null);
+  const vadMonitorRef = useRef<VoiceActivityMonitor | null>(null);
+  const preRollRef = useRef<PreRollRecorder | null>(null);
+  // The running capture and its markers, read by callbacks that outlive a render
+  const captureSessionRef = useRef<CaptureSession | null>(null);
+  const bookmarksRef = useRef<Bookmark[]>([]);
+  const noteDraftRef = useRef<{ id: string; note: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // dragenter/dragleave fire for every child element the pointer crosses
+  const dragDepthRef = useRef(0);
+  // Snapshot of what is currently in IndexedDB; null until the library has loaded
+  const persistedRef = useRef<Map<string, Recording> | null>(null);
+
+  const refreshStorageEstimate = async () => {
+    setStorageEstimate(await getStorageEstimate());
+  };
+
+  const handleStorageError = (error: unknown) => {
+    console.error("Storage error:", error);
+    setStorageError(error instanceof StorageQuotaError
+      ? describeError(error, 'app.storageSaveFailed')
+      : t('app.storageSaveFailed'));
+  };
+
+  // Load the library from IndexedDB on startup
+  useEffect(() => {
+    let cancelled = false;
+
+    requestPersistentStorage().catch(() => undefined);
+
+    loadRecordings()
+      .then((loaded) => {
+        if (cancelled) {
+          loaded.forEach(r => URL.revokeObjectURL(r.url));
+          return;
+        }
+        persistedRef.current = new Map(loaded.map(r => [r.id, r]));
+        // Keep anything recorded while the library was still loading
+        setRecordings(prev => [...prev, ...loaded]);
+        refreshStorageEstimate();
+      })
+      .catch((error) => {
+        console.error("Error loading recordings:", error);
+        setStorageError(t('app.storageLoadFailed'));
+      });
+
+    loadInterruptedCaptures()
+      .then((captures) => {
+        if (!cancelled) setInterruptedCaptures(captures);
+      })
+      .catch((error) => console.error("Error loading interrupted recordings:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Write every added, changed or removed recording through to IndexedDB
+  useEffect(() => {
+    const persisted = persistedRef.current;
+    if (!persisted) return;
+
+    const next = new Map(recordings.map(r => [r.id, r]));
+    const tasks: Promise<void>[] = [];
+
+    recordings.forEach((recording) => {
+      const previous = persisted.get(recording.id);
+      if (previous === recording) return;
+      const includeAudio = !previous || previous.blob !== recording.blob;
+      tasks.push(saveRecording(recording, includeAudio).catch((error) => {
+        // Forget it so that the next change retries the full write
+        persistedRef.current?.delete(recording.id);
+        throw error;
+      }));
+    });
+
+    persisted.forEach((_, id) => {
+      if (!next.has(id)) tasks.push(deleteRecording(id));
+    });
+
+    persistedRef.current = next;
+    if (tasks.length === 0) return;
+
+    Promise.all(tasks)
+      .then(() => {
+        setStorageError(null);
+        return refreshStorageEstimate();
+      })
+      .catch(handleStorageError);
+  }, [recordings]);
+
+  const getElapsedSeconds = () =>
+    (elapsedRef.current + (runStartedRef.current ? Date.now() - runStartedRef.current : 0)) / 1000;
+
+  const startTimer = () => {
+    runStartedRef.current = Date.now();
+    timerRef.current = window.setInterval(() => {
+      setRecordingTime(getElapsedSeconds());
+    }, 100); // Update frequently for smooth display if needed, but using seconds for state
+  };
 
-  // Handle starting recording
+  // Freeze the elapsed time so paused stretches are not counted
+  const stopTimer = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    if (runStartedRef.current) {
+      elapsedRef.current += Date.now() - runStartedRef.current;
+      runStartedRef.current = null;
+    }
+  };
+
+  // A microphone chosen in the settings may have been unplugged since
+  const openMicrophone = async (): Promise<MediaStream> => {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(settings.recording) });
+    } catch (err) {
+      if (!settings.recording.deviceId || (err as Error)?.name !== 'OverconstrainedError') throw err;
+      console.warn("Selected microphone is unavailable, using the default one");
+      return navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(settings.recording, false) });
+    }
+  };
+
+  // Handle starting recording. In voice-activated mode the microphone is
+  // opened now, but capture only begins once speech is heard.
   const startRecording = async () => {
     setPermissionError(null);
+    let stream: MediaStream;
+    try {
+      stream = await openMicrophone();
+    } catch (err) {
+      console.error("Error accessing microphone:", err);
+      setPermissionError(t('recorder.micDenied'));
+      return;
+    }
+    setMediaStream(stream);
+
+    if (!isVoiceMode) {
+      beginCapture(stream);
+      return;
+    }
+
+    try {
+      preRollRef.current = startPreRoll(stream, buildRecorderOptions(settings.recording), CAPTURE_TIMESLICE_MS);
+    } catch (err) {
+      stream.getTracks().forEach(track => track.stop());
+      setMediaStream(null);
+      console.error("Error starting recorder:", err);
+      setPermissionError(t('recorder.startFailed'));
+      return;
+    }
+    setIsArmed(true);
+    // The callbacks outlive this render, so they check the recorder rather than state
+    vadMonitorRef.current = monitorVoiceActivity(stream, vadConfig.autoStopSeconds, {
+      onSpeech: () => {
+        if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') return;
+        const preRoll = preRollRef.current?.take();
+        preRollRef.current = null;
+        beginCapture(stream, preRoll);
+      },
+      onSilence: () => {
+        if (mediaRecorderRef.current?.state === 'recording') stopRecording();
+      },
+    });
+  };
+
+  const cancelVoiceActivation = () => {
+    vadMonitorRef.current?.stop();
+    vadMonitorRef.current = null;
+    preRollRef.current?.stop();
+    preRollRef.current = null;
+    mediaStream?.getTracks().forEach(track => track.stop());
+    setMediaStream(null);
+    setIsArmed(false);
+  };
+
+  // In voice-activated mode the recorder that was waiting carries on, with
+  // what it has heard so far counted as the start of the recording
+  const beginCapture = (stream: MediaStream, preRoll?: PreRoll) => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      setMediaStream(stream);
-      
-      const mediaRecorder = new MediaRecorder(stream);
+      const mediaRecorder = preRoll?.recorder ?? new MediaRecorder(stream, buildRecorderOptions(settings.recording));
       mediaRecorderRef.current = mediaRecorder;
       chunksRef.current = [];
+      elapsedRef.current = preRoll ? Date.now() - preRoll.startedAt : 0;
+
+      const captureMatter = matters.find(m => m.id === captureMatterId) ?? null;
+      const activeGlossaries = getActiveGlossaries(glossaries, { matterId: captureMatter?.id });
+      // The live transcriber only hears the stream from now on, so it is given
+      // the pre-roll as well, flushed up to this moment below
+      let resolveLead: ((blob: Blob) => void) | undefined;
+      if (isLiveMode) {
+        setLiveState({ windows: [], provisional: '' });
+        liveRef.current = startLiveTranscription(
+          stream,
+          provider,
+          { vocabulary: buildVocabulary(activeGlossaries) },
+          setLiveState,
+          elapsedRef.current / 1000,
+          preRoll ? new Promise<Blob>(resolve => { resolveLead = resolve; }) : undefined
+        );
+      }
 
+      const session: CaptureSession = {
+        id: uuidv4(),
+        startedAt: Date.now() - elapsedRef.current,
+        mimeType: mediaRecorder.mimeType || 'audio/webm',
+        elapsed: 0,
+      };
+      startCaptureSession(session).catch(handleStorageError);
+      captureSessionRef.current = session;
+      bookmarksRef.current = [];
+      noteDraftRef.current = null;
+      setCaptureBookmarks([]);
+
+      const keepChunk = (data: Blob) => {
+        const seq = chunksRef.current.length;
+        chunksRef.current.push(data);
+        session.elapsed = getElapsedSeconds();
+        appendCaptureChunk(session, seq, data).catch(handleStorageError);
+      };
+      preRoll?.chunks.forEach(keepChunk);
       mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          chunksRef.current.push(event.data);
-        }
+        if (event.data.size > 0) keepChunk(event.data);
+        resolveLead?.(new Blob(chunksRef.current, { type: session.mimeType }));
+        resolveLead = undefined;
       };
+      if (resolveLead) mediaRecorder.requestData();
 
       mediaRecorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
+        const blob = new Blob(chunksRef.current, { type: session.mimeType });
         const url = URL.createObjectURL(blob);
-        const duration = recordingTime; // Approximate duration based on timer
+
+        const live = liveRef.current;
+        liveRef.current = null;
+        const bookmarks = bookmarksRef.current;
+        captureSessionRef.current = null;
+        bookmarksRef.current = [];
+        setCaptureBookmarks([]);
 
         const newRecording: Recording = {
-          id: uuidv4(),
+          id: session.id,
           blob,
           url,
-          timestamp: Date.now(),
-          duration,
+          timestamp: session.startedAt,
+          duration: getElapsedSeconds(),
           transcript: null,
-          status: TranscriptionStatus.IDLE,
+          status: live ? TranscriptionStatus.LOADING : TranscriptionStatus.IDLE,
+          bookmarks: bookmarks.length ? bookmarks : undefined,
+          matterId: captureMatter?.id,
+          clientId: captureMatter?.clientId,
         };
 
+        // Save explicitly so the capture session is only dropped once the
+        // finished recording is safely stored
+        persistedRef.current?.set(newRecording.id, newRecording);
+        saveRecording(newRecording)
+          .then(() => deleteCaptureSession(session.id))
+          .then(refreshStorageEstimate)
+          .catch(handleStorageError);
+
         setRecordings((prev) => [newRecording, ...prev]);
         setRecordingTime(0);
         
         // Stop all tracks to release microphone
+        vadMonitorRef.current?.stop();
+        vadMonitorRef.current = null;
         stream.getTracks().forEach(track => track.stop());
         setMediaStream(null);
+
+        analyzeSpeech(blob)
+          .then((speech) => setRecordings(prev => prev.map(r =>
+            r.id === session.id && r.blob === blob ? { ...r, speech } : r
+          )))
+          .catch((error) => console.warn("Speech analysis failed:", error));
+
+        // Attach the live transcript once the last windows are final
+        live?.finish()
+          .then((rawResult) => {
+            const result = applyGlossariesToResult(rawResult, activeGlossaries);
+            setRecordings(prev => prev.map(r =>
+              r.id === session.id ? {
+                ...r,
+                status: TranscriptionStatus.SUCCESS,
+                ...addVersion(r, { source: 'model', text: result.text, segments: result.segments }),
+              } : r
+            ));
+          })
+          .catch((error) => {
+            setRecordings(prev => prev.map(r =>
+              r.id === session.id ? {
+                ...r,
+                status: TranscriptionStatus.ERROR,
+                error: t('recorder.liveIncomplete', { message: describeError(error, 'recording.transcriptionFailed') }),
+              } : r
+            ));
+          })
+          // A new live recording may already have started meanwhile
+          .finally(() => setLiveState(current => (liveRef.current ? current : null)));
       };
 
-      mediaRecorder.start();
+      if (mediaRecorder.state === 'inactive') mediaRecorder.start(CAPTURE_TIMESLICE_MS);
+      setIsArmed(false);
       setIsRecording(true);
-
-      // Start timer
-      const startTime = Date.now();
-      timerRef.current = window.setInterval(() => {
-        setRecordingTime((Date.now() - startTime) / 1000);
-      }, 100); // Update frequently for smooth display if needed, but using seconds for state
+      setIsPaused(false);
+      startTimer();
 
     } catch (err) {
-      console.error("Error accessing microphone:", err);
-      setPermissionError("Доступ к микрофону запрещен. Пожалуйста, разрешите доступ для записи.");
+      liveRef.current?.cancel();
+      liveRef.current = null;
+      setLiveState(null);
+      vadMonitorRef.current?.stop();
+      vadMonitorRef.current = null;
+      stream.getTracks().forEach(track => track.stop());
+      setMediaStream(null);
+      setIsArmed(false);
+      console.error("Error starting recorder:", err);
+      setPermissionError(t('recorder.startFailed'));
     }
   };
 
   // Handle stopping recording
   const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
+      stopTimer();
+      // A note still being typed would be lost with the capture panel, including on voice auto-stop
+      const draft = noteDraftRef.current;
+      noteDraftRef.current = null;
+      if (draft && draft.note.trim() !== bookmarksRef.current.find(b => b.id === draft.id)?.note) {
+        updateCaptureBookmarkNote(draft.id, draft.note);
+      }
       mediaRecorderRef.current.stop();
       setIsRecording(false);
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-        timerRef.current = null;
-      }
+      setIsPaused(false);
     }
   };
 
-  // Trigger file upload dialog
-  const handleUploadClick = () => {
-    fileInputRef.current?.click();
+  const pauseRecording = () => {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (!mediaRecorder || mediaRecorder.state !== 'recording') return;
+    stopTimer();
+    mediaRecorder.pause();
+    liveRef.current?.pause();
+    // Flush what we have so a crash during a long pause loses nothing
+    mediaRecorder.requestData();
+    setIsPaused(true);
   };
 
-  // Handle file selection
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const resumeRecording = () => {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (!mediaRecorder || mediaRecorder.state !== 'paused') return;
+    mediaRecorder.resume();
+    liveRef.current?.resume();
+    vadMonitorRef.current?.reset();
+    startTimer();
+    setIsPaused(false);
+  };
+
+  // Markers are saved with the capture session so they survive a crash too
+  const updateCaptureBookmarks = (next: Bookmark[]) => {
+    bookmarksRef.current = next;
+    setCaptureBookmarks(next);
+    const session = captureSessionRef.current;
+    if (session) saveCaptureBookmarks(session, next).catch(handleStorageError);
+  };
+
+  const addCaptureBookmark = () => {
+    updateCaptureBookmarks([...bookmarksRef.current, createBookmark(getElapsedSeconds())]);
+  };
+
+  const updateCaptureBookmarkNote = (id: string, note: string) => {
+    updateCaptureBookmarks(bookmarksRef.current.map(b => b.id === id ? { ...b, note: note.trim() } : b));
+  };
+
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!matchBookmarkShortcut(e)) return;
+      e.preventDefault();
+      addCaptureBookmark();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isRecording]);
+
+  // Flush the pending timeslice when the tab is hidden or about to close
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const flush = () => {
+      if (mediaRecorderRef.current?.state === 'recording') {
+        mediaRecorderRef.current.requestData();
+      }
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [isRecording]);
+
+  const handleRecoverCapture = async ({ session, blob, bookmarks }: InterruptedCapture) => {
+    // Nothing was flushed before the crash
+    if (blob.size === 0) {
+      return handleDiscardCapture(session.id);
+    }
 
     try {
-      const duration = await getAudioDuration(file);
-      
-      const newRecording: Recording = {
-        id: uuidv4(),
-        blob: file,
-        url: URL.createObjectURL(file),
-        timestamp: Date.now(),
-        duration: duration,
+      const recovered: Recording = {
+        id: session.id,
+        blob,
+        url: URL.createObjectURL(blob),
+        timestamp: session.startedAt,
+        // Recorder output has no duration header, so trust the saved timer first
+        duration: session.elapsed || await getAudioDuration(blob).catch(() => 0),
         transcript: null,
         status: TranscriptionStatus.IDLE,
-        name: file.name
+        name: t('recorder.recoveredName'),
+        bookmarks: bookmarks.length ? bookmarks : undefined,
       };
 
-      setRecordings((prev) => [newRecording, ...prev]);
+      persistedRef.current?.set(recovered.id, recovered);
+      await saveRecording(recovered);
+      await deleteCaptureSession(session.id);
+
+      setRecordings(prev => [recovered, ...prev].sort((a, b) => b.timestamp - a.timestamp));
+      setInterruptedCaptures(prev => prev.filter(c => c.session.id !== session.id));
+      refreshStorageEstimate();
     } catch (error) {
-      console.error("Error loading file:", error);
-      alert("Ошибка при загрузке файла.");
+      handleStorageError(error);
     }
+  };
+
+  const handleDiscardCapture = async (sessionId: string) => {
+    try {
+      await deleteCaptureSession(sessionId);
+      setInterruptedCaptures(prev => prev.filter(c => c.session.id !== sessionId));
+      refreshStorageEstimate();
+    } catch (error) {
+      handleStorageError(error);
+    }
+  };
+
+  // Trigger file upload dialog
+  const handleUploadClick = () => {
+    fileInputRef.current?.click();
+  };
+
+  const runImport = async (files: File[]) => {
+    if (files.length === 0 || importProgress) return;
+    setImportReport(null);
+    setImportProgress({ total: files.length, done: 0 });
 
+    const report = await importFiles(files, setImportProgress);
+    const captureMatter = matters.find(m => m.id === captureMatterId) ?? null;
+    const imported = captureMatter
+      ? report.imported.map(r => ({ ...r, ...assignMatter(r, captureMatter, null) }))
+      : report.imported;
+    setRecordings(prev => [...imported, ...prev].sort((a, b) => b.timestamp - a.timestamp));
+    setImportProgress(null);
+    setImportReport(report);
+  };
+
+  // Handle file selection
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []);
     // Reset input so same file can be selected again if needed
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+    e.target.value = '';
+    runImport(files);
+  };
+
+  // Neither recording nor waiting for speech to start one
+  const isMicIdle = !isRecording && !isArmed;
+
+  // Locking reloads the page, which would cut a recording, an import or
+  // queued transcriptions short
+  const hasJobs = Object.keys(jobs).length > 0;
+  useEffect(() => {
+    if (isMicIdle && !importProgress && !hasJobs) return;
+    return holdAutoLock();
+  }, [isMicIdle, importProgress, hasJobs]);
+
+  const canDropFiles = isMicIdle && !importProgress;
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!canDropFiles || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    dragDepthRef.current++;
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!canDropFiles || !e.dataTransfer.types.includes('Files')) return;
+    // Without this the browser opens the file instead of dropping it here
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = () => {
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    dragDepthRef.current = 0;
+    setIsDraggingFiles(false);
+    if (!canDropFiles) return;
+    e.preventDefault();
+    try {
+      runImport(await collectDroppedFiles(e.dataTransfer));
+    } catch (error) {
+      console.error("Error reading dropped files:", error);
+      alert(t('recorder.dropFailed'));
     }
   };
 
-  // Handle Transcription
-  const handleTranscribe = async (id: string) => {
-    const recording = recordings.find(r => r.id === id);
-    if (!recording) return;
+  // Queue a transcription job. Everything the job needs is read again when it
+  // starts, since the recording may have changed while it waited in the queue.
+  const handleTranscribe = (id: string, diarize?: boolean, onlyChunks?: number[]) => {
+    const recording = recordingsRef.current.find(r => r.id === id);
+    if (!recording || transcriptionQueue.has(id)) return;
+
+    const useDiarize = (diarize ?? recording.diarize ?? false) && provider.supportsDiarization;
+    // Segments finished in the other mode, or by an earlier complete run, are not reused
+    const previousChunks = useDiarize === (recording.diarize ?? false) && recording.status !== TranscriptionStatus.SUCCESS
+      ? recording.chunks
+      : undefined;
 
-    // Update status to LOADING
     setRecordings(prev => prev.map(r => 
-      r.id === id ? { ...r, status: TranscriptionStatus.LOADING, error: undefined } : r
+      r.id === id ? { ...r, status: TranscriptionStatus.LOADING, error: undefined, diarize: useDiarize, chunks: previousChunks } : r
     ));
 
-    try {
-      const transcript = await transcribeAudio(recording.blob);
-      
-      // Update with SUCCESS
-      setRecordings(prev => prev.map(r => 
-        r.id === id ? { 
-          ...r, 
-          status: TranscriptionStatus.SUCCESS, 
-          transcript: transcript 
-        } : r
-      ));
-    } catch (error) {
-      // Update with ERROR
-      setRecordings(prev => prev.map(r => 
-        r.id === id ? { 
-          ...r, 
-          status: TranscriptionStatus.ERROR, 
-          error: "Не удалось транскрибировать." 
-        } : r
-      ));
+    const activeGlossaries = getActiveGlossaries(glossaries, recording);
+    const vocabulary = buildVocabulary(activeGlossaries);
+    const silenceConfig = vadConfig;
+    const cleanupConfig = preprocessingConfig;
+
+    transcriptionQueue.enqueue(id, provider, async (jobProvider, signal) => {
+      const current = recordingsRef.current.find(r => r.id === id);
+      if (!current) return;
+
+      try {
+        // Silence is cut before upload and timestamps are moved back onto the
+        // recording afterwards. Segment plans of long recordings then refer to
+        // the condensed audio, which is the same as long as the settings are.
+        const condensed = await condenseForTranscription(current.blob, silenceConfig);
+        // A cancelled job must not go on decoding or write anything back
+        throwIfAborted(signal);
+        if (condensed) {
+          setRecordings(prev => prev.map(r => r.id === id ? { ...r, speech: condensed.speech } : r));
+        }
+        let audio = condensed?.blob ?? current.blob;
+        if (cleanupConfig.enabled) {
+          // A copy of the whole recording is reused, and kept for listening
+          const cached = condensed ? undefined : getProcessed(current, cleanupConfig);
+          audio = cached?.blob ?? await preprocessAudio(audio, cleanupConfig);
+          throwIfAborted(signal);
+          if (!condensed && !cached) {
+            storeProcessed(id, {
+              source: current.blob,
+              key: preprocessingKey(cleanupConfig),
+              blob: audio,
+              url: URL.createObjectURL(audio),
+            });
+          }
+        }
+        const duration = condensed
+          ? condensed.ranges.reduce((sum, range) => sum + range.end - range.start, 0)
+          : current.duration;
+
+        const condensedResult = needsChunking(audio, jobProvider)
+          ? await transcribeInChunks(audio, jobProvider, {
+              transcribeOptions: { diarize: useDiarize, vocabulary },
+              chunks: previousChunks,
+              only: onlyChunks,
+              onChunksChange: (chunks) => setRecordings(prev => prev.map(r =>
+                r.id === id ? { ...r, chunks } : r
+              )),
+            })
+          : await jobProvider.transcribe(audio, { duration, diarize: useDiarize, vocabulary });
+        const rawResult = condensed
+          ? { ...condensedResult, segments: restoreSegmentTimes(condensedResult.segments, condensed.ranges) }
+          : condensedResult;
+        const result = applyGlossariesToResult(rawResult, activeGlossaries);
+
+        setRecordings(prev => prev.map(r => 
+          r.id === id ? { 
+            ...r, 
+            status: TranscriptionStatus.SUCCESS, 
+            ...addVersion(r, { source: 'model', text: result.text, segments: result.segments }),
+          } : r
+        ));
+      } catch (error: any) {
+        if (isAbortError(error)) {
+          resetCancelled(id);
+          return;
+        }
+        // A failed re-run keeps the existing transcript and its history on screen
+        setRecordings(prev => prev.map(r => 
+          r.id === id ? { 
+            ...r, 
+            status: r.transcript !== null ? TranscriptionStatus.SUCCESS : TranscriptionStatus.ERROR, 
+            error: describeError(error, 'recording.transcriptionFailed')
+          } : r
+        ));
+      }
+    });
+  };
+
+  // A cancelled job leaves the recording as it was before, keeping any
+  // finished segments of a long recording for the next run
+  const resetCancelled = (id: string) => {
+    setRecordings(prev => prev.map(r =>
+      r.id === id && r.status === TranscriptionStatus.LOADING
+        ? { ...r, status: r.transcript !== null ? TranscriptionStatus.SUCCESS : TranscriptionStatus.IDLE, error: undefined }
+        : r
+    ));
+  };
+
+  const handleCancelTranscription = (id: string) => {
+    transcriptionQueue.cancel(id);
+    resetCancelled(id);
+  };
+
+  const handleTranscribeAll = () => {
+    untranscribed.forEach(r => handleTranscribe(r.id));
+  };
+
+  const handleCancelAll = () => {
+    const ids = Object.keys(jobs);
+    transcriptionQueue.cancelAll();
+    ids.forEach(resetCancelled);
+  };
+
+  // Retry a single failed segment of a long recording
+  const handleRetryChunk = (id: string, index: number) => {
+    handleTranscribe(id, undefined, [index]);
+  };
+
+  const handleEditTranscript = (id: string, text: string, segments?: TranscriptSegment[]) => {
+    setRecordings(prev => prev.map(r => 
+      r.id === id ? { ...r, ...addVersion(r, { source: 'user', text, segments }) } : r
+    ));
+  };
+
+  const handleRevertVersion = (id: string, versionId: string) => {
+    setRecordings(prev => prev.map(r => {
+      if (r.id !== id) return r;
+      const reverted = revertToVersion(r, versionId);
+      return reverted ? { ...r, ...reverted } : r;
+    }));
+  };
+
+  const handleAssignMatter = (id: string, matterId: string | undefined) => {
+    const matter = matters.find(m => m.id === matterId) ?? null;
+    setRecordings(prev => prev.map(r =>
+      r.id === id ? { ...r, ...assignMatter(r, matter, matters.find(m => m.id === r.matterId) ?? null) } : r
+    ));
+  };
+
+  const handleAssignClient = (id: string, clientId: string | undefined) => {
+    setRecordings(prev => prev.map(r =>
+      r.id === id ? { ...r, clientId } : r
+    ));
+  };
+
+  const handleMatterLibraryChange = (next: MatterLibrary) => {
+    setMatterLibrary(next);
+    saveMatterLibrary(next);
+    // An archived matter is no longer offered for new recordings
+    if (next.matters.find(m => m.id === captureMatterId)?.archived) setCaptureMatterId(undefined);
+  };
+
+  const setOpenMatter = (matter: Matter | null) => {
+    setSearchQuery(prev => ({ ...prev, filters: { ...prev.filters, matterId: matter?.id } }));
+  };
+
+  const handleUpdateTags = (id: string, tags: string[]) => {
+    setRecordings(prev => prev.map(r => 
+      r.id === id ? { ...r, tags } : r
+    ));
+  };
+
+  const handleUpdateBookmarks = (id: string, bookmarks: Bookmark[]) => {
+    setRecordings(prev => prev.map(r =>
+      r.id === id ? { ...r, bookmarks: bookmarks.length ? sortBookmarks(bookmarks) : undefined } : r
+    ));
+  };
+
+  // Errors are rethrown so the document panel can show them next to the template picker
+  const handleGenerateDocument = async (id: string, templateId: string) => {
+    const recording = recordings.find(r => r.id === id);
+    const template = templates.find(t => t.id === templateId);
+    if (!recording?.transcript || !template) return;
+
+    const sections = await generateDocument(transcriptToText(recording), template, geminiConfig);
+    const generated = createDocument(template, sections);
+    setRecordings(prev => prev.map(r =>
+      r.id === id ? { ...r, documents: [generated, ...(r.documents ?? [])] } : r
+    ));
+  };
+
+  // Only the text goes to the model; the review and the copy stay in the browser
+  const handleDetectNames = async (id: string): Promise<string[]> => {
+    const recording = recordings.find(r => r.id === id);
+    if (!recording?.transcript) return [];
+    return findPersonNames(getRedactionUnits(recording).join('\n\n'), geminiConfig);
+  };
+
+  const handleDeleteDocument = (id: string, documentId: string) => {
+    setRecordings(prev => prev.map(r =>
+      r.id === id ? { ...r, documents: r.documents?.filter(d => d.id !== documentId) } : r
+    ));
+  };
+
+  // Called only after the user confirmed the edit; until then the editor works on a decoded copy
+  const handleApplyAudioEdit = async (id: string, parts: EditableAudio[]) => {
+    // One part at a time: each encode holds its own copy of the samples
+    const blobs: Blob[] = [];
+    for (const part of parts) blobs.push(await encodeEditableAudio(part));
+
+    // Encoding takes a while; apply to the recording as it is now
+    const recording = recordingsRef.current.find(r => r.id === id);
+    if (!recording) return;
+    URL.revokeObjectURL(recording.url);
+
+    if (parts.length === 1) {
+      const fields = applyEditToRecording(recording, parts[0], blobs[0]);
+      setRecordings(prev => prev.map(r => r.id === id ? { ...r, ...fields } : r));
+      return;
     }
+
+    const created = splitRecording(recording, parts, blobs);
+    setRecordings(prev => prev.flatMap(r => r.id === id ? created : [r]));
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+  };
+
+  // Speaker names apply to every segment of the recording at once
+  const handleRenameSpeaker = (id: string, speaker: string, name: string) => {
+    setRecordings(prev => prev.map(r => {
+      if (r.id !== id) return r;
+      const speakerNames = { ...r.speakerNames };
+      if (name.trim()) {
+        speakerNames[speaker] = name.trim();
+      } else {
+        delete speakerNames[speaker];
+      }
+      return { ...r, speakerNames };
+    }));
   };
 
   // Handle Delete
   const handleDelete = (id: string) => {
+    transcriptionQueue.cancel(id);
+    const recording = recordings.find(r => r.id === id);
+    if (recording) URL.revokeObjectURL(recording.url);
+    storeProcessed(id, null);
     setRecordings(prev => prev.filter(r => r.id !== id));
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+  };
+
+  const handlePreprocessingConfigChange = (config: PreprocessingConfig) => {
+    setPreprocessingConfig(config);
+    savePreprocessingConfig(config);
+  };
+
+  // Makes the copy that would be uploaded, to compare it with the original
+  const handlePreprocess = async (id: string) => {
+    const recording = recordings.find(r => r.id === id);
+    if (!recording) return;
+    try {
+      const blob = await preprocessAudio(recording.blob, preprocessingConfig);
+      storeProcessed(id, {
+        source: recording.blob,
+        key: preprocessingKey(preprocessingConfig),
+        blob,
+        url: URL.createObjectURL(blob),
+      });
+    } catch (error) {
+      console.error("Preprocessing failed:", error);
+      alert(t('library.processFailed'));
+    }
+  };
+
+  const handleVadConfigChange = (config: VadConfig) => {
+    setVadConfig(config);
+    saveVadConfig(config);
+  };
+
+  // Speech map for recordings made before it existed or imported from files
+  const handleAnalyzeSpeech = async (id: string) => {
+    const recording = recordings.find(r => r.id === id);
+    if (!recording) return;
+    try {
+      const speech = await analyzeSpeech(recording.blob);
+      setRecordings(prev => prev.map(r => r.id === id && r.blob === recording.blob ? { ...r, speech } : r));
+    } catch (error) {
+      console.error("Speech analysis failed:", error);
+      alert(t('library.analyzeFailed'));
+    }
+  };
+
+  const handleProviderChange = (config: ProviderConfig) => {
+    setProviderConfig(config);
+    saveProviderConfig(config);
+  };
+
+  const handleSettingsChange = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const handlePlaybackChange = (playback: PlaybackSettings) => {
+    handleSettingsChange({ ...settings, playback });
   };
 
+  const handleGlossariesChange = (next: Glossary[]) => {
+    setGlossaries(next);
+    saveGlossaries(next);
+  };
+
+  const handleTemplatesChange = (next: DocumentTemplate[]) => {
+    setTemplates(next);
+    saveTemplates(next);
+  };
+
+  const handleToggleSelect = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleExportSelected = async (format: ExportFormat) => {
+    const selected = recordings.filter(r => selectedIds.has(r.id));
+    const skipped = await exportRecordings(selected, format);
+    setExportNotice(skipped > 0 ? t('library.exportSkipped', { count: skipped }) : null);
+  };
+
+  const handleBackupExport = async (onlySelected: boolean) => {
+    const included = onlySelected ? recordings.filter(r => selectedIds.has(r.id)) : recordings;
+    downloadBlob(await createBackup(included, matterLibrary, !onlySelected), getBackupFileName());
+  };
+
+  const handleRestore = (plan: RestorePlan, resolutions: Record<string, DuplicateResolution>) => {
+    const result = applyRestore(plan, resolutions, recordingsRef.current, matterLibrary);
+    result.replaced.forEach((recording) => {
+      transcriptionQueue.cancel(recording.id);
+      URL.revokeObjectURL(recording.url);
+      storeProcessed(recording.id, null);
+    });
+    setRecordings(result.recordings);
+    if (result.report.mattersAdded > 0 || result.report.clientsAdded > 0) {
+      handleMatterLibraryChange(result.library);
+    }
+    return result.report;
+  };
+
+  const selectedRecordings = recordings.filter(r => selectedIds.has(r.id));
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-50 p-4 md:p-8 flex flex-col items-center relative overflow-hidden">
       {/* Decorative Background Elements */}
@@ -174,68 +1095,154 @@ const App: React.FC = () => {
           <div className="flex items-center gap-2 text-indigo-400">
              <AudioWaveform size={32} />
              <h1 className="text-3xl md:text-4xl font-bold tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-indigo-400 to-purple-400">
-               Gemini Диктофон
+               {t('app.title')}
              </h1>
           </div>
           <p className="text-slate-400 max-w-md">
-            Записывайте свои мысли или загружайте аудиофайлы для мгновенной расшифровки с помощью ИИ.
+            {t('app.subtitle')}
           </p>
         </header>
 
         {/* Recorder Section */}
-        <div className="bg-slate-900/60 backdrop-blur-xl border border-slate-800 rounded-3xl p-6 md:p-8 shadow-2xl flex flex-col gap-6 transition-all">
+        <div
+            className="relative bg-slate-900/60 backdrop-blur-xl border border-slate-800 rounded-3xl p-6 md:p-8 shadow-2xl flex flex-col gap-6 transition-all"
+            onDragEnter={handleDragEnter}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+        >
+            {isDraggingFiles && (
+                <div className="absolute inset-0 z-20 rounded-3xl border-2 border-dashed border-indigo-400 bg-slate-950/80 flex flex-col items-center justify-center gap-2 text-indigo-300 pointer-events-none">
+                    <Upload size={32} />
+                    <span>{t('recorder.dropHint')}</span>
+                </div>
+            )}
             
             {/* Timer Display */}
             <div className="text-center">
-                <span className={`text-5xl font-mono font-light tracking-wider ${isRecording ? 'text-red-400 drop-shadow-[0_0_8px_rgba(248,113,113,0.5)]' : 'text-slate-600'}`}>
+                <span className={`text-5xl font-mono font-light tracking-wider ${isPaused ? 'text-amber-400 animate-pulse' : isRecording ? 'text-red-400 drop-shadow-[0_0_8px_rgba(248,113,113,0.5)]' : 'text-slate-600'}`}>
                     {new Date(recordingTime * 1000).toISOString().substr(14, 5)}
                 </span>
+                {isPaused && (
+                    <div className="text-amber-400/80 text-xs uppercase tracking-widest mt-1">{t('recorder.paused')}</div>
+                )}
+                {isArmed && (
+                    <div className="text-emerald-400/80 text-xs uppercase tracking-widest mt-1 animate-pulse">{t('recorder.waitingForSpeech')}</div>
+                )}
             </div>
 
+            {liveState && <LiveTranscript state={liveState} />}
+
             {/* Visualizer */}
-            <AudioVisualizer stream={mediaStream} isRecording={isRecording} />
+            <AudioVisualizer stream={mediaStream} isRecording={isRecording || isArmed} fftSize={settings.visualizerFftSize} />
+
+            {isRecording && (
+                <BookmarkCapture
+                    bookmarks={captureBookmarks}
+                    onAdd={addCaptureBookmark}
+                    onChangeNote={updateCaptureBookmarkNote}
+                    onDraftChange={(draft) => { noteDraftRef.current = draft; }}
+                />
+            )}
 
             {/* Controls */}
             <div className="flex flex-col items-center gap-4 mt-2">
                 <div className="flex justify-center items-center gap-6">
-                    {!isRecording ? (
+                    {isArmed ? (
+                        <button
+                            onClick={cancelVoiceActivation}
+                            className="flex items-center justify-center w-20 h-20 rounded-full bg-slate-800 border-2 border-emerald-500/60 hover:border-emerald-400 transition-all duration-300 shadow-[0_0_20px_rgba(16,185,129,0.25)] hover:scale-105 active:scale-95"
+                            title={t('recorder.cancelWaiting')}
+                        >
+                            <X size={30} className="text-emerald-400" />
+                        </button>
+                    ) : !isRecording ? (
                         <button
                             onClick={startRecording}
                             className="group relative flex items-center justify-center w-20 h-20 rounded-full bg-red-500 hover:bg-red-600 transition-all duration-300 shadow-[0_0_20px_rgba(239,68,68,0.3)] hover:scale-105 hover:shadow-[0_0_30px_rgba(239,68,68,0.5)] active:scale-95"
-                            title="Начать запись"
+                            title={t('recorder.start')}
                         >
                             <div className="absolute inset-0 rounded-full border-2 border-red-400 opacity-0 group-hover:opacity-100 group-hover:scale-110 transition-all duration-500" />
                             <Mic size={32} className="text-white" />
                         </button>
                     ) : (
-                        <button
-                            onClick={stopRecording}
-                            className="group relative flex items-center justify-center w-20 h-20 rounded-full bg-slate-700 hover:bg-slate-600 transition-all duration-300 shadow-lg hover:scale-105 active:scale-95"
-                            title="Остановить запись"
-                        >
-                            <Square size={28} fill="currentColor" className="text-slate-200 group-hover:text-white" />
-                        </button>
+                        <>
+                            <button
+                                onClick={isPaused ? resumeRecording : pauseRecording}
+                                className="flex items-center justify-center w-14 h-14 rounded-full bg-slate-800 hover:bg-slate-700 border border-slate-700 transition-all duration-300 shadow-lg hover:scale-105 active:scale-95"
+                                title={isPaused ? t('recorder.resume') : t('recorder.pause')}
+                            >
+                                {isPaused
+                                    ? <Play size={22} fill="currentColor" className="text-amber-400 ml-0.5" />
+                                    : <Pause size={22} fill="currentColor" className="text-slate-200" />}
+                            </button>
+                            <button
+                                onClick={stopRecording}
+                                className="group relative flex items-center justify-center w-20 h-20 rounded-full bg-slate-700 hover:bg-slate-600 transition-all duration-300 shadow-lg hover:scale-105 active:scale-95"
+                                title={t('recorder.stop')}
+                            >
+                                <Square size={28} fill="currentColor" className="text-slate-200 group-hover:text-white" />
+                            </button>
+                        </>
                     )}
                 </div>
 
                 {/* File Upload Input (Hidden) */}
                 <input 
                     type="file" 
-                    accept="audio/*,.mp3,.ogg,.wav,.m4a" 
+                    accept={ACCEPTED_AUDIO}
+                    multiple
                     ref={fileInputRef} 
                     onChange={handleFileChange} 
                     className="hidden" 
                 />
                 
-                {!isRecording && (
+                {isMicIdle && (
                     <button 
                         onClick={handleUploadClick}
-                        className="text-slate-400 hover:text-indigo-400 text-sm flex items-center gap-2 px-4 py-2 rounded-full border border-slate-800 hover:border-indigo-500/30 hover:bg-indigo-500/10 transition-all"
+                        disabled={!!importProgress}
+                        title={t('recorder.uploadHint')}
+                        className="text-slate-400 hover:text-indigo-400 text-sm flex items-center gap-2 px-4 py-2 rounded-full border border-slate-800 hover:border-indigo-500/30 hover:bg-indigo-500/10 transition-all disabled:opacity-50 disabled:pointer-events-none"
                     >
                         <Upload size={16} />
-                        <span>Загрузить файл (MP3, OGG)</span>
+                        <span>{t('recorder.upload')}</span>
                     </button>
                 )}
+
+                {isMicIdle && (
+                    <div className="flex flex-wrap justify-center gap-x-5 gap-y-2">
+                        <label className="flex items-center gap-2 text-slate-400 text-xs cursor-pointer select-none" title={t('recorder.liveModeHint')}>
+                            <input
+                                type="checkbox"
+                                checked={isLiveMode}
+                                onChange={(e) => setIsLiveMode(e.target.checked)}
+                                className="accent-indigo-500"
+                            />
+                            {t('recorder.liveMode', { provider: t(provider.label) })}
+                        </label>
+                        <label className="flex items-center gap-2 text-slate-400 text-xs cursor-pointer select-none" title={t('recorder.voiceModeHint', { seconds: vadConfig.autoStopSeconds })}>
+                            <input
+                                type="checkbox"
+                                checked={isVoiceMode}
+                                onChange={(e) => setIsVoiceMode(e.target.checked)}
+                                className="accent-indigo-500"
+                            />
+                            {t('recorder.voiceMode')}
+                        </label>
+                        {matters.some(m => !m.archived) && (
+                            <label className="flex items-center gap-2 text-slate-400 text-xs" title={t('recorder.matterHint')}>
+                                <Briefcase size={14} />
+                                <MatterSelect
+                                    matters={matters}
+                                    clients={clients}
+                                    value={captureMatterId}
+                                    onChange={setCaptureMatterId}
+                                    className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 outline-none focus:border-indigo-500/60 max-w-[220px]"
+                                />
+                            </label>
+                        )}
+                    </div>
+                )}
             </div>
 
             {permissionError && (
@@ -243,35 +1250,333 @@ const App: React.FC = () => {
                     {permissionError}
                 </div>
             )}
+
+            {isMicIdle && (
+                <div className="border-t border-slate-800 pt-4">
+                    <button
+                        onClick={() => setIsSettingsOpen(true)}
+                        className="mb-3 flex items-center gap-2 text-sm text-slate-400 hover:text-indigo-400 transition-colors"
+                    >
+                        <Settings size={16} />
+                        {t('app.settings')}
+                    </button>
+                    <ProviderSettings
+                        config={providerConfig}
+                        isLocal={provider.isLocal}
+                        onChange={handleProviderChange}
+                    />
+                    <div className="mt-3 flex flex-col gap-2">
+                        <VadSettings config={vadConfig} onChange={handleVadConfigChange} />
+                        <PreprocessingSettings config={preprocessingConfig} onChange={handlePreprocessingConfigChange} />
+                    </div>
+                    <div className="mt-3 flex flex-wrap gap-x-6 gap-y-2">
+                        <button
+                            onClick={() => setIsGlossaryOpen(true)}
+                            className="flex items-center gap-2 text-sm text-slate-400 hover:text-indigo-400 transition-colors"
+                        >
+                            <BookOpen size={16} />
+                            {t('app.glossaries', { active: glossaries.filter(g => g.enabled).length, total: glossaries.length })}
+                        </button>
+                        <button
+                            onClick={() => setIsTemplatesOpen(true)}
+                            className="flex items-center gap-2 text-sm text-slate-400 hover:text-indigo-400 transition-colors"
+                        >
+                            <FileSignature size={16} />
+                            {t('app.templates')}
+                        </button>
+                        <button
+                            onClick={() => setIsMattersOpen(true)}
+                            className="flex items-center gap-2 text-sm text-slate-400 hover:text-indigo-400 transition-colors"
+                        >
+                            <Briefcase size={16} />
+                            {t('app.matters', { count: matters.filter(m => !m.archived).length })}
+                        </button>
+                        <button
+                            onClick={() => setIsVaultSettingsOpen(true)}
+                            className="flex items-center gap-2 text-sm text-slate-400 hover:text-indigo-400 transition-colors"
+                        >
+                            <ShieldCheck size={16} />
+                            {t('app.vault')}
+                        </button>
+                        <button
+                            onClick={() => setIsBackupOpen(true)}
+                            className="flex items-center gap-2 text-sm text-slate-400 hover:text-indigo-400 transition-colors"
+                        >
+                            <Archive size={16} />
+                            {t('app.backup')}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {isMicIdle && interruptedCaptures.map(({ session, blob, bookmarks }) => (
+                <div key={session.id} className="flex flex-wrap items-center justify-between gap-3 text-sm bg-amber-400/10 border border-amber-400/20 rounded-lg px-4 py-3">
+                    <span className="flex items-center gap-2 text-amber-300">
+                        <History size={16} />
+                        {t('recorder.interrupted', { date: formatTimestamp(session.startedAt), duration: formatDuration(session.elapsed), size: formatBytes(blob.size) })}
+                    </span>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => handleRecoverCapture({ session, blob, bookmarks })}
+                            className="px-3 py-1.5 bg-amber-500/20 hover:bg-amber-500/30 text-amber-200 rounded-lg transition-colors"
+                        >
+                            {t('common.restore')}
+                        </button>
+                        <button
+                            onClick={() => handleDiscardCapture(session.id)}
+                            className="px-3 py-1.5 text-slate-400 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                        >
+                            {t('common.delete')}
+                        </button>
+                    </div>
+                </div>
+            ))}
+
+            {(importProgress || importReport) && (
+                <ImportStatus
+                    progress={importProgress}
+                    importedCount={importReport?.imported.length ?? 0}
+                    rejected={importReport?.rejected ?? []}
+                    onDismiss={() => setImportReport(null)}
+                />
+            )}
+
+            {storageError && (
+                <div className="text-center text-amber-400 text-sm bg-amber-400/10 py-2 px-3 rounded border border-amber-400/20">
+                    {storageError}
+                </div>
+            )}
         </div>
 
         {/* Recordings List */}
         <div className="flex flex-col gap-4">
-            <h2 className="text-xl font-semibold text-slate-200 pl-2 border-l-4 border-indigo-500">
-                Ваши записи
-            </h2>
+            <div className="flex items-baseline justify-between gap-4">
+                <h2 className="text-xl font-semibold text-slate-200 pl-2 border-l-4 border-indigo-500">
+                    {t('library.title')}
+                </h2>
+                {storageEstimate && storageEstimate.quota > 0 && (
+                    <span className="text-slate-500 text-xs" title={t('library.storageHint')}>
+                        {t('library.storageUsage', { used: formatBytes(storageEstimate.usage), total: formatBytes(storageEstimate.quota) })}
+                    </span>
+                )}
+            </div>
+
+            {(untranscribed.length > 0 || jobList.length > 0) && (
+                <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-slate-400 bg-slate-900/40 border border-slate-800 rounded-xl px-4 py-2">
+                    <span>
+                        {jobList.length > 0
+                            ? t('library.queueActive', { running: jobList.length - queuedCount, queued: queuedCount })
+                            : t('library.untranscribed', { count: untranscribed.length })}
+                    </span>
+                    <div className="flex items-center gap-1">
+                        {untranscribed.length > 0 && (
+                            <button
+                                onClick={handleTranscribeAll}
+                                className="flex items-center gap-2 px-3 py-1.5 text-slate-300 hover:text-indigo-300 hover:bg-indigo-500/10 rounded-lg transition-colors"
+                            >
+                                <ListChecks size={16} />
+                                {t('library.transcribeAll', { count: untranscribed.length })}
+                            </button>
+                        )}
+                        {jobList.length > 0 && (
+                            <button
+                                onClick={handleCancelAll}
+                                className="px-3 py-1.5 text-slate-400 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                            >
+                                {t('library.cancelAll')}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {selectedRecordings.length > 0 && (
+                <div className="flex items-center justify-between gap-3 bg-indigo-500/10 border border-indigo-500/30 rounded-xl px-4 py-2">
+                    <span className="text-sm text-slate-300">
+                        {t('library.selected', { count: selectedRecordings.length })}
+                        {exportNotice && <span className="text-amber-400 ml-3">{exportNotice}</span>}
+                    </span>
+                    <div className="flex items-center gap-1">
+                        <ExportMenu
+                            label={t('library.export')}
+                            isAvailable={(format) => selectedRecordings.some(r => canExport(r, format))}
+                            onExport={handleExportSelected}
+                        />
+                        <button
+                            onClick={() => {
+                                setSelectedIds(new Set());
+                                setExportNotice(null);
+                            }}
+                            className="p-2 text-slate-400 hover:text-slate-200 rounded-full transition-colors"
+                            title={t('library.clearSelection')}
+                        >
+                            <X size={18} />
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {openMatter && (
+                <div className="flex items-center gap-3 bg-slate-900/60 border border-indigo-500/30 rounded-xl px-4 py-3">
+                    <button
+                        onClick={() => setOpenMatter(null)}
+                        className="p-1.5 text-slate-400 hover:text-slate-200 rounded-full transition-colors"
+                        title={t('library.allRecordings')}
+                    >
+                        <ArrowLeft size={18} />
+                    </button>
+                    <Briefcase size={18} className="text-indigo-400 flex-shrink-0" />
+                    <div className="flex flex-col min-w-0">
+                        <span className="font-semibold text-slate-200 truncate">
+                            {openMatter.archived ? t('library.archivedMatter', { name: openMatter.name }) : openMatter.name}
+                        </span>
+                        {openMatter.clientId && (
+                            <span className="text-xs text-slate-500">{clients.find(c => c.id === openMatter.clientId)?.name}</span>
+                        )}
+                    </div>
+                    <span className="ml-auto text-xs text-slate-400 whitespace-nowrap">
+                        {t('library.recordingCount', { count: matterCounts[openMatter.id] ?? 0 })} · {formatLongDuration(recordings
+                            .filter(r => r.matterId === openMatter.id)
+                            .reduce((sum, r) => sum + r.duration, 0))}
+                    </span>
+                </div>
+            )}
+
+            {recordings.length > 0 && (
+                <SearchPanel
+                    query={searchQuery}
+                    tags={allTags}
+                    matters={matters}
+                    resultCount={searchResults.length}
+                    onChange={setSearchQuery}
+                />
+            )}
             
             {recordings.length === 0 ? (
                 <div className="text-center py-12 text-slate-500 bg-slate-900/30 rounded-2xl border border-slate-800/50 border-dashed flex flex-col items-center justify-center gap-3">
                     <div className="p-4 bg-slate-800/50 rounded-full">
                         <FileAudio size={32} className="text-slate-600" />
                     </div>
-                    <p>Записей пока нет. Нажмите на микрофон или загрузите файл.</p>
+                    <p>{t('library.empty')}</p>
+                </div>
+            ) : searchResults.length === 0 ? (
+                <div className="text-center py-8 text-slate-500 text-sm">
+                    {t('library.noResults')}
                 </div>
             ) : (
-                <div className="grid gap-4">
-                    {recordings.map((recording) => (
-                        <RecordingItem 
-                            key={recording.id} 
-                            recording={recording} 
-                            onTranscribe={handleTranscribe}
-                            onDelete={handleDelete}
-                        />
+                <div className="grid gap-6">
+                    {matterGroups.map(group => (
+                        <div key={group.matter?.id ?? 'none'} className="flex flex-col gap-3">
+                            {!openMatter && (matterGroups.length > 1 || group.matter) && (
+                                <button
+                                    onClick={() => group.matter && setOpenMatter(group.matter)}
+                                    disabled={!group.matter}
+                                    className="flex items-center gap-2 text-left text-sm text-slate-400 enabled:hover:text-indigo-400 transition-colors"
+                                    title={group.matter ? t('library.openMatter') : undefined}
+                                >
+                                    <Briefcase size={16} className="flex-shrink-0" />
+                                    <span className="font-semibold text-slate-300">{group.matter?.name ?? t('library.noMatter')}</span>
+                                    {group.matter?.clientId && (
+                                        <span className="text-slate-500">· {clients.find(c => c.id === group.matter?.clientId)?.name}</span>
+                                    )}
+                                    <span className="ml-auto text-xs text-slate-500 whitespace-nowrap">
+                                        {t('library.recordingCount', { count: group.items.length })} · {formatLongDuration(group.duration)}
+                                    </span>
+                                </button>
+                            )}
+                            {group.items.map(({ recording, matchedSegments }) => (
+                                <RecordingItem 
+                                    key={recording.id} 
+                                    recording={recording} 
+                                    isSelected={selectedIds.has(recording.id)}
+                                    onToggleSelect={handleToggleSelect}
+                                    isActive={recording.id === activeRecordingId}
+                                    onActivate={setActiveRecordingId}
+                                    playback={settings.playback}
+                                    onPlaybackChange={handlePlaybackChange}
+                                    providerLabel={t(provider.label)}
+                                    job={jobs[recording.id]}
+                                    allTags={allTags}
+                                    templates={templates}
+                                    searchStems={searchStems}
+                                    matchedSegments={matchedSegments}
+                                    onTranscribe={handleTranscribe}
+                                    onCancelTranscription={handleCancelTranscription}
+                                    onRetryChunk={handleRetryChunk}
+                                    onRenameSpeaker={handleRenameSpeaker}
+                                    onEditTranscript={handleEditTranscript}
+                                    onRevertVersion={handleRevertVersion}
+                                    onUpdateTags={handleUpdateTags}
+                                    onUpdateBookmarks={handleUpdateBookmarks}
+                                    matters={matters}
+                                    clients={clients}
+                                    onAssignMatter={handleAssignMatter}
+                                    onAssignClient={handleAssignClient}
+                                    onGenerateDocument={provider.isLocal ? undefined : handleGenerateDocument}
+                                    onDeleteDocument={handleDeleteDocument}
+                                    onDetectNames={provider.isLocal ? undefined : handleDetectNames}
+                                    onApplyAudioEdit={handleApplyAudioEdit}
+                                    onAnalyzeSpeech={handleAnalyzeSpeech}
+                                    processed={processed[recording.id]?.source === recording.blob ? processed[recording.id] : undefined}
+                                    onPreprocess={handlePreprocess}
+                                    onDelete={handleDelete}
+                                />
+                            ))}
+                        </div>
                     ))}
                 </div>
             )}
         </div>
       </div>
+
+      {isGlossaryOpen && (
+        <GlossaryManager
+          glossaries={glossaries}
+          matters={matters}
+          clients={clients}
+          onChange={handleGlossariesChange}
+          onClose={() => setIsGlossaryOpen(false)}
+        />
+      )}
+
+      {isMattersOpen && (
+        <MatterManager
+          library={matterLibrary}
+          recordingCounts={matterCounts}
+          onChange={handleMatterLibraryChange}
+          onClose={() => setIsMattersOpen(false)}
+        />
+      )}
+
+      {isBackupOpen && (
+        <BackupPanel
+          recordings={recordings}
+          selectedCount={selectedRecordings.length}
+          onExport={handleBackupExport}
+          onRestore={handleRestore}
+          onClose={() => setIsBackupOpen(false)}
+        />
+      )}
+
+      {isSettingsOpen && (
+        <SettingsPanel
+          settings={settings}
+          onChange={handleSettingsChange}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {isVaultSettingsOpen && (
+        <VaultSettings onClose={() => setIsVaultSettingsOpen(false)} />
+      )}
+
+      {isTemplatesOpen && (
+        <TemplateManager
+          templates={templates}
+          onChange={handleTemplatesChange}
+          onClose={() => setIsTemplatesOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,7 +1,9 @@
 import React, { useEffect, useRef } from 'react';
 import { AudioVisualizerProps } from '../types';
+import { useI18n } from './I18nProvider';
 
-const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ stream, isRecording }) => {
+const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ stream, isRecording, fftSize = 256 }) => {
+  const { t } = useI18n();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
   const audioContextRef = useRef<AudioContext>();
@@ -28,7 +30,7 @@ const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ stream, isRecording }
     }
 
     const analyser = audioContext.createAnalyser();
-    analyser.fftSize = 256;
+    analyser.fftSize = fftSize;
     analyserRef.current = analyser;
 
     const source = audioContext.createMediaStreamSource(stream);
@@ -87,7 +89,7 @@ const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ stream, isRecording }
       // Clear canvas
       if (ctx) ctx.clearRect(0, 0, canvas.width, canvas.height);
     };
-  }, [stream, isRecording]);
+  }, [stream, isRecording, fftSize]);
 
   // Clean up context on unmount
   useEffect(() => {
@@ -102,7 +104,7 @@ const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ stream, isRecording }
     <div className="w-full h-32 bg-slate-800/50 rounded-xl overflow-hidden border border-slate-700 backdrop-blur-sm shadow-inner flex items-center justify-center">
       {!isRecording && (
         <div className="text-slate-500 text-sm font-medium">
-          Готов к записи
+          {t('recorder.ready')}
         </div>
       )}
       <canvas
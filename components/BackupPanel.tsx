@@ -0,0 +1,239 @@
+import React, { useRef, useState } from 'react';
+import { Archive, ArchiveRestore, Loader2, X } from 'lucide-react';
+import { Recording } from '../types';
+import {
+  DuplicateResolution,
+  readBackup,
+  RestorePlan,
+  RestoreReport,
+  RestoreReportItem,
+} from '../services/backupService';
+import { describeError, MessageKey } from '../services/i18nService';
+import { formatTimestamp } from '../utils/audioUtils';
+import { ZipLimitError } from '../utils/zipUtils';
+import { useI18n } from './I18nProvider';
+
+interface BackupPanelProps {
+  recordings: Recording[];
+  selectedCount: number;
+  onExport: (onlySelected: boolean) => Promise<void>;
+  onRestore: (plan: RestorePlan, resolutions: Record<string, DuplicateResolution>) => RestoreReport;
+  onClose: () => void;
+}
+
+const RESOLUTION_LABELS: Record<DuplicateResolution, MessageKey> = {
+  'skip': 'backup.skip',
+  'overwrite': 'backup.overwrite',
+  'keep-both': 'backup.keepBoth',
+};
+
+const selectClassName = "bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 outline-none focus:border-indigo-500/60";
+const buttonClassName = "flex items-center gap-2 px-3 py-1.5 text-sm border border-slate-700 hover:border-indigo-500/50 hover:text-indigo-400 rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none";
+
+const ReportList: React.FC<{ label: string; items: { title: string; detail?: string }[]; className: string }> = ({ label, items, className }) => {
+  if (items.length === 0) return null;
+  return (
+    <div className="flex flex-col gap-1">
+      <span className={`text-xs font-bold uppercase tracking-wider ${className}`}>{label}: {items.length}</span>
+      <ul className="text-sm text-slate-300 max-h-40 overflow-y-auto pl-4 list-disc">
+        {items.map((item, index) => (
+          <li key={index}>
+            {item.title}
+            {item.detail && <span className="text-slate-500"> — {item.detail}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const titles = (items: RestoreReportItem[]) => items.map(item => ({ title: item.title }));
+
+const BackupPanel: React.FC<BackupPanelProps> = ({ recordings, selectedCount, onExport, onRestore, onClose }) => {
+  const { t } = useI18n();
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, DuplicateResolution>>({});
+  const [report, setReport] = useState<RestoreReport | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const duplicates = plan?.items.filter(item => item.duplicateOf) ?? [];
+  const titleOf = (recording: Pick<Recording, 'name' | 'timestamp'>) =>
+    recording.name || t('backup.untitled', { date: formatTimestamp(recording.timestamp) });
+  const existingTitle = (id: string) => {
+    const recording = recordings.find(r => r.id === id);
+    return recording ? titleOf(recording) : id;
+  };
+
+  const handleExport = async (onlySelected: boolean) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onExport(onlySelected);
+    } catch (e) {
+      console.error("Backup failed:", e);
+      setError(e instanceof ZipLimitError ? describeError(e, 'backup.createFailed') : t('backup.createFailed'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsBusy(true);
+    setError(null);
+    setReport(null);
+    try {
+      const next = await readBackup(file, recordings);
+      setPlan(next);
+      setResolutions(Object.fromEntries(
+        next.items.filter(item => item.duplicateOf).map(item => [item.recording.id, 'skip' as DuplicateResolution])
+      ));
+    } catch (e) {
+      console.error("Reading backup failed:", e);
+      setError(describeError(e, 'backup.readFailed'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const setAllResolutions = (resolution: DuplicateResolution) => {
+    setResolutions(Object.fromEntries(duplicates.map(item => [item.recording.id, resolution])));
+  };
+
+  const handleRestore = () => {
+    if (!plan) return;
+    setReport(onRestore(plan, resolutions));
+    setPlan(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/80 backdrop-blur-sm flex items-start justify-center p-4 overflow-y-auto">
+      <div className="w-full max-w-2xl bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl p-6 flex flex-col gap-5 my-8">
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-slate-200">
+            <Archive size={20} className="text-indigo-400" />
+            {t('backup.title')}
+          </h2>
+          <button onClick={onClose} disabled={isBusy} className="p-2 text-slate-400 hover:text-slate-200 rounded-full transition-colors disabled:opacity-40" title={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <span className="text-xs font-bold uppercase tracking-wider text-slate-500">{t('backup.save')}</span>
+          <div className="flex flex-wrap gap-2 text-slate-300">
+            <button onClick={() => handleExport(false)} disabled={isBusy || recordings.length === 0} className={buttonClassName}>
+              {t('backup.wholeLibrary', { count: recordings.length })}
+            </button>
+            <button onClick={() => handleExport(true)} disabled={isBusy || selectedCount === 0} className={buttonClassName}>
+              {t('backup.selected', { count: selectedCount })}
+            </button>
+          </div>
+          <p className="text-xs text-amber-400/80">
+            {t('backup.unencrypted')}
+          </p>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <span className="text-xs font-bold uppercase tracking-wider text-slate-500">{t('backup.restoreFrom')}</span>
+          <input type="file" accept=".zip,application/zip" ref={fileInputRef} onChange={handleFile} className="hidden" />
+          {!plan && (
+            <button onClick={() => fileInputRef.current?.click()} disabled={isBusy} className={`${buttonClassName} self-start text-slate-300`}>
+              {isBusy ? <Loader2 size={14} className="animate-spin" /> : <ArchiveRestore size={14} />}
+              {t('backup.chooseArchive')}
+            </button>
+          )}
+
+          {plan && (
+            <div className="flex flex-col gap-3 bg-slate-800/40 border border-slate-700 rounded-xl p-3 text-sm text-slate-300">
+              <span>
+                {t(plan.rejected.length > 0 ? 'backup.summaryRejected' : 'backup.summary', {
+                  date: plan.createdAt ? formatTimestamp(plan.createdAt) : t('backup.unknownDate'),
+                  count: plan.items.length,
+                  duplicates: duplicates.length,
+                  rejected: plan.rejected.length,
+                })}
+              </span>
+
+              {duplicates.length > 0 && (
+                <div className="flex flex-col gap-2">
+                  <div className="flex items-center gap-2 text-xs text-slate-400">
+                    {t('backup.forAllDuplicates')}
+                    {(Object.keys(RESOLUTION_LABELS) as DuplicateResolution[]).map(resolution => (
+                      <button key={resolution} onClick={() => setAllResolutions(resolution)} className="px-2 py-0.5 rounded border border-slate-700 hover:text-indigo-400 hover:border-indigo-500/50 transition-colors">
+                        {t(RESOLUTION_LABELS[resolution])}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex flex-col gap-1.5 max-h-64 overflow-y-auto">
+                    {duplicates.map(({ recording, duplicateOf }) => (
+                      <div key={recording.id} className="flex items-center gap-3">
+                        <div className="flex flex-col flex-grow min-w-0">
+                          <span className="truncate">{titleOf(recording)}</span>
+                          <span className="text-xs text-slate-500 truncate">
+                            {t(duplicateOf!.reason === 'id' ? 'backup.sameRecording' : 'backup.sameAudio', { title: existingTitle(duplicateOf!.id) })}
+                          </span>
+                        </div>
+                        <select
+                          value={resolutions[recording.id] ?? 'skip'}
+                          onChange={(e) => setResolutions(prev => ({ ...prev, [recording.id]: e.target.value as DuplicateResolution }))}
+                          className={selectClassName}
+                        >
+                          {(Object.keys(RESOLUTION_LABELS) as DuplicateResolution[]).map(resolution => (
+                            <option key={resolution} value={resolution}>{t(RESOLUTION_LABELS[resolution])}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  onClick={handleRestore}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg transition-colors"
+                >
+                  <ArchiveRestore size={14} /> {t('backup.restore')}
+                </button>
+                <button onClick={() => setPlan(null)} className={`${buttonClassName} text-slate-300`}>
+                  {t('common.cancel')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {report && (
+            <div className="flex flex-col gap-3 bg-slate-800/40 border border-slate-700 rounded-xl p-3">
+              <ReportList label={t('backup.added')} items={titles(report.added)} className="text-emerald-400" />
+              <ReportList label={t('backup.overwritten')} items={titles(report.overwritten)} className="text-indigo-400" />
+              <ReportList label={t('backup.copied')} items={titles(report.copied)} className="text-indigo-400" />
+              <ReportList label={t('backup.skipped')} items={titles(report.skipped)} className="text-slate-400" />
+              <ReportList
+                label={t('backup.rejected')}
+                items={report.rejected.map(r => ({ title: r.name, detail: t(r.reason) }))}
+                className="text-red-400"
+              />
+              {(report.mattersAdded > 0 || report.clientsAdded > 0) && (
+                <span className="text-sm text-slate-400">
+                  {t('backup.mattersAdded', { matters: report.mattersAdded, clients: report.clientsAdded })}
+                </span>
+              )}
+              {report.added.length + report.overwritten.length + report.copied.length + report.skipped.length + report.rejected.length === 0 && (
+                <span className="text-sm text-slate-400">{t('backup.empty')}</span>
+              )}
+            </div>
+          )}
+
+          {error && <div className="text-sm text-red-400">{error}</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupPanel;
@@ -0,0 +1,97 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark as BookmarkIcon } from 'lucide-react';
+import { Bookmark } from '../types';
+import { formatDuration } from '../utils/audioUtils';
+import { BOOKMARK_SHORTCUTS } from '../utils/bookmarkUtils';
+import { useI18n } from './I18nProvider';
+
+interface BookmarkCaptureProps {
+  bookmarks: Bookmark[];
+  onAdd: () => void;
+  onChangeNote: (id: string, note: string) => void;
+  // Mirrors the unsaved note so the recorder can keep it when recording stops
+  onDraftChange: (draft: { id: string; note: string } | null) => void;
+}
+
+// Markers placed while recording. The newest one opens for a note right away;
+// typing is optional and another marker can be placed without finishing it.
+const BookmarkCapture: React.FC<BookmarkCaptureProps> = ({ bookmarks, onAdd, onChangeNote, onDraftChange }) => {
+  const { t } = useI18n();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const countRef = useRef(bookmarks.length);
+
+  const commit = () => {
+    if (editingId && draft !== bookmarks.find(b => b.id === editingId)?.note) onChangeNote(editingId, draft);
+    setEditingId(null);
+  };
+
+  useEffect(() => {
+    if (bookmarks.length > countRef.current) {
+      commit();
+      const newest = bookmarks[bookmarks.length - 1];
+      setEditingId(newest.id);
+      setDraft(newest.note);
+    }
+    countRef.current = bookmarks.length;
+  }, [bookmarks.length]);
+
+  useEffect(() => {
+    onDraftChange(editingId ? { id: editingId, note: draft } : null);
+  }, [editingId, draft]);
+
+  const editing = bookmarks.find(b => b.id === editingId);
+
+  return (
+    <div className="flex flex-col items-center gap-2 w-full">
+      <button
+        onClick={onAdd}
+        className="flex items-center gap-2 px-4 py-1.5 text-sm text-amber-300 border border-amber-400/30 hover:bg-amber-400/10 rounded-full transition-colors"
+        title={t('bookmarks.addHint', { keys: BOOKMARK_SHORTCUTS.join(', ') })}
+      >
+        <BookmarkIcon size={14} />
+        {t('bookmarks.add')}
+      </button>
+
+      {editing && (
+        <div className="flex items-center gap-2 w-full max-w-md">
+          <span className="text-xs font-mono text-amber-300">{formatDuration(editing.time)}</span>
+          <input
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.ctrlKey && !e.metaKey) commit();
+              if (e.key === 'Escape') setEditingId(null);
+            }}
+            placeholder={t('bookmarks.notePlaceholder')}
+            className="flex-grow bg-slate-800 border border-amber-400/30 rounded-lg px-2 py-1 text-sm text-slate-200 outline-none focus:border-amber-400/60"
+          />
+        </div>
+      )}
+
+      {bookmarks.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-1.5 text-xs">
+          {bookmarks.map(bookmark => (
+            <button
+              key={bookmark.id}
+              onClick={() => {
+                commit();
+                setEditingId(bookmark.id);
+                setDraft(bookmark.note);
+              }}
+              className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-400/10 text-amber-200 hover:bg-amber-400/20 transition-colors max-w-[14rem]"
+              title={t('bookmarks.editNote')}
+            >
+              <span className="font-mono">{formatDuration(bookmark.time)}</span>
+              {bookmark.note && <span className="truncate">{bookmark.note}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BookmarkCapture;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Bookmark as BookmarkIcon, BookmarkPlus, Pencil, X } from 'lucide-react';
+import { Bookmark } from '../types';
+import { formatDuration } from '../utils/audioUtils';
+import { createBookmark } from '../utils/bookmarkUtils';
+import { useI18n } from './I18nProvider';
+
+interface BookmarkListProps {
+  bookmarks: Bookmark[];
+  currentTime: number;
+  onSeek: (time: number) => void;
+  onChange: (bookmarks: Bookmark[]) => void;
+}
+
+const BookmarkList: React.FC<BookmarkListProps> = ({ bookmarks, currentTime, onSeek, onChange }) => {
+  const { t } = useI18n();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = (bookmark: Bookmark) => {
+    setEditingId(bookmark.id);
+    setDraft(bookmark.note);
+  };
+
+  const commit = () => {
+    if (!editingId) return;
+    onChange(bookmarks.map(b => b.id === editingId ? { ...b, note: draft.trim() } : b));
+    setEditingId(null);
+  };
+
+  const handleAdd = () => {
+    const bookmark = createBookmark(currentTime);
+    onChange([...bookmarks, bookmark]);
+    startEditing(bookmark);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 text-xs">
+      <BookmarkIcon size={12} className="text-amber-400/80" />
+      {bookmarks.map(bookmark => bookmark.id === editingId ? (
+        <span key={bookmark.id} className="flex items-center gap-1">
+          <span className="font-mono text-amber-300">{formatDuration(bookmark.time)}</span>
+          <input
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commit();
+              if (e.key === 'Escape') setEditingId(null);
+            }}
+            placeholder={t('bookmarks.notePlaceholder')}
+            className="bg-slate-800 border border-amber-400/40 rounded px-2 py-0.5 text-xs text-slate-100 outline-none w-48"
+          />
+        </span>
+      ) : (
+        <span key={bookmark.id} className="group flex items-center rounded-full bg-amber-400/10 text-amber-200 max-w-[16rem]">
+          <button
+            onClick={() => onSeek(bookmark.time)}
+            className="flex items-center gap-1 pl-2 py-0.5 min-w-0 hover:text-amber-100"
+            title={t('bookmarks.seek')}
+          >
+            <span className="font-mono">{formatDuration(bookmark.time)}</span>
+            {bookmark.note && <span className="truncate">{bookmark.note}</span>}
+          </button>
+          <button
+            onClick={() => startEditing(bookmark)}
+            className="px-1 opacity-0 group-hover:opacity-100 hover:text-amber-100 transition-opacity"
+            title={t('bookmarks.editNote')}
+          >
+            <Pencil size={10} />
+          </button>
+          <button
+            onClick={() => onChange(bookmarks.filter(b => b.id !== bookmark.id))}
+            className="pr-2 opacity-0 group-hover:opacity-100 hover:text-red-300 transition-opacity"
+            title={t('bookmarks.delete')}
+          >
+            <X size={10} />
+          </button>
+        </span>
+      ))}
+      <button
+        onClick={handleAdd}
+        className="flex items-center gap-1 px-2 py-0.5 rounded-full text-slate-500 hover:text-amber-300 hover:bg-amber-400/10 transition-colors"
+        title={t('bookmarks.addHere')}
+      >
+        <BookmarkPlus size={12} />
+        {bookmarks.length === 0 && t('bookmarks.add')}
+      </button>
+    </div>
+  );
+};
+
+export default BookmarkList;
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Check, Copy, Download, FileSignature, Loader2, Trash2 } from 'lucide-react';
+import { DocumentTemplate, GeneratedDocument, Recording } from '../types';
+import { formatTimestamp } from '../utils/audioUtils';
+import { documentToMarkdown, documentToText, isTemplateUsable } from '../services/documentService';
+import { downloadBlob, getExportBaseName } from '../services/exportService';
+import { describeError } from '../services/i18nService';
+import { useI18n } from './I18nProvider';
+
+interface DocumentPanelProps {
+  recording: Recording;
+  templates: DocumentTemplate[];
+  onGenerate?: (templateId: string) => Promise<void>; // absent when the text must not leave the device
+  onDelete: (documentId: string) => void;
+}
+
+const DocumentPanel: React.FC<DocumentPanelProps> = ({ recording, templates, onGenerate, onDelete }) => {
+  const { t } = useI18n();
+  const usable = templates.filter(isTemplateUsable);
+  const documents = recording.documents ?? [];
+  const [pickedId, setPickedId] = useState(usable[0]?.id ?? '');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [openId, setOpenId] = useState<string | null>(documents[0]?.id ?? null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  // Falls back to the first template if the picked one was deleted meanwhile
+  const templateId = usable.some(template => template.id === pickedId) ? pickedId : usable[0]?.id ?? '';
+
+  const handleGenerate = async () => {
+    if (!templateId || !onGenerate) return;
+    if (!window.confirm(t('document.sendConfirm'))) return;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      await onGenerate(templateId);
+      setOpenId(null);
+    } catch (e) {
+      setError(describeError(e, 'document.failed'));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleCopy = async (doc: GeneratedDocument) => {
+    await navigator.clipboard.writeText(documentToText(doc));
+    setCopiedId(doc.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const handleDownload = (doc: GeneratedDocument) => {
+    const blob = new Blob([documentToMarkdown(doc)], { type: 'text/markdown;charset=utf-8' });
+    downloadBlob(blob, `${getExportBaseName(recording)} - ${doc.templateName}.md`);
+  };
+
+  // The newest document is expanded until the user picks another one
+  const expandedId = openId ?? documents[0]?.id;
+
+  return (
+    <div className="space-y-3">
+      {onGenerate ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={templateId}
+            onChange={(e) => setPickedId(e.target.value)}
+            disabled={isGenerating}
+            className="flex-grow min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-sm text-slate-200 outline-none focus:border-indigo-500/60"
+          >
+            {usable.map(template => (
+              <option key={template.id} value={template.id}>{template.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating || !templateId}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 text-sm rounded-lg transition-colors font-medium"
+            title={t('document.sendHint')}
+          >
+            {isGenerating ? <Loader2 size={16} className="animate-spin" /> : <FileSignature size={16} />}
+            {t('document.generate')}
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400">{t('document.localProvider')}</p>
+      )}
+
+      {error && (
+        <div className="text-sm text-red-400 bg-red-400/10 border border-red-400/20 rounded px-3 py-2">{error}</div>
+      )}
+
+      {documents.length === 0 && !isGenerating && (
+        <p className="text-slate-500 text-sm">{t('document.none')}{onGenerate && t('document.noneHint')}</p>
+      )}
+
+      {documents.map(doc => (
+        <div key={doc.id} className="bg-slate-900/50 rounded-lg border border-slate-700/50">
+          <div className="flex items-center justify-between gap-2 px-3 py-2">
+            <button
+              onClick={() => setOpenId(doc.id === expandedId ? '' : doc.id)}
+              className="flex-grow min-w-0 text-left text-sm text-slate-200 hover:text-indigo-300 truncate"
+            >
+              {doc.templateName}
+              <span className="text-slate-500 text-xs ml-2">{formatTimestamp(doc.createdAt)}</span>
+            </button>
+            <div className="flex gap-1 flex-shrink-0">
+              <button
+                onClick={() => handleCopy(doc)}
+                className="p-1.5 text-slate-400 hover:text-indigo-400 hover:bg-slate-700 rounded transition-colors"
+                title={t('document.copy')}
+              >
+                {copiedId === doc.id ? <Check size={14} /> : <Copy size={14} />}
+              </button>
+              <button
+                onClick={() => handleDownload(doc)}
+                className="p-1.5 text-slate-400 hover:text-indigo-400 hover:bg-slate-700 rounded transition-colors"
+                title={t('document.download')}
+              >
+                <Download size={14} />
+              </button>
+              <button
+                onClick={() => onDelete(doc.id)}
+                className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                title={t('document.delete')}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+          {doc.id === expandedId && (
+            <div className="px-4 pb-4 space-y-3 max-h-80 overflow-y-auto custom-scrollbar">
+              {doc.sections.map((s, i) => (
+                <div key={i}>
+                  <h5 className="text-xs font-bold uppercase tracking-wider text-indigo-300 mb-1">{s.title}</h5>
+                  <p className="text-slate-300 text-sm leading-relaxed whitespace-pre-wrap font-light">{s.content || '—'}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DocumentPanel;
@@ -0,0 +1,63 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { EXPORT_FORMATS, ExportFormat } from '../services/exportService';
+import { useI18n } from './I18nProvider';
+
+interface ExportMenuProps {
+  isAvailable: (format: ExportFormat) => boolean;
+  onExport: (format: ExportFormat) => void;
+  label?: string;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ isAvailable, onExport, label }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 p-2 text-slate-400 hover:text-indigo-400 hover:bg-indigo-400/10 rounded-full transition-colors text-sm"
+        title={t('export.title')}
+      >
+        <Download size={18} />
+        {label && <span className="pr-1">{label}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-20 min-w-[200px] bg-slate-900 border border-slate-700 rounded-lg shadow-xl py-1">
+          {EXPORT_FORMATS.map(format => {
+            const available = isAvailable(format.id);
+            return (
+              <button
+                key={format.id}
+                disabled={!available}
+                onClick={() => {
+                  setIsOpen(false);
+                  onExport(format.id);
+                }}
+                className="w-full text-left px-3 py-2 text-sm text-slate-300 hover:bg-slate-800 disabled:text-slate-600 disabled:hover:bg-transparent transition-colors"
+                title={!available && format.needsTimestamps ? t('export.needsTimestamps') : undefined}
+              >
+                {t(format.label)}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,234 @@
+import React, { useRef, useState } from 'react';
+import { BookOpen, Download, Plus, Trash2, Upload, X } from 'lucide-react';
+import { Client, Glossary, GlossaryEntry, Matter, ReplacementRule } from '../types';
+import {
+  compileRule,
+  createEntry,
+  createGlossary,
+  createRule,
+  exportGlossariesFile,
+  parseGlossariesFile,
+} from '../services/glossaryService';
+import { downloadBlob } from '../services/exportService';
+import { describeError } from '../services/i18nService';
+import { useI18n } from './I18nProvider';
+import MatterSelect from './MatterSelect';
+
+interface GlossaryManagerProps {
+  glossaries: Glossary[];
+  matters: Matter[];
+  clients: Client[];
+  onChange: (glossaries: Glossary[]) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 outline-none focus:border-indigo-500/60";
+const iconButtonClassName = "p-1.5 text-slate-500 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors flex-shrink-0";
+
+const GlossaryManager: React.FC<GlossaryManagerProps> = ({ glossaries, matters, clients, onChange, onClose }) => {
+  const { t } = useI18n();
+  const [selectedId, setSelectedId] = useState<string | null>(glossaries[0]?.id ?? null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = glossaries.find(g => g.id === selectedId) ?? null;
+
+  const updateSelected = (patch: Partial<Glossary>) => {
+    if (!selected) return;
+    onChange(glossaries.map(g => g.id === selected.id ? { ...g, ...patch } : g));
+  };
+
+  const updateEntry = (id: string, patch: Partial<GlossaryEntry>) => {
+    if (!selected) return;
+    updateSelected({ entries: selected.entries.map(e => e.id === id ? { ...e, ...patch } : e) });
+  };
+
+  const updateRule = (id: string, patch: Partial<ReplacementRule>) => {
+    if (!selected) return;
+    updateSelected({ rules: selected.rules.map(r => r.id === id ? { ...r, ...patch } : r) });
+  };
+
+  const handleAddGlossary = () => {
+    const glossary = createGlossary(t('glossary.newName'));
+    onChange([...glossaries, glossary]);
+    setSelectedId(glossary.id);
+  };
+
+  const handleDeleteGlossary = () => {
+    if (!selected || !window.confirm(t('glossary.deleteConfirm', { name: selected.name }))) return;
+    const remaining = glossaries.filter(g => g.id !== selected.id);
+    onChange(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseGlossariesFile(await file.text());
+      onChange([...glossaries, ...imported]);
+      setSelectedId(imported[0]?.id ?? selectedId);
+      setImportError(null);
+    } catch (error) {
+      setImportError(describeError(error, 'glossary.importFailed'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/80 backdrop-blur-sm flex items-start justify-center p-4 overflow-y-auto">
+      <div className="w-full max-w-3xl bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl p-6 flex flex-col gap-5 my-8">
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-slate-200">
+            <BookOpen size={20} className="text-indigo-400" />
+            {t('glossary.title')}
+          </h2>
+          <div className="flex items-center gap-1">
+            <input type="file" accept="application/json,.json" ref={fileInputRef} onChange={handleImport} className="hidden" />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-slate-400 hover:text-indigo-400 rounded-lg transition-colors"
+              title={t('glossary.importHint')}
+            >
+              <Upload size={14} /> {t('glossary.import')}
+            </button>
+            <button
+              onClick={() => downloadBlob(exportGlossariesFile(glossaries), 'glossaries.json')}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-slate-400 hover:text-indigo-400 rounded-lg transition-colors"
+              title={t('glossary.exportHint')}
+            >
+              <Download size={14} /> {t('glossary.export')}
+            </button>
+            <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-200 rounded-full transition-colors" title={t('common.close')}>
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {importError && (
+          <div className="text-sm text-red-400 bg-red-400/10 border border-red-400/20 rounded px-3 py-2">{importError}</div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {glossaries.map(g => (
+            <button
+              key={g.id}
+              onClick={() => setSelectedId(g.id)}
+              className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${g.id === selectedId ? 'border-indigo-500/60 bg-indigo-500/10 text-indigo-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'} ${g.enabled ? '' : 'opacity-50'}`}
+            >
+              {g.name}{g.matterId && <span className="text-slate-500"> · {matters.find(m => m.id === g.matterId)?.name}</span>}
+            </button>
+          ))}
+          <button
+            onClick={handleAddGlossary}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-full text-sm border border-dashed border-slate-700 text-slate-500 hover:text-indigo-400 transition-colors"
+          >
+            <Plus size={14} /> {t('glossary.add')}
+          </button>
+        </div>
+
+        {selected && (
+          <div className="flex flex-col gap-5">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs text-slate-400">
+              <label className="flex flex-col gap-1">
+                {t('glossary.name')}
+                <input value={selected.name} onChange={(e) => updateSelected({ name: e.target.value })} className={inputClassName} />
+              </label>
+              <label className="flex flex-col gap-1">
+                {t('glossary.matter')}
+                <MatterSelect
+                  matters={matters}
+                  clients={clients}
+                  value={selected.matterId}
+                  onChange={(matterId) => updateSelected({ matterId })}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input type="checkbox" checked={selected.enabled} onChange={(e) => updateSelected({ enabled: e.target.checked })} className="accent-indigo-500" />
+                {t('glossary.enabled')}
+              </label>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.convertLegalNumbers}
+                  onChange={(e) => updateSelected({ convertLegalNumbers: e.target.checked })}
+                  className="accent-indigo-500"
+                />
+                {t('glossary.legalNumbers')}
+              </label>
+            </div>
+
+            {/* Terms */}
+            <div className="flex flex-col gap-2">
+              <h3 className="text-xs font-bold uppercase tracking-wider text-slate-500">{t('glossary.terms')}</h3>
+              {selected.entries.map(entry => (
+                <div key={entry.id} className="grid grid-cols-[1fr_1.5fr_1fr_auto] gap-2 items-center">
+                  <input value={entry.term} onChange={(e) => updateEntry(entry.id, { term: e.target.value })} placeholder={t('glossary.termPlaceholder')} className={inputClassName} />
+                  <input
+                    value={entry.variants.join(', ')}
+                    onChange={(e) => updateEntry(entry.id, { variants: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })}
+                    placeholder={t('glossary.variantsPlaceholder')}
+                    className={inputClassName}
+                  />
+                  <input value={entry.note ?? ''} onChange={(e) => updateEntry(entry.id, { note: e.target.value || undefined })} placeholder={t('glossary.notePlaceholder')} className={inputClassName} />
+                  <button onClick={() => updateSelected({ entries: selected.entries.filter(e => e.id !== entry.id) })} className={iconButtonClassName} title={t('glossary.deleteTerm')}>
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => updateSelected({ entries: [...selected.entries, createEntry()] })}
+                className="self-start flex items-center gap-1 text-sm text-slate-500 hover:text-indigo-400 transition-colors"
+              >
+                <Plus size={14} /> {t('glossary.addTerm')}
+              </button>
+            </div>
+
+            {/* Replacement rules */}
+            <div className="flex flex-col gap-2">
+              <h3 className="text-xs font-bold uppercase tracking-wider text-slate-500">{t('glossary.rules')}</h3>
+              {selected.rules.map(rule => {
+                const isInvalid = rule.pattern.trim() !== '' && compileRule(rule) === null;
+                return (
+                  <div key={rule.id} className="grid grid-cols-[1.5fr_1fr_auto_auto] gap-2 items-center">
+                    <input
+                      value={rule.pattern}
+                      onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                      placeholder={t('glossary.patternPlaceholder')}
+                      className={`${inputClassName} ${isInvalid ? 'border-red-500/60' : ''}`}
+                      title={isInvalid ? t('glossary.invalidRegex') : undefined}
+                    />
+                    <input value={rule.replacement} onChange={(e) => updateRule(rule.id, { replacement: e.target.value })} placeholder={t('glossary.replacementPlaceholder')} className={inputClassName} />
+                    <label className="flex items-center gap-1 text-xs text-slate-400 cursor-pointer" title={t('glossary.regexHint')}>
+                      <input type="checkbox" checked={rule.isRegex} onChange={(e) => updateRule(rule.id, { isRegex: e.target.checked })} className="accent-indigo-500" />
+                      RegExp
+                    </label>
+                    <button onClick={() => updateSelected({ rules: selected.rules.filter(r => r.id !== rule.id) })} className={iconButtonClassName} title={t('glossary.deleteRule')}>
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                );
+              })}
+              <button
+                onClick={() => updateSelected({ rules: [...selected.rules, createRule()] })}
+                className="self-start flex items-center gap-1 text-sm text-slate-500 hover:text-indigo-400 transition-colors"
+              >
+                <Plus size={14} /> {t('glossary.addRule')}
+              </button>
+            </div>
+
+            <button
+              onClick={handleDeleteGlossary}
+              className="self-end flex items-center gap-1 text-sm text-slate-500 hover:text-red-400 transition-colors"
+            >
+              <Trash2 size={14} /> {t('glossary.delete')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryManager;
@@ -0,0 +1,37 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { getLocale, Locale, MessageKey, MessageParams, setLocale, translate } from '../services/i18nService';
+
+interface I18nContextValue {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  locale: getLocale(),
+  t: translate,
+  setLocale,
+});
+
+// Switching the language re-renders every consumer; a new `t` per locale
+// also invalidates memoized values that depend on it
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    t: (key, params) => translate(key, params),
+    setLocale: (next) => {
+      setLocale(next);
+      setLocaleState(next);
+    },
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => useContext(I18nContext);
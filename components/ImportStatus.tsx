@@ -0,0 +1,57 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { ImportProgress, ImportRejection } from '../services/importService';
+import { useI18n } from './I18nProvider';
+
+interface ImportStatusProps {
+  progress: ImportProgress | null; // null once the import has finished
+  importedCount: number;
+  rejected: ImportRejection[];
+  onDismiss: () => void;
+}
+
+const ImportStatus: React.FC<ImportStatusProps> = ({ progress, importedCount, rejected, onDismiss }) => {
+  const { t } = useI18n();
+
+  if (progress) {
+    return (
+      <div className="text-sm text-slate-300 bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2">
+        <div className="flex justify-between gap-4 mb-1.5">
+          <span className="truncate">{t('import.progress', { name: progress.current ?? t('import.finishing') })}</span>
+          <span className="text-slate-500 shrink-0">{progress.done} / {progress.total}</span>
+        </div>
+        <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-indigo-500 transition-all"
+            style={{ width: `${(progress.done / Math.max(1, progress.total)) * 100}%` }}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`text-sm rounded-lg px-3 py-2 border ${rejected.length > 0 ? 'text-amber-400 bg-amber-400/10 border-amber-400/20' : 'text-slate-300 bg-slate-800/50 border-slate-700'}`}>
+      <div className="flex justify-between gap-4">
+        <span>
+          {t('import.imported', { count: importedCount })}
+          {rejected.length > 0 && t('import.rejected', { count: rejected.length })}
+        </span>
+        <button onClick={onDismiss} className="text-slate-500 hover:text-slate-300" title={t('import.dismiss')}>
+          <X size={16} />
+        </button>
+      </div>
+      {rejected.length > 0 && (
+        <ul className="mt-2 max-h-32 overflow-y-auto custom-scrollbar text-xs space-y-1">
+          {rejected.map((item, index) => (
+            <li key={index}>
+              <span className="text-slate-300">{item.name}</span> — {t(item.reason, item.params)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ImportStatus;
@@ -0,0 +1,45 @@
+import React, { useEffect, useRef } from 'react';
+import { TranscriptionStatus } from '../types';
+import { segmentsToText } from '../utils/transcriptUtils';
+import { LiveTranscriptState } from '../services/liveTranscriptionService';
+import { useI18n } from './I18nProvider';
+
+interface LiveTranscriptProps {
+  state: LiveTranscriptState;
+}
+
+const LiveTranscript: React.FC<LiveTranscriptProps> = ({ state }) => {
+  const { t } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest text in view, as in a chat
+  useEffect(() => {
+    const container = containerRef.current;
+    if (container) container.scrollTop = container.scrollHeight;
+  }, [state]);
+
+  const isEmpty = state.windows.length === 0 && !state.provisional;
+
+  return (
+    <div
+      ref={containerRef}
+      className="w-full max-h-40 overflow-y-auto custom-scrollbar bg-slate-900/50 border border-slate-700/50 rounded-lg px-4 py-3 text-sm leading-relaxed font-light"
+    >
+      {isEmpty && <span className="text-slate-500">{t('live.waiting')}</span>}
+      {state.windows.map(window => (
+        <React.Fragment key={window.index}>
+          {window.status === TranscriptionStatus.SUCCESS ? (
+            <span className="text-slate-200">{segmentsToText(window.segments ?? []).replace(/\n+/g, ' ')} </span>
+          ) : window.status === TranscriptionStatus.ERROR ? (
+            <span className="text-red-400" title={window.error}>{t('live.failedWindow')}</span>
+          ) : (
+            <span className="text-slate-500 italic">{window.provisional} </span>
+          )}
+        </React.Fragment>
+      ))}
+      {state.provisional && <span className="text-slate-500 italic">{state.provisional}</span>}
+    </div>
+  );
+};
+
+export default LiveTranscript;
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Archive, ArchiveRestore, Briefcase, Plus, X } from 'lucide-react';
+import { Client, Matter } from '../types';
+import { createClient, createMatter, MatterLibrary, sortMatters } from '../services/matterService';
+import { useI18n } from './I18nProvider';
+
+interface MatterManagerProps {
+  library: MatterLibrary;
+  recordingCounts: Record<string, number>; // by matter id
+  onChange: (library: MatterLibrary) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 outline-none focus:border-indigo-500/60";
+
+const NEW_CLIENT = '__new__';
+
+const MatterManager: React.FC<MatterManagerProps> = ({ library, recordingCounts, onChange, onClose }) => {
+  const { t } = useI18n();
+  const { matters, clients } = library;
+  const [name, setName] = useState('');
+  const [clientChoice, setClientChoice] = useState('');
+  const [newClientName, setNewClientName] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+
+  const updateMatter = (id: string, patch: Partial<Matter>) => {
+    onChange({ ...library, matters: matters.map(m => m.id === id ? { ...m, ...patch } : m) });
+  };
+
+  const updateClient = (id: string, patch: Partial<Client>) => {
+    onChange({ ...library, clients: clients.map(c => c.id === id ? { ...c, ...patch } : c) });
+  };
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    let nextClients = clients;
+    let clientId = clientChoice || undefined;
+    if (clientChoice === NEW_CLIENT) {
+      if (!newClientName.trim()) return;
+      const client = createClient(newClientName.trim());
+      nextClients = [...clients, client];
+      clientId = client.id;
+    }
+    onChange({ matters: [...matters, createMatter(name.trim(), clientId)], clients: nextClients });
+    setName('');
+    setClientChoice('');
+    setNewClientName('');
+  };
+
+  const handleAddClient = () => {
+    onChange({ ...library, clients: [...clients, createClient(t('matter.newClientName'))] });
+  };
+
+  const archivedCount = matters.filter(m => m.archived).length;
+  const visible = sortMatters(matters).filter(m => showArchived || !m.archived);
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/80 backdrop-blur-sm flex items-start justify-center p-4 overflow-y-auto">
+      <div className="w-full max-w-3xl bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl p-6 flex flex-col gap-5 my-8">
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-slate-200">
+            <Briefcase size={20} className="text-indigo-400" />
+            {t('matter.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-200 rounded-full transition-colors" title={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-2 text-xs text-slate-400">
+          <label className="flex flex-col gap-1 flex-grow min-w-[200px]">
+            {t('matter.newMatter')}
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder={t('matter.namePlaceholder')}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            {t('matter.client')}
+            <select value={clientChoice} onChange={(e) => setClientChoice(e.target.value)} className={inputClassName}>
+              <option value="">{t('matter.clientUnset')}</option>
+              {clients.map(client => <option key={client.id} value={client.id}>{client.name}</option>)}
+              <option value={NEW_CLIENT}>{t('matter.newClientOption')}</option>
+            </select>
+          </label>
+          {clientChoice === NEW_CLIENT && (
+            <label className="flex flex-col gap-1">
+              {t('matter.clientName')}
+              <input value={newClientName} onChange={(e) => setNewClientName(e.target.value)} className={inputClassName} />
+            </label>
+          )}
+          <button
+            onClick={handleCreate}
+            disabled={!name.trim() || (clientChoice === NEW_CLIENT && !newClientName.trim())}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:hover:bg-indigo-600 text-white rounded-lg transition-colors"
+          >
+            <Plus size={14} /> {t('matter.create')}
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center justify-between text-xs font-bold uppercase tracking-wider text-slate-500">
+            {t('matter.matters')}
+            {archivedCount > 0 && (
+              <label className="flex items-center gap-2 normal-case font-normal tracking-normal cursor-pointer select-none">
+                <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} className="accent-indigo-500" />
+                {t('matter.showArchived', { count: archivedCount })}
+              </label>
+            )}
+          </div>
+          {visible.length === 0 && <p className="text-sm text-slate-500">{t('matter.noMatters')}</p>}
+          {visible.map(matter => (
+            <div key={matter.id} className={`flex flex-wrap items-center gap-2 ${matter.archived ? 'opacity-60' : ''}`}>
+              <input
+                value={matter.name}
+                onChange={(e) => updateMatter(matter.id, { name: e.target.value })}
+                className={`${inputClassName} flex-grow min-w-[200px]`}
+              />
+              <select
+                value={matter.clientId ?? ''}
+                onChange={(e) => updateMatter(matter.id, { clientId: e.target.value || undefined })}
+                className={inputClassName}
+              >
+                <option value="">{t('matter.noClient')}</option>
+                {clients.map(client => <option key={client.id} value={client.id}>{client.name}</option>)}
+              </select>
+              <span className="text-xs text-slate-500 w-20 text-right">{t('matter.recordingCount', { count: recordingCounts[matter.id] ?? 0 })}</span>
+              <button
+                onClick={() => updateMatter(matter.id, { archived: !matter.archived })}
+                className="p-1.5 text-slate-500 hover:text-indigo-400 hover:bg-slate-800 rounded transition-colors"
+                title={matter.archived ? t('matter.unarchive') : t('matter.archive')}
+              >
+                {matter.archived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center justify-between text-xs font-bold uppercase tracking-wider text-slate-500">
+            {t('matter.clients')}
+            <button onClick={handleAddClient} className="flex items-center gap-1 normal-case font-normal tracking-normal hover:text-indigo-400 transition-colors">
+              <Plus size={14} /> {t('matter.addClient')}
+            </button>
+          </div>
+          {clients.length === 0 && <p className="text-sm text-slate-500">{t('matter.noClients')}</p>}
+          {clients.map(client => (
+            <div key={client.id} className="flex items-center gap-2">
+              <input
+                value={client.name}
+                onChange={(e) => updateClient(client.id, { name: e.target.value })}
+                className={`${inputClassName} flex-grow`}
+              />
+              <span className="text-xs text-slate-500 w-20 text-right">
+                {t('matter.matterCount', { count: matters.filter(m => m.clientId === client.id).length })}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MatterManager;
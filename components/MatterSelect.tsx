@@ -0,0 +1,40 @@
+import React from 'react';
+import { Client, Matter } from '../types';
+import { sortMatters } from '../services/matterService';
+import { useI18n } from './I18nProvider';
+
+interface MatterSelectProps {
+  matters: Matter[];
+  clients: Client[];
+  value?: string;
+  onChange: (matterId: string | undefined) => void;
+  className?: string;
+}
+
+// Active matters grouped by client. An archived matter is only listed when
+// it is the current value, so the select never shows an unknown id.
+const MatterSelect: React.FC<MatterSelectProps> = ({ matters, clients, value, onChange, className }) => {
+  const { t } = useI18n();
+  const available = sortMatters(matters.filter(m => !m.archived || m.id === value));
+  const groups = [
+    ...clients.map(client => ({ key: client.id, label: client.name, matters: available.filter(m => m.clientId === client.id) })),
+    { key: '', label: t('matter.noClient'), matters: available.filter(m => !m.clientId || !clients.some(c => c.id === m.clientId)) },
+  ].filter(group => group.matters.length > 0);
+
+  return (
+    <select value={value ?? ''} onChange={(e) => onChange(e.target.value || undefined)} className={className}>
+      <option value="">{t('library.noMatter')}</option>
+      {groups.map(group => (
+        <optgroup key={group.key} label={group.label}>
+          {group.matters.map(matter => (
+            <option key={matter.id} value={matter.id}>
+              {matter.archived ? t('library.archivedMatter', { name: matter.name }) : matter.name}
+            </option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+};
+
+export default MatterSelect;
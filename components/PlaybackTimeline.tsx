@@ -0,0 +1,110 @@
+import React, { useRef, useState } from 'react';
+import { formatDuration } from '../utils/audioUtils';
+import { SHORT_SKIP_SECONDS } from '../utils/playerUtils';
+
+interface PlaybackTimelineProps {
+  currentTime: number;
+  duration: number;
+  label: string;
+  markers?: { time: number; label: string }[];
+  onSeek: (time: number) => void;
+}
+
+// Click to jump, drag to scrub; the audio follows the pointer while dragging
+const PlaybackTimeline: React.FC<PlaybackTimelineProps> = ({ currentTime, duration, label, markers = [], onSeek }) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+
+  const timeAt = (clientX: number): number => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return fraction * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0 || duration <= 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsScrubbing(true);
+    // A marker is a small target, so a press on it lands exactly on its time
+    const markerTime = (e.target as HTMLElement).dataset.time;
+    onSeek(markerTime !== undefined ? Number(markerTime) : timeAt(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (duration <= 0) return;
+    const time = timeAt(e.clientX);
+    setHoverTime(time);
+    if (isScrubbing) onSeek(time);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    setIsScrubbing(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = e.key === 'ArrowLeft' ? currentTime - SHORT_SKIP_SECONDS
+      : e.key === 'ArrowRight' ? currentTime + SHORT_SKIP_SECONDS
+      : e.key === 'Home' ? 0
+      : e.key === 'End' ? duration
+      : null;
+    if (target === null) return;
+    e.preventDefault();
+    onSeek(Math.min(duration, Math.max(0, target)));
+  };
+
+  const percent = duration > 0 ? Math.min(100, (currentTime / duration) * 100) : 0;
+
+  return (
+    <div
+      ref={trackRef}
+      role="slider"
+      tabIndex={0}
+      aria-label={label}
+      aria-valuemin={0}
+      aria-valuemax={Math.round(duration)}
+      aria-valuenow={Math.round(currentTime)}
+      aria-valuetext={formatDuration(currentTime)}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => setHoverTime(null)}
+      onKeyDown={handleKeyDown}
+      className="group relative flex-grow h-5 flex items-center cursor-pointer touch-none outline-none"
+    >
+      <div className="relative w-full h-2 bg-slate-700 rounded-full overflow-hidden group-focus-visible:ring-2 group-focus-visible:ring-indigo-500/60">
+        <div
+          className={`absolute top-0 left-0 h-full bg-indigo-500 ${isScrubbing ? '' : 'transition-all duration-100'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <div
+        className={`absolute w-3 h-3 -ml-1.5 rounded-full bg-indigo-300 shadow transition-opacity ${isScrubbing ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+        style={{ left: `${percent}%` }}
+      />
+      {duration > 0 && markers.map((marker, index) => (
+        <span
+          key={index}
+          data-time={marker.time}
+          title={`${formatDuration(marker.time)} ${marker.label}`.trim()}
+          className="absolute top-0 bottom-0 w-2 -ml-1 flex justify-center"
+          style={{ left: `${Math.min(100, (marker.time / duration) * 100)}%` }}
+        >
+          <span className="w-0.5 h-full bg-amber-400 rounded-full pointer-events-none" />
+        </span>
+      ))}
+      {hoverTime !== null && (
+        <span
+          className="absolute bottom-full mb-1 -translate-x-1/2 px-1.5 py-0.5 rounded bg-slate-900 border border-slate-700 text-[10px] font-mono text-slate-300 pointer-events-none"
+          style={{ left: `${(hoverTime / duration) * 100}%` }}
+        >
+          {formatDuration(hoverTime)}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default PlaybackTimeline;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { PreprocessingConfig } from '../services/preprocessingService';
+import { MessageKey } from '../services/i18nService';
+import { useI18n } from './I18nProvider';
+
+interface PreprocessingSettingsProps {
+  config: PreprocessingConfig;
+  onChange: (config: PreprocessingConfig) => void;
+}
+
+const OPTIONS: { key: 'normalize' | 'highPass' | 'noiseGate'; label: MessageKey; title: MessageKey }[] = [
+  { key: 'normalize', label: 'preprocessing.normalize', title: 'preprocessing.normalizeHint' },
+  { key: 'highPass', label: 'preprocessing.highPass', title: 'preprocessing.highPassHint' },
+  { key: 'noiseGate', label: 'preprocessing.noiseGate', title: 'preprocessing.noiseGateHint' },
+];
+
+const PreprocessingSettings: React.FC<PreprocessingSettingsProps> = ({ config, onChange }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-x-5 gap-y-2 text-xs text-slate-400">
+      <label
+        className="flex items-center gap-2 cursor-pointer select-none"
+        title={t('preprocessing.hint')}
+      >
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={(e) => onChange({ ...config, enabled: e.target.checked })}
+          className="accent-indigo-500"
+        />
+        <SlidersHorizontal size={14} />
+        {t('preprocessing.enabled')}
+      </label>
+      {OPTIONS.map(option => (
+        <label
+          key={option.key}
+          className={`flex items-center gap-2 select-none ${config.enabled ? 'cursor-pointer' : 'opacity-50'}`}
+          title={t(option.title)}
+        >
+          <input
+            type="checkbox"
+            checked={config[option.key]}
+            disabled={!config.enabled}
+            onChange={(e) => onChange({ ...config, [option.key]: e.target.checked })}
+            className="accent-indigo-500"
+          />
+          {t(option.label)}
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default PreprocessingSettings;
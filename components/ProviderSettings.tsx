@@ -0,0 +1,84 @@
+import React from 'react';
+import { Server, ShieldCheck } from 'lucide-react';
+import { PROVIDER_OPTIONS } from '../services/providerRegistry';
+import { MAX_CONCURRENCY, ProviderConfig, ProviderId, WhisperConfig } from '../services/transcriptionProvider';
+import { useI18n } from './I18nProvider';
+
+interface ProviderSettingsProps {
+  config: ProviderConfig;
+  isLocal: boolean;
+  onChange: (config: ProviderConfig) => void;
+}
+
+const inputClassName = "bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 outline-none focus:border-indigo-500/60";
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ config, isLocal, onChange }) => {
+  const { t } = useI18n();
+  const updateWhisper = (patch: Partial<WhisperConfig>) => {
+    onChange({ ...config, whisper: { ...config.whisper, ...patch } });
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <label className="flex items-center gap-2 text-slate-400">
+          <Server size={14} />
+          {t('provider.label')}
+          <select
+            value={config.active}
+            onChange={(e) => onChange({ ...config, active: e.target.value as ProviderId })}
+            className={inputClassName}
+          >
+            {PROVIDER_OPTIONS.map(option => (
+              <option key={option.id} value={option.id}>{t(option.label)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-slate-400" title={t('provider.concurrencyHint')}>
+          {t('provider.concurrency')}
+          <select
+            value={config.concurrency}
+            onChange={(e) => onChange({ ...config, concurrency: Number(e.target.value) })}
+            className={inputClassName}
+          >
+            {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+        {isLocal && (
+          <span className="flex items-center gap-1 text-emerald-400 text-xs" title={t('provider.localHint')}>
+            <ShieldCheck size={14} />
+            {t('provider.local')}
+          </span>
+        )}
+      </div>
+
+      {config.active === 'whisper' && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <input
+            value={config.whisper.baseUrl}
+            onChange={(e) => updateWhisper({ baseUrl: e.target.value })}
+            placeholder={t('provider.whisperUrl')}
+            className={inputClassName}
+          />
+          <input
+            value={config.whisper.model}
+            onChange={(e) => updateWhisper({ model: e.target.value })}
+            placeholder={t('provider.whisperModel')}
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={config.whisper.apiKey}
+            onChange={(e) => updateWhisper({ apiKey: e.target.value })}
+            placeholder={t('provider.whisperApiKey')}
+            className={inputClassName}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettings;
@@ -1,115 +1,569 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Recording, TranscriptionStatus } from '../types';
-import { formatDuration, formatTimestamp } from '../utils/audioUtils';
-import { Play, Pause, FileText, Trash2, Loader2, Copy, Check } from 'lucide-react';
+import { Bookmark, Client, DocumentTemplate, Matter, Recording, TranscriptionStatus, TranscriptSegment } from '../types';
+import { formatBytes, formatDuration, formatTimestamp } from '../utils/audioUtils';
+import { findActiveSegment, transcriptToText } from '../utils/transcriptUtils';
+import { canExport, exportRecording } from '../services/exportService';
+import { hasUserEdits } from '../utils/versionUtils';
+import ExportMenu from './ExportMenu';
+import TranscriptEditor from './TranscriptEditor';
+import TranscriptView from './TranscriptView';
+import VersionHistory from './VersionHistory';
+import TagEditor from './TagEditor';
+import DocumentPanel from './DocumentPanel';
+import RedactionPanel from './RedactionPanel';
+import WaveformEditor from './WaveformEditor';
+import SpeechMap from './SpeechMap';
+import MatterSelect from './MatterSelect';
+import PlaybackTimeline from './PlaybackTimeline';
+import BookmarkList from './BookmarkList';
+import { useI18n } from './I18nProvider';
+import { EditableAudio } from '../utils/audioEditUtils';
+import { JobInfo } from '../services/transcriptionQueue';
+import { ProcessedAudio } from '../services/preprocessingService';
+import { PlaybackSettings } from '../services/settingsService';
+import { LONG_SKIP_SECONDS, matchPlayerShortcut, PLAYBACK_RATES, PlayerAction, SHORT_SKIP_SECONDS, stepPlaybackRate } from '../utils/playerUtils';
+import { Play, Pause, FileText, Trash2, Loader2, Copy, Check, RotateCcw, Pencil, History, RefreshCw, Scissors, X, AudioLines, SlidersHorizontal, Volume2, VolumeX, Keyboard } from 'lucide-react';
 
 interface RecordingItemProps {
   recording: Recording;
-  onTranscribe: (id: string) => void;
+  isSelected: boolean;
+  onToggleSelect: (id: string) => void;
+  isActive: boolean; // receives the player shortcuts; only the active recording plays
+  onActivate: (id: string) => void;
+  playback: PlaybackSettings;
+  onPlaybackChange: (playback: PlaybackSettings) => void;
+  providerLabel: string;
+  job?: JobInfo;
+  allTags: string[];
+  templates: DocumentTemplate[];
+  matters: Matter[];
+  clients: Client[];
+  searchStems?: Set<string>;
+  matchedSegments?: number[];
+  onTranscribe: (id: string, diarize: boolean) => void;
+  onCancelTranscription: (id: string) => void;
+  onRetryChunk: (id: string, index: number) => void;
+  onRenameSpeaker: (id: string, speaker: string, name: string) => void;
+  onEditTranscript: (id: string, text: string, segments?: TranscriptSegment[]) => void;
+  onRevertVersion: (id: string, versionId: string) => void;
+  onUpdateTags: (id: string, tags: string[]) => void;
+  onUpdateBookmarks: (id: string, bookmarks: Bookmark[]) => void;
+  onAssignMatter: (id: string, matterId: string | undefined) => void;
+  onAssignClient: (id: string, clientId: string | undefined) => void;
+  onGenerateDocument?: (id: string, templateId: string) => Promise<void>; // absent for the local provider
+  onDeleteDocument: (id: string, documentId: string) => void;
+  onDetectNames?: (id: string) => Promise<string[]>; // absent for the local provider
+  onApplyAudioEdit: (id: string, parts: EditableAudio[]) => Promise<void>;
+  onAnalyzeSpeech: (id: string) => Promise<void>;
+  processed?: ProcessedAudio; // copy prepared for upload, made from the current audio
+  onPreprocess: (id: string) => Promise<void>;
   onDelete: (id: string) => void;
 }
 
-const RecordingItem: React.FC<RecordingItemProps> = ({ recording, onTranscribe, onDelete }) => {
+const chunkColor: Record<TranscriptionStatus, string> = {
+  [TranscriptionStatus.IDLE]: 'bg-slate-700',
+  [TranscriptionStatus.LOADING]: 'bg-indigo-400 animate-pulse',
+  [TranscriptionStatus.SUCCESS]: 'bg-indigo-600',
+  [TranscriptionStatus.ERROR]: 'bg-red-500',
+};
+
+const MAX_MATCH_LINKS = 8;
+
+const selectClassName = "bg-slate-800/60 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-300 outline-none focus:border-indigo-500/60 max-w-[14rem]";
+
+const RecordingItem: React.FC<RecordingItemProps> = ({
+  recording,
+  isSelected,
+  onToggleSelect,
+  isActive,
+  onActivate,
+  playback,
+  onPlaybackChange,
+  providerLabel,
+  job,
+  allTags,
+  templates,
+  matters,
+  clients,
+  searchStems,
+  matchedSegments = [],
+  onTranscribe,
+  onCancelTranscription,
+  onRetryChunk,
+  onRenameSpeaker,
+  onEditTranscript,
+  onRevertVersion,
+  onUpdateTags,
+  onUpdateBookmarks,
+  onAssignMatter,
+  onAssignClient,
+  onGenerateDocument,
+  onDeleteDocument,
+  onDetectNames,
+  onApplyAudioEdit,
+  onAnalyzeSpeech,
+  processed,
+  onPreprocess,
+  onDelete,
+}) => {
+  const { t } = useI18n();
   const [isPlaying, setIsPlaying] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [mediaDuration, setMediaDuration] = useState<number | null>(null);
   const [copied, setCopied] = useState(false);
+  const [diarize, setDiarize] = useState(recording.diarize ?? false);
+  const [panel, setPanel] = useState<'view' | 'edit' | 'history'>('view');
+  const [tab, setTab] = useState<'transcript' | 'documents' | 'redaction'>('transcript');
+  const [isEditingAudio, setIsEditingAudio] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isPreprocessing, setIsPreprocessing] = useState(false);
+  const [listenProcessed, setListenProcessed] = useState(false);
+  const [focusSegment, setFocusSegment] = useState<number | undefined>(undefined);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const lastVolumeRef = useRef(playback.volume || 1);
+  // Where to continue when playback switches between original and processed audio
+  const resumeRef = useRef<{ time: number; play: boolean } | null>(null);
+
+  const playbackUrl = listenProcessed && processed ? processed.url : recording.url;
 
   useEffect(() => {
-    const audio = new Audio(recording.url);
+    const audio = new Audio(playbackUrl);
+    audio.preservesPitch = true;
     audioRef.current = audio;
+    setMediaDuration(null);
 
-    audio.addEventListener('ended', () => {
-      setIsPlaying(false);
-      setProgress(0);
-    });
+    const resume = resumeRef.current;
+    resumeRef.current = null;
+    if (resume) {
+      audio.currentTime = resume.time;
+      if (resume.play) audio.play();
+    }
 
-    audio.addEventListener('timeupdate', () => {
-        if (audio.duration) {
-            setProgress((audio.currentTime / audio.duration) * 100);
-        }
-    });
+    const handlePlay = () => setIsPlaying(true);
+    const handlePause = () => setIsPlaying(false);
+    const handleEnded = () => setCurrentTime(0);
+    const handleTimeUpdate = () => setCurrentTime(audio.currentTime);
+    // Recorder output often reports an infinite duration; the stored one is used then
+    const handleDurationChange = () => setMediaDuration(Number.isFinite(audio.duration) ? audio.duration : null);
+
+    audio.addEventListener('play', handlePlay);
+    audio.addEventListener('pause', handlePause);
+    audio.addEventListener('ended', handleEnded);
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    audio.addEventListener('durationchange', handleDurationChange);
 
     return () => {
+      audio.removeEventListener('play', handlePlay);
+      audio.removeEventListener('pause', handlePause);
+      audio.removeEventListener('ended', handleEnded);
+      audio.removeEventListener('timeupdate', handleTimeUpdate);
+      audio.removeEventListener('durationchange', handleDurationChange);
       audio.pause();
       audio.src = '';
+      setIsPlaying(false);
     };
-  }, [recording.url]);
+  }, [playbackUrl]);
 
-  const togglePlay = () => {
+  useEffect(() => {
     if (!audioRef.current) return;
+    audioRef.current.playbackRate = playback.rate;
+    audioRef.current.volume = playback.volume;
+  }, [playbackUrl, playback.rate, playback.volume]);
 
-    if (isPlaying) {
-      audioRef.current.pause();
-    } else {
+  // Starting playback takes over from whichever recording was playing
+  useEffect(() => {
+    if (isPlaying) onActivate(recording.id);
+  }, [isPlaying]);
+
+  useEffect(() => {
+    if (!isActive) audioRef.current?.pause();
+  }, [isActive]);
+
+  const duration = mediaDuration ?? recording.duration;
+
+  // While typing the transcript, step back a little on pause so the last words can be heard again
+  const pausePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio || audio.paused) return;
+    audio.pause();
+    if (panel === 'edit' && playback.autoRewindSeconds > 0) {
+      audio.currentTime = Math.max(0, audio.currentTime - playback.autoRewindSeconds);
+      setCurrentTime(audio.currentTime);
+    }
+  };
+
+  const togglePlay = () => {
+    if (!audioRef.current) return;
+    if (audioRef.current.paused) {
       audioRef.current.play();
+    } else {
+      pausePlayback();
     }
-    setIsPlaying(!isPlaying);
+  };
+
+  // Move the playhead without starting playback
+  const setPosition = (time: number) => {
+    if (!audioRef.current) return;
+    const clamped = Math.min(duration, Math.max(0, time));
+    audioRef.current.currentTime = clamped;
+    setCurrentTime(clamped);
+    onActivate(recording.id);
+  };
+
+  const skip = (seconds: number) => setPosition((audioRef.current?.currentTime ?? currentTime) + seconds);
+
+  const setRate = (rate: number) => onPlaybackChange({ ...playback, rate });
+
+  const setVolume = (volume: number) => {
+    if (volume > 0) lastVolumeRef.current = volume;
+    onPlaybackChange({ ...playback, volume });
+  };
+
+  const handleShortcut = (action: PlayerAction) => {
+    switch (action.type) {
+      case 'toggle': return togglePlay();
+      case 'skip': return skip(action.seconds);
+      case 'rate': return setRate(stepPlaybackRate(playback.rate, action.step));
+      case 'rate-reset': return setRate(1);
+    }
+  };
+
+  // Subscribed anew on each render so the handler sees the current state
+  useEffect(() => {
+    if (!isActive || isEditingAudio) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const action = matchPlayerShortcut(e);
+      if (!action) return;
+      e.preventDefault();
+      handleShortcut(action);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Bring the first search hit into view whenever the results change
+  const firstMatch = matchedSegments[0];
+  useEffect(() => {
+    setFocusSegment(firstMatch);
+  }, [firstMatch]);
+
+  // Jump playback to the start of a transcript segment
+  const seekTo = (time: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = time;
+    setCurrentTime(time);
+    if (audioRef.current.paused) audioRef.current.play();
   };
 
   const handleTranscribe = () => {
     if (recording.status === TranscriptionStatus.IDLE || recording.status === TranscriptionStatus.ERROR) {
-      onTranscribe(recording.id);
+      onTranscribe(recording.id, diarize);
+    }
+  };
+
+  const handleRetranscribe = () => {
+    if (hasUserEdits(recording) && !window.confirm(t('recording.retranscribeConfirm'))) {
+      return;
     }
+    setPanel('view');
+    setTab('transcript');
+    onTranscribe(recording.id, diarize);
+  };
+
+  const handleAnalyzeSpeech = async () => {
+    setIsAnalyzing(true);
+    await onAnalyzeSpeech(recording.id);
+    setIsAnalyzing(false);
+  };
+
+  const handlePreprocess = async () => {
+    setIsPreprocessing(true);
+    await onPreprocess(recording.id);
+    setIsPreprocessing(false);
+  };
+
+  // A/B comparison: keep the position and play state across the switch
+  const switchSource = (toProcessed: boolean) => {
+    if (toProcessed === listenProcessed) return;
+    resumeRef.current = { time: audioRef.current?.currentTime ?? 0, play: isPlaying };
+    setListenProcessed(toProcessed);
   };
 
   const handleCopy = async () => {
     if (recording.transcript) {
-      await navigator.clipboard.writeText(recording.transcript);
+      await navigator.clipboard.writeText(transcriptToText(recording));
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     }
   };
 
+  const matter = matters.find(m => m.id === recording.matterId);
+  const chunks = recording.chunks ?? [];
+  const doneChunks = chunks.filter(c => c.status === TranscriptionStatus.SUCCESS).length;
+  const failedChunks = chunks.filter(c => c.status === TranscriptionStatus.ERROR);
+  const segments = recording.segments ?? [];
+  const bookmarks = recording.bookmarks ?? [];
+  const activeSegment = isPlaying || currentTime > 0 ? findActiveSegment(segments, currentTime) : -1;
+
   return (
     <div className="bg-slate-800/80 border border-slate-700 rounded-xl p-5 shadow-lg transition-all hover:border-slate-600 hover:shadow-xl">
       
       {/* Header: Name/Timestamp & Duration */}
       <div className="flex justify-between items-center mb-4">
-        <div className="flex flex-col">
-          <span className="text-slate-200 font-medium text-lg truncate max-w-[250px] sm:max-w-md">
-             {recording.name || formatTimestamp(recording.timestamp)}
-          </span>
-          <div className="flex items-center gap-2">
-            {recording.name && (
-                <span className="text-slate-500 text-xs">
-                    {formatTimestamp(recording.timestamp)}
-                </span>
-            )}
-            <span className={`text-slate-400 text-sm font-mono ${recording.name ? 'pl-2 border-l border-slate-700' : ''}`}>
-                {formatDuration(recording.duration)}
+        <div className="flex items-center gap-3 min-w-0">
+          <input
+              type="checkbox"
+              checked={isSelected}
+              onChange={() => onToggleSelect(recording.id)}
+              className="accent-indigo-500 w-4 h-4 flex-shrink-0 cursor-pointer"
+              title={t('recording.select')}
+          />
+          <div className="flex flex-col">
+            <span className="text-slate-200 font-medium text-lg truncate max-w-[250px] sm:max-w-md">
+               {recording.name || formatTimestamp(recording.timestamp)}
             </span>
+            <div className="flex items-center gap-2">
+              {recording.name && (
+                  <span className="text-slate-500 text-xs">
+                      {formatTimestamp(recording.timestamp)}
+                  </span>
+              )}
+              <span className={`text-slate-400 text-sm font-mono ${recording.name ? 'pl-2 border-l border-slate-700' : ''}`}>
+                  {formatDuration(recording.duration)}
+              </span>
+            </div>
           </div>
         </div>
         
         <div className="flex gap-2">
+            {!recording.speech && !isEditingAudio && (
+                <button
+                    onClick={handleAnalyzeSpeech}
+                    disabled={isAnalyzing}
+                    className="p-2 rounded-full text-slate-400 hover:text-emerald-400 hover:bg-slate-700 transition-colors disabled:opacity-50"
+                    title={t('recording.analyzeSpeech')}
+                >
+                    {isAnalyzing ? <Loader2 size={18} className="animate-spin" /> : <AudioLines size={18} />}
+                </button>
+            )}
+            {recording.status !== TranscriptionStatus.LOADING && (
+                <button
+                    onClick={() => {
+                        audioRef.current?.pause();
+                        setIsEditingAudio(!isEditingAudio);
+                    }}
+                    className={`p-2 rounded-full transition-colors ${isEditingAudio ? 'text-indigo-400 bg-slate-700' : 'text-slate-400 hover:text-indigo-400 hover:bg-slate-700'}`}
+                    title={t('recording.editAudio')}
+                >
+                    <Scissors size={18} />
+                </button>
+            )}
+            {recording.transcript && (
+                <ExportMenu
+                    isAvailable={(format) => canExport(recording, format)}
+                    onExport={(format) => exportRecording(recording, format)}
+                />
+            )}
             <button 
                 onClick={() => onDelete(recording.id)}
                 className="p-2 text-slate-400 hover:text-red-400 hover:bg-red-400/10 rounded-full transition-colors"
-                title="Удалить"
+                title={t('common.delete')}
             >
                 <Trash2 size={18} />
             </button>
         </div>
       </div>
 
+      <div className="mb-4 -mt-2 flex flex-col gap-2">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+          <MatterSelect
+            matters={matters}
+            clients={clients}
+            value={recording.matterId}
+            onChange={(matterId) => onAssignMatter(recording.id, matterId)}
+            className={selectClassName}
+          />
+          {/* A matter's client applies to all its recordings */}
+          {matter?.clientId ? (
+            <span>{clients.find(c => c.id === matter.clientId)?.name}</span>
+          ) : clients.length > 0 && (
+            <select
+              value={recording.clientId ?? ''}
+              onChange={(e) => onAssignClient(recording.id, e.target.value || undefined)}
+              className={selectClassName}
+            >
+              <option value="">{t('recording.noClient')}</option>
+              {clients.map(client => <option key={client.id} value={client.id}>{client.name}</option>)}
+            </select>
+          )}
+        </div>
+        <TagEditor
+          tags={recording.tags ?? []}
+          suggestions={allTags}
+          onChange={(tags) => onUpdateTags(recording.id, tags)}
+        />
+      </div>
+
+      {/* Search hits: jump to the matching place */}
+      {matchedSegments.length > 0 && recording.segments && (
+        <div className="flex flex-wrap items-center gap-1.5 mb-4 text-xs">
+          <span className="text-slate-500">{t('recording.matches')}</span>
+          {matchedSegments.slice(0, MAX_MATCH_LINKS).map(index => (
+            <button
+              key={index}
+              onClick={() => {
+                setTab('transcript');
+                setPanel('view');
+                setFocusSegment(index);
+                seekTo(recording.segments![index].start);
+              }}
+              className={`font-mono px-2 py-0.5 rounded-full transition-colors ${index === focusSegment ? 'bg-amber-400/20 text-amber-200' : 'bg-slate-700/60 text-slate-300 hover:bg-slate-700'}`}
+            >
+              {formatDuration(recording.segments![index].start)}
+            </button>
+          ))}
+          {matchedSegments.length > MAX_MATCH_LINKS && (
+            <span className="text-slate-500">{t('recording.moreMatches', { count: matchedSegments.length - MAX_MATCH_LINKS })}</span>
+          )}
+        </div>
+      )}
+
       {/* Audio Player Control */}
-      <div className="flex items-center gap-4 mb-5">
-        <button
-          onClick={togglePlay}
-          className="flex-shrink-0 w-12 h-12 bg-indigo-600 hover:bg-indigo-500 text-white rounded-full flex items-center justify-center transition-all shadow-lg shadow-indigo-500/20"
-        >
-          {isPlaying ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" className="ml-1" />}
-        </button>
-        
-        <div className="flex-grow h-2 bg-slate-700 rounded-full overflow-hidden relative">
-            {/* Progress Bar */}
-            <div 
-                className="absolute top-0 left-0 h-full bg-indigo-500 transition-all duration-100"
-                style={{ width: `${progress}%` }}
+      {isEditingAudio ? (
+        <div className="mb-5">
+          <WaveformEditor
+            recording={recording}
+            onApply={async (parts) => {
+              await onApplyAudioEdit(recording.id, parts);
+              setIsEditingAudio(false);
+            }}
+            onCancel={() => setIsEditingAudio(false)}
+          />
+        </div>
+      ) : (
+        <div className="mb-5">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={togglePlay}
+              className="flex-shrink-0 w-12 h-12 bg-indigo-600 hover:bg-indigo-500 text-white rounded-full flex items-center justify-center transition-all shadow-lg shadow-indigo-500/20"
+              title={isPlaying ? t('player.pause') : t('player.play')}
+            >
+              {isPlaying ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" className="ml-1" />}
+            </button>
+
+            <PlaybackTimeline
+              currentTime={currentTime}
+              duration={duration}
+              label={t('player.position')}
+              markers={bookmarks.map(b => ({ time: b.time, label: b.note }))}
+              onSeek={setPosition}
+            />
+          </div>
+          <div className="mt-1 pl-16 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-400">
+            <div className="flex items-center gap-0.5 font-mono">
+              {[-LONG_SKIP_SECONDS, -SHORT_SKIP_SECONDS].map(seconds => (
+                <button
+                  key={seconds}
+                  onClick={() => skip(seconds)}
+                  className="px-1.5 py-0.5 rounded hover:text-indigo-400 hover:bg-slate-700 transition-colors"
+                  title={t('player.back', { seconds: -seconds })}
+                >
+                  −{-seconds}
+                </button>
+              ))}
+              <span className="px-1.5 text-slate-300">
+                {formatDuration(currentTime)} / {formatDuration(duration)}
+              </span>
+              {[SHORT_SKIP_SECONDS, LONG_SKIP_SECONDS].map(seconds => (
+                <button
+                  key={seconds}
+                  onClick={() => skip(seconds)}
+                  className="px-1.5 py-0.5 rounded hover:text-indigo-400 hover:bg-slate-700 transition-colors"
+                  title={t('player.forward', { seconds })}
+                >
+                  +{seconds}
+                </button>
+              ))}
+            </div>
+            <select
+              value={playback.rate}
+              onChange={(e) => setRate(Number(e.target.value))}
+              className="bg-transparent border border-slate-700 rounded px-1 py-0.5 outline-none focus:border-indigo-500/60"
+              title={t('player.rate')}
+            >
+              {PLAYBACK_RATES.map(rate => <option key={rate} value={rate} className="bg-slate-800">{rate}×</option>)}
+            </select>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setVolume(playback.volume > 0 ? 0 : lastVolumeRef.current)}
+                className="p-1 rounded hover:text-indigo-400 transition-colors"
+                title={playback.volume > 0 ? t('player.mute') : t('player.unmute')}
+              >
+                {playback.volume > 0 ? <Volume2 size={14} /> : <VolumeX size={14} />}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={playback.volume}
+                onChange={(e) => setVolume(Number(e.target.value))}
+                className="w-20 accent-indigo-500"
+                aria-label={t('player.volume')}
+              />
+            </div>
+            {isActive && (
+              <span className="text-indigo-400/80" title={t('player.shortcutsActive')}>
+                <Keyboard size={14} />
+              </span>
+            )}
+          </div>
+          <div className="mt-2 pl-16">
+            <BookmarkList
+              bookmarks={bookmarks}
+              currentTime={currentTime}
+              onSeek={seekTo}
+              onChange={(next) => onUpdateBookmarks(recording.id, next)}
             />
+          </div>
+          {recording.speech && (
+            <div className="mt-2 pl-16">
+              <SpeechMap speech={recording.speech} duration={recording.duration} onSeek={seekTo} />
+            </div>
+          )}
+          <div className="mt-2 pl-16 flex flex-wrap items-center gap-3 text-xs text-slate-500">
+            {processed ? (
+              <>
+                <span title={t('recording.sizeHint')}>
+                  {formatBytes(recording.blob.size)} → {formatBytes(processed.blob.size)}
+                  {processed.blob.size < recording.blob.size && ` (−${Math.round((1 - processed.blob.size / recording.blob.size) * 100)}%)`}
+                </span>
+                <div className="flex rounded-md overflow-hidden border border-slate-700" title={t('recording.compare')}>
+                  {([false, true] as const).map(option => (
+                    <button
+                      key={String(option)}
+                      onClick={() => switchSource(option)}
+                      className={`px-2 py-0.5 transition-colors ${listenProcessed === option ? 'bg-slate-700 text-slate-200' : 'hover:text-slate-300'}`}
+                    >
+                      {option ? t('recording.processed') : t('recording.original')}
+                    </button>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <button
+                onClick={handlePreprocess}
+                disabled={isPreprocessing}
+                className="flex items-center gap-1.5 hover:text-indigo-400 transition-colors disabled:opacity-50"
+                title={t('recording.preprocessHint')}
+              >
+                {isPreprocessing ? <Loader2 size={12} className="animate-spin" /> : <SlidersHorizontal size={12} />}
+                {t('recording.preprocess')}
+              </button>
+            )}
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Transcription Section */}
       <div className="border-t border-slate-700 pt-4">
@@ -118,44 +572,190 @@ const RecordingItem: React.FC<RecordingItemProps> = ({ recording, onTranscribe,
         {(recording.status === TranscriptionStatus.IDLE || recording.status === TranscriptionStatus.ERROR) && (
           <div className="flex items-center justify-between">
              <span className="text-slate-400 text-sm">
-                {recording.status === TranscriptionStatus.ERROR ? "Ошибка транскрипции." : "Транскрипция отсутствует."}
+                {recording.status === TranscriptionStatus.ERROR ? (recording.error || t('recording.transcriptionError')) : t('recording.noTranscript')}
              </span>
-             <button
-                onClick={handleTranscribe}
-                className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm rounded-lg transition-colors font-medium"
-             >
-               <FileText size={16} />
-               {recording.status === TranscriptionStatus.ERROR ? "Повторить" : "Расшифровать"}
-             </button>
+             <div className="flex items-center gap-3">
+               <label className="flex items-center gap-2 text-slate-400 text-xs cursor-pointer select-none" title={t('recording.diarizeHint')}>
+                 <input
+                    type="checkbox"
+                    checked={diarize}
+                    onChange={(e) => setDiarize(e.target.checked)}
+                    className="accent-indigo-500"
+                 />
+                 {t('recording.diarize')}
+               </label>
+               <button
+                  onClick={handleTranscribe}
+                  className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm rounded-lg transition-colors font-medium"
+               >
+                 <FileText size={16} />
+                 {recording.status === TranscriptionStatus.ERROR ? t('common.retry') : t('recording.transcribe')}
+               </button>
+             </div>
           </div>
         )}
 
         {/* Loading State */}
         {recording.status === TranscriptionStatus.LOADING && (
-          <div className="flex items-center gap-3 text-indigo-400 text-sm animate-pulse">
-            <Loader2 size={16} className="animate-spin" />
-            <span>Создание транскрипции с помощью Gemini...</span>
+          <div className="flex items-center justify-between gap-3">
+            <div className={`flex items-center gap-3 text-sm ${job?.state === 'waiting' ? 'text-amber-400' : 'text-indigo-400 animate-pulse'}`}>
+              <Loader2 size={16} className="animate-spin flex-shrink-0" />
+              <span title={job?.lastError}>
+                {job?.state === 'queued' ? t('recording.queued')
+                  : job?.state === 'waiting' ? t('recording.retrying', { attempt: job.retries })
+                  : t('recording.transcribing', { provider: providerLabel })}
+                {job?.state !== 'queued' && chunks.length > 0 && ` ${t('recording.chunkProgress', { current: Math.min(doneChunks + 1, chunks.length), total: chunks.length })}`}
+              </span>
+            </div>
+            {job && (
+              <button
+                onClick={() => onCancelTranscription(recording.id)}
+                className="flex items-center gap-1 px-2 py-1 text-xs text-slate-400 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors flex-shrink-0"
+                title={t('recording.cancelTranscription')}
+              >
+                <X size={12} />
+                {t('common.cancel')}
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Per-segment progress for long recordings */}
+        {chunks.length > 1 && recording.status !== TranscriptionStatus.SUCCESS && (
+          <div className="mt-3 space-y-2">
+            <div className="flex gap-0.5 h-1.5">
+              {chunks.map(chunk => (
+                <div
+                  key={chunk.index}
+                  className={`flex-1 rounded-sm ${chunkColor[chunk.status]}`}
+                  title={`${formatDuration(chunk.start)}–${formatDuration(chunk.end)}`}
+                />
+              ))}
+            </div>
+            {recording.status === TranscriptionStatus.ERROR && failedChunks.map(chunk => (
+              <div key={chunk.index} className="flex items-center justify-between text-xs text-red-400">
+                <span className="truncate">
+                  {t('recording.chunkFailed', { index: chunk.index + 1, start: formatDuration(chunk.start), end: formatDuration(chunk.end) })}{chunk.error && `: ${chunk.error}`}
+                </span>
+                <button
+                  onClick={() => onRetryChunk(recording.id, chunk.index)}
+                  className="flex items-center gap-1 px-2 py-1 text-slate-300 hover:text-white hover:bg-slate-700 rounded transition-colors flex-shrink-0"
+                  title={t('recording.retryChunk')}
+                >
+                  <RotateCcw size={12} />
+                  {t('common.retry')}
+                </button>
+              </div>
+            ))}
           </div>
         )}
 
         {/* Transcript Result */}
-        {recording.status === TranscriptionStatus.SUCCESS && recording.transcript && (
+        {recording.status === TranscriptionStatus.SUCCESS && (
           <div className="space-y-3">
+            {recording.error && (
+              <div className="text-sm text-red-400 bg-red-400/10 border border-red-400/20 rounded px-3 py-2">
+                {t('recording.retranscribeFailed', { message: recording.error })}
+              </div>
+            )}
             <div className="flex justify-between items-center">
-                <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500">Транскрипция</h4>
-                <button 
-                    onClick={handleCopy}
-                    className="p-1.5 text-slate-400 hover:text-indigo-400 hover:bg-slate-700 rounded transition-colors"
-                    title="Копировать в буфер"
-                >
-                   {copied ? <Check size={14} /> : <Copy size={14} />}
-                </button>
-            </div>
-            <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-700/50 max-h-60 overflow-y-auto custom-scrollbar">
-                <p className="text-slate-300 text-sm leading-relaxed whitespace-pre-wrap font-light">
-                    {recording.transcript}
-                </p>
+                <div className="flex gap-3">
+                    <button
+                        onClick={() => setTab('transcript')}
+                        className={`text-xs font-bold uppercase tracking-wider transition-colors ${tab === 'transcript' ? 'text-slate-300' : 'text-slate-500 hover:text-slate-300'}`}
+                    >
+                        {panel === 'history' ? t('recording.history') : t('recording.transcript')}
+                    </button>
+                    <button
+                        onClick={() => setTab('documents')}
+                        className={`text-xs font-bold uppercase tracking-wider transition-colors ${tab === 'documents' ? 'text-slate-300' : 'text-slate-500 hover:text-slate-300'}`}
+                    >
+                        {t('recording.documents')}{recording.documents?.length ? ` (${recording.documents.length})` : ''}
+                    </button>
+                    <button
+                        onClick={() => setTab('redaction')}
+                        className={`text-xs font-bold uppercase tracking-wider transition-colors ${tab === 'redaction' ? 'text-slate-300' : 'text-slate-500 hover:text-slate-300'}`}
+                    >
+                        {t('recording.redaction')}
+                    </button>
+                </div>
+                {tab === 'transcript' && (
+                    <div className="flex gap-1">
+                        <button 
+                            onClick={() => {
+                                if (panel !== 'edit') onActivate(recording.id);
+                                setPanel(panel === 'edit' ? 'view' : 'edit');
+                            }}
+                            className={`p-1.5 rounded transition-colors ${panel === 'edit' ? 'text-indigo-400 bg-slate-700' : 'text-slate-400 hover:text-indigo-400 hover:bg-slate-700'}`}
+                            title={t('recording.edit')}
+                        >
+                           <Pencil size={14} />
+                        </button>
+                        <button 
+                            onClick={() => setPanel(panel === 'history' ? 'view' : 'history')}
+                            className={`p-1.5 rounded transition-colors ${panel === 'history' ? 'text-indigo-400 bg-slate-700' : 'text-slate-400 hover:text-indigo-400 hover:bg-slate-700'}`}
+                            title={t('recording.history')}
+                        >
+                           <History size={14} />
+                        </button>
+                        <button 
+                            onClick={handleRetranscribe}
+                            className="p-1.5 text-slate-400 hover:text-indigo-400 hover:bg-slate-700 rounded transition-colors"
+                            title={t('recording.retranscribe')}
+                        >
+                           <RefreshCw size={14} />
+                        </button>
+                        <button 
+                            onClick={handleCopy}
+                            className="p-1.5 text-slate-400 hover:text-indigo-400 hover:bg-slate-700 rounded transition-colors"
+                            title={t('recording.copy')}
+                        >
+                           {copied ? <Check size={14} /> : <Copy size={14} />}
+                        </button>
+                    </div>
+                )}
             </div>
+            {tab === 'documents' ? (
+                <DocumentPanel
+                    recording={recording}
+                    templates={templates}
+                    onGenerate={onGenerateDocument && ((templateId) => onGenerateDocument(recording.id, templateId))}
+                    onDelete={(documentId) => onDeleteDocument(recording.id, documentId)}
+                />
+            ) : tab === 'redaction' ? (
+                <RedactionPanel
+                    recording={recording}
+                    onDetectNames={onDetectNames && (() => onDetectNames(recording.id))}
+                />
+            ) : panel === 'edit' ? (
+                <TranscriptEditor
+                    recording={recording}
+                    onSave={(text, segments) => {
+                        onEditTranscript(recording.id, text, segments);
+                        setPanel('view');
+                    }}
+                    onCancel={() => setPanel('view')}
+                />
+            ) : panel === 'history' ? (
+                <VersionHistory
+                    recording={recording}
+                    onRevert={(versionId) => onRevertVersion(recording.id, versionId)}
+                />
+            ) : recording.transcript ? (
+                <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-700/50 max-h-60 overflow-y-auto custom-scrollbar">
+                    <TranscriptView
+                        recording={recording}
+                        activeSegment={activeSegment}
+                        bookmarks={bookmarks}
+                        onSeek={seekTo}
+                        onRenameSpeaker={(speaker, name) => onRenameSpeaker(recording.id, speaker, name)}
+                        highlightStems={searchStems}
+                        focusSegment={focusSegment}
+                    />
+                </div>
+            ) : (
+                <span className="text-slate-400 text-sm">{t('recording.noSpeech')}</span>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,201 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Check, Copy, Eye, EyeOff, Loader2, Sparkles } from 'lucide-react';
+import { Recording } from '../types';
+import { describeError, MessageKey } from '../services/i18nService';
+import { canExport, downloadBlob, ExportFormat, getExportBaseName, renderRecording } from '../services/exportService';
+import { detectPii, getPseudonyms, getRedactionUnits, locateMentions, PiiKind, PiiMatch, redactRecording } from '../services/redactionService';
+import { transcriptToText } from '../utils/transcriptUtils';
+import ExportMenu from './ExportMenu';
+import { useI18n } from './I18nProvider';
+
+interface RedactionPanelProps {
+  recording: Recording;
+  onDetectNames?: () => Promise<string[]>; // absent when the text must not leave the device
+}
+
+const KIND_LABELS: Record<PiiKind, MessageKey> = {
+  name: 'redaction.kindName',
+  phone: 'redaction.kindPhone',
+  passport: 'redaction.kindPassport',
+  snils: 'redaction.kindSnils',
+  inn: 'redaction.kindInn',
+  address: 'redaction.kindAddress',
+  card: 'redaction.kindCard',
+  account: 'redaction.kindAccount',
+  email: 'redaction.kindEmail',
+};
+
+const CONTEXT_CHARS = 40;
+
+// Every hit is reviewed before the copy can be taken; the recording itself is never changed
+const RedactionPanel: React.FC<RedactionPanelProps> = ({ recording, onDetectNames }) => {
+  const { t } = useI18n();
+  const units = useMemo(() => getRedactionUnits(recording), [recording.transcript, recording.segments]);
+  const [matches, setMatches] = useState<PiiMatch[]>(() => detectPii(units));
+  // true to replace the hit, false to keep it; absent until reviewed
+  const [decisions, setDecisions] = useState<Record<string, boolean>>({});
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // The transcript changed under the review: offsets are stale, so start over
+  useEffect(() => {
+    setMatches(detectPii(units));
+    setDecisions({});
+    setNotice(null);
+  }, [units]);
+
+  const accepted = matches.filter(m => decisions[m.id] === true);
+  const pendingIds = matches.filter(m => decisions[m.id] === undefined).map(m => m.id);
+  const pseudonyms = getPseudonyms(accepted);
+  const copy = pendingIds.length === 0 ? redactRecording(recording, accepted) : null;
+
+  const decide = (ids: string[], value: boolean) => {
+    setDecisions(prev => {
+      const next = { ...prev };
+      ids.forEach(id => { next[id] = value; });
+      return next;
+    });
+  };
+
+  const handleDetectNames = async () => {
+    // The text sent is exactly what the user is about to remove, so ask every time
+    if (!onDetectNames || !window.confirm(t('redaction.detectNamesConfirm'))) return;
+    setIsDetecting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const next = locateMentions(units, await onDetectNames(), matches);
+      setNotice(t('redaction.namesFound', { count: next.length - matches.length }));
+      setMatches(next);
+    } catch (e: any) {
+      setError(describeError(e, 'redaction.detectNamesFailed'));
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!copy) return;
+    await navigator.clipboard.writeText(transcriptToText(copy));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    if (!copy) return;
+    downloadBlob(renderRecording(copy, format), `${t('redaction.fileName', { name: getExportBaseName(copy) })}.${format}`);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-xs text-slate-400">
+          {t('redaction.summary', { found: matches.length, pending: pendingIds.length })}
+        </span>
+        <div className="flex flex-wrap gap-2">
+          {onDetectNames && (
+            <button
+              onClick={handleDetectNames}
+              disabled={isDetecting}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 text-xs rounded-lg transition-colors"
+              title={t('redaction.detectNamesHint')}
+            >
+              {isDetecting ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}
+              {t('redaction.detectNames')}
+            </button>
+          )}
+          {pendingIds.length > 0 && (
+            <button
+              onClick={() => decide(pendingIds, true)}
+              className="px-3 py-1.5 text-xs text-slate-300 border border-slate-700 hover:bg-slate-800 rounded-lg transition-colors"
+            >
+              {t('redaction.acceptRest')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-400 bg-red-400/10 border border-red-400/20 rounded px-3 py-2">{error}</div>
+      )}
+      {notice && <div className="text-xs text-indigo-300">{notice}</div>}
+
+      {matches.length === 0 ? (
+        <p className="text-sm text-slate-400">{t('redaction.none')}</p>
+      ) : (
+        <ul className="space-y-1 max-h-72 overflow-y-auto custom-scrollbar pr-1">
+          {matches.map(match => {
+            const decision = decisions[match.id];
+            const text = units[match.unit];
+            const before = text.slice(Math.max(0, match.start - CONTEXT_CHARS), match.start);
+            const after = text.slice(match.end, match.end + CONTEXT_CHARS);
+            return (
+              <li
+                key={match.id}
+                className={`flex items-start gap-2 px-2 py-1.5 rounded border ${decision === undefined ? 'border-amber-400/20 bg-amber-400/5' : 'border-transparent bg-slate-800/40'}`}
+              >
+                <span className="flex-shrink-0 w-20 pt-0.5 text-[10px] uppercase tracking-wider text-slate-500">
+                  {t(KIND_LABELS[match.kind])}
+                  {match.source === 'model' && (
+                    <span className="block normal-case tracking-normal text-indigo-400/80">{t('redaction.fromModel')}</span>
+                  )}
+                </span>
+                <span className="flex-grow min-w-0 text-sm text-slate-400 leading-relaxed">
+                  {match.start > CONTEXT_CHARS && '…'}{before}
+                  <mark className={`rounded-sm px-0.5 ${decision === true ? 'bg-red-400/20 text-red-200 line-through' : decision === false ? 'bg-slate-700 text-slate-200' : 'bg-amber-400/30 text-amber-100'}`}>
+                    {match.text}
+                  </mark>
+                  {decision === true && <span className="text-emerald-300"> → {pseudonyms.get(match.id)}</span>}
+                  {after}{match.end + CONTEXT_CHARS < text.length && '…'}
+                </span>
+                <div className="flex flex-shrink-0 gap-1">
+                  <button
+                    onClick={() => decide([match.id], true)}
+                    className={`p-1.5 rounded transition-colors ${decision === true ? 'text-red-300 bg-red-400/20' : 'text-slate-500 hover:text-red-300 hover:bg-slate-700'}`}
+                    title={t('redaction.accept')}
+                  >
+                    <EyeOff size={14} />
+                  </button>
+                  <button
+                    onClick={() => decide([match.id], false)}
+                    className={`p-1.5 rounded transition-colors ${decision === false ? 'text-slate-200 bg-slate-600' : 'text-slate-500 hover:text-slate-200 hover:bg-slate-700'}`}
+                    title={t('redaction.reject')}
+                  >
+                    <Eye size={14} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 pt-2 border-t border-slate-700/50">
+        <span className="text-xs text-slate-500">
+          {copy ? t('redaction.originalKept') : t('redaction.reviewFirst')}
+        </span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handleCopy}
+            disabled={!copy}
+            className="p-2 text-slate-400 hover:text-indigo-400 hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent rounded transition-colors"
+            title={t('redaction.copy')}
+          >
+            {copied ? <Check size={16} /> : <Copy size={16} />}
+          </button>
+          {copy && (
+            <ExportMenu
+              isAvailable={(format) => canExport(copy, format)}
+              onExport={handleExport}
+              label={t('redaction.export')}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RedactionPanel;
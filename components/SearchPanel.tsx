@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Search, SlidersHorizontal, X } from 'lucide-react';
+import { Matter, TranscriptionStatus } from '../types';
+import { sortMatters } from '../services/matterService';
+import { EMPTY_SEARCH, SearchQuery, SearchFilters, SortOrder } from '../services/searchService';
+import { MessageKey } from '../services/i18nService';
+import { useI18n } from './I18nProvider';
+
+interface SearchPanelProps {
+  query: SearchQuery;
+  tags: string[];
+  matters: Matter[];
+  resultCount: number;
+  onChange: (query: SearchQuery) => void;
+}
+
+const STATUS_LABELS: Record<TranscriptionStatus, MessageKey> = {
+  [TranscriptionStatus.IDLE]: 'search.statusIdle',
+  [TranscriptionStatus.LOADING]: 'search.statusLoading',
+  [TranscriptionStatus.SUCCESS]: 'search.statusSuccess',
+  [TranscriptionStatus.ERROR]: 'search.statusError',
+};
+
+const SORT_LABELS: Record<SortOrder, MessageKey> = {
+  'relevance': 'search.sortRelevance',
+  'date-desc': 'search.sortNewest',
+  'date-asc': 'search.sortOldest',
+  'duration-desc': 'search.sortLongest',
+  'duration-asc': 'search.sortShortest',
+  'name': 'search.sortName',
+};
+
+const fieldClassName = "bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 outline-none focus:border-indigo-500/60";
+
+const parseMinutes = (value: string): number | undefined =>
+  value === '' ? undefined : Math.max(0, Number(value));
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ query, tags, matters, resultCount, onChange }) => {
+  const { t } = useI18n();
+  const [showFilters, setShowFilters] = useState(false);
+  const { filters } = query;
+
+  const setFilters = (patch: Partial<SearchFilters>) => {
+    onChange({ ...query, filters: { ...filters, ...patch } });
+  };
+
+  // Relevance only makes sense with a query; switch to it when one is typed
+  const setText = (text: string) => {
+    const hasText = text.trim() !== '';
+    let sort = query.sort;
+    if (hasText && !query.text.trim() && sort === 'date-desc') sort = 'relevance';
+    if (!hasText && sort === 'relevance') sort = 'date-desc';
+    onChange({ ...query, text, sort });
+  };
+
+  const isFiltered = query.text.trim() !== '' || Object.values(filters).some(v => v !== undefined && v !== '');
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex gap-2">
+        <div className="relative flex-grow">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            value={query.text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={t('search.placeholder')}
+            className="w-full bg-slate-900/60 border border-slate-800 rounded-xl pl-9 pr-3 py-2 text-sm text-slate-200 outline-none focus:border-indigo-500/60"
+          />
+        </div>
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`p-2 rounded-xl border transition-colors ${showFilters ? 'border-indigo-500/50 text-indigo-400 bg-indigo-500/10' : 'border-slate-800 text-slate-400 hover:text-slate-200'}`}
+          title={t('search.filters')}
+        >
+          <SlidersHorizontal size={18} />
+        </button>
+        {isFiltered && (
+          <button
+            onClick={() => onChange(EMPTY_SEARCH)}
+            className="p-2 rounded-xl border border-slate-800 text-slate-400 hover:text-slate-200 transition-colors"
+            title={t('search.reset')}
+          >
+            <X size={18} />
+          </button>
+        )}
+      </div>
+
+      {showFilters && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-xs text-slate-400 bg-slate-900/40 border border-slate-800 rounded-xl p-3">
+          <label className="flex flex-col gap-1">
+            {t('search.dateFrom')}
+            <input type="date" value={filters.dateFrom ?? ''} onChange={(e) => setFilters({ dateFrom: e.target.value || undefined })} className={fieldClassName} />
+          </label>
+          <label className="flex flex-col gap-1">
+            {t('search.dateTo')}
+            <input type="date" value={filters.dateTo ?? ''} onChange={(e) => setFilters({ dateTo: e.target.value || undefined })} className={fieldClassName} />
+          </label>
+          <label className="flex flex-col gap-1">
+            {t('search.status')}
+            <select
+              value={filters.status ?? ''}
+              onChange={(e) => setFilters({ status: (e.target.value || undefined) as TranscriptionStatus | undefined })}
+              className={fieldClassName}
+            >
+              <option value="">{t('search.all')}</option>
+              {Object.values(TranscriptionStatus).map(status => (
+                <option key={status} value={status}>{t(STATUS_LABELS[status])}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            {t('search.minMinutes')}
+            <input type="number" min={0} value={filters.minMinutes ?? ''} onChange={(e) => setFilters({ minMinutes: parseMinutes(e.target.value) })} className={fieldClassName} />
+          </label>
+          <label className="flex flex-col gap-1">
+            {t('search.maxMinutes')}
+            <input type="number" min={0} value={filters.maxMinutes ?? ''} onChange={(e) => setFilters({ maxMinutes: parseMinutes(e.target.value) })} className={fieldClassName} />
+          </label>
+          <label className="flex flex-col gap-1">
+            {t('search.tag')}
+            <select value={filters.tag ?? ''} onChange={(e) => setFilters({ tag: e.target.value || undefined })} className={fieldClassName}>
+              <option value="">{t('search.all')}</option>
+              {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+            </select>
+          </label>
+          {matters.length > 0 && (
+            <label className="flex flex-col gap-1 col-span-2 sm:col-span-3">
+              {t('search.matter')}
+              <select value={filters.matterId ?? ''} onChange={(e) => setFilters({ matterId: e.target.value || undefined })} className={fieldClassName}>
+                <option value="">{t('search.all')}</option>
+                {sortMatters(matters).map(matter => (
+                  <option key={matter.id} value={matter.id}>{matter.archived ? t('library.archivedMatter', { name: matter.name }) : matter.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="flex flex-col gap-1 col-span-2 sm:col-span-3">
+            {t('search.sort')}
+            <select value={query.sort} onChange={(e) => onChange({ ...query, sort: e.target.value as SortOrder })} className={fieldClassName}>
+              {(Object.keys(SORT_LABELS) as SortOrder[])
+                .filter(sort => sort !== 'relevance' || query.text.trim())
+                .map(sort => <option key={sort} value={sort}>{t(SORT_LABELS[sort])}</option>)}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {isFiltered && (
+        <span className="text-xs text-slate-500 pl-1">{t('search.resultCount', { count: resultCount })}</span>
+      )}
+    </div>
+  );
+};
+
+export default SearchPanel;
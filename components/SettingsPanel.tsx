@@ -0,0 +1,326 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Copy, RotateCcw, Settings, Trash2, X } from 'lucide-react';
+import {
+  AppSettings,
+  AUTO_REWIND_OPTIONS,
+  BITRATE_OPTIONS,
+  createPromptPreset,
+  DEFAULT_SETTINGS,
+  FFT_SIZE_OPTIONS,
+  getPromptPresets,
+  getSupportedRecordingFormats,
+  MAX_TEMPERATURE,
+  MODEL_SUGGESTIONS,
+  PromptPreset,
+  RecordingSettings,
+  SPEECH_LANGUAGES,
+  TranscriptionSettings,
+} from '../services/settingsService';
+import { getIntlLocale, Locale, LOCALE_OPTIONS } from '../services/i18nService';
+import { PLAYER_SHORTCUTS, PlayerAction } from '../utils/playerUtils';
+import { useI18n } from './I18nProvider';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 outline-none focus:border-indigo-500/60";
+const sectionTitleClassName = "text-xs font-bold uppercase tracking-wider text-slate-500";
+
+// Device labels stay empty until the page has been given microphone access
+const useMicrophones = (): MediaDeviceInfo[] => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  useEffect(() => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    const refresh = () => {
+      navigator.mediaDevices.enumerateDevices()
+        .then(all => setDevices(all.filter(d => d.kind === 'audioinput' && d.deviceId !== 'default')))
+        .catch(error => console.warn("Could not list microphones:", error));
+    };
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, []);
+  return devices;
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const { t, locale, setLocale } = useI18n();
+  const microphones = useMicrophones();
+  const [formats] = useState(getSupportedRecordingFormats);
+  const { transcription, recording, prompts } = settings;
+  const presets = getPromptPresets(prompts);
+  const selectedPreset = presets.find(p => p.id === transcription.promptId) ?? presets[0];
+
+  const languageNames = useMemo(() => new Intl.DisplayNames([getIntlLocale()], { type: 'language' }), [locale]);
+  const languageLabel = (code: string) => {
+    const name = languageNames.of(code) ?? code;
+    return name.charAt(0).toLocaleUpperCase(getIntlLocale()) + name.slice(1);
+  };
+  const presetName = (preset: PromptPreset) => preset.builtIn ? t('settings.builtInPrompt') : preset.name;
+  const describeAction = (action: PlayerAction) => {
+    switch (action.type) {
+      case 'toggle': return t('player.shortcutToggle');
+      case 'skip': return action.seconds < 0 ? t('player.back', { seconds: -action.seconds }) : t('player.forward', { seconds: action.seconds });
+      case 'rate': return action.step < 0 ? t('player.shortcutSlower') : t('player.shortcutFaster');
+      case 'rate-reset': return t('player.shortcutNormalSpeed');
+    }
+  };
+  const formatBitrate = (bitrate: number) =>
+    bitrate === 0 ? t('settings.browserBitrate') : t('settings.bitrateValue', { value: bitrate / 1000 });
+
+  const updateTranscription = (patch: Partial<TranscriptionSettings>) => {
+    onChange({ ...settings, transcription: { ...transcription, ...patch } });
+  };
+
+  const updateRecording = (patch: Partial<RecordingSettings>) => {
+    onChange({ ...settings, recording: { ...recording, ...patch } });
+  };
+
+  const updatePreset = (patch: Partial<PromptPreset>) => {
+    onChange({ ...settings, prompts: prompts.map(p => p.id === selectedPreset.id ? { ...p, ...patch } : p) });
+  };
+
+  const handleDuplicatePreset = () => {
+    const preset = createPromptPreset({ ...selectedPreset, name: presetName(selectedPreset) });
+    onChange({
+      ...settings,
+      prompts: [...prompts, preset],
+      transcription: { ...transcription, promptId: preset.id },
+    });
+  };
+
+  const handleDeletePreset = () => {
+    if (!window.confirm(t('settings.deletePromptConfirm', { name: selectedPreset.name }))) return;
+    onChange({
+      ...settings,
+      prompts: prompts.filter(p => p.id !== selectedPreset.id),
+      transcription: { ...transcription, promptId: DEFAULT_SETTINGS.transcription.promptId },
+    });
+  };
+
+  const handleReset = () => {
+    if (!window.confirm(t('settings.resetConfirm'))) return;
+    onChange(DEFAULT_SETTINGS);
+  };
+
+  // A microphone chosen earlier may be unplugged now
+  const isDeviceMissing = recording.deviceId !== '' && microphones.length > 0
+    && !microphones.some(d => d.deviceId === recording.deviceId);
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/80 backdrop-blur-sm flex items-start justify-center p-4 overflow-y-auto">
+      <div className="w-full max-w-2xl bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl p-6 flex flex-col gap-5 my-8">
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-slate-200">
+            <Settings size={20} className="text-indigo-400" />
+            {t('settings.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-200 rounded-full transition-colors" title={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <span className={sectionTitleClassName}>{t('settings.interface')}</span>
+          <label className="flex items-center gap-2 text-xs text-slate-400" title={t('settings.interfaceLanguageHint')}>
+            {t('settings.interfaceLanguage')}
+            <select value={locale} onChange={(e) => setLocale(e.target.value as Locale)} className={inputClassName}>
+              {LOCALE_OPTIONS.map(option => <option key={option.code} value={option.code}>{option.label}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <span className={sectionTitleClassName}>{t('settings.transcription')}</span>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-xs text-slate-400">
+            <label className="flex flex-col gap-1">
+              {t('settings.model')}
+              <input
+                list="settings-models"
+                value={transcription.model}
+                onChange={(e) => updateTranscription({ model: e.target.value.trim() })}
+                className={inputClassName}
+              />
+              <datalist id="settings-models">
+                {MODEL_SUGGESTIONS.map(model => <option key={model} value={model} />)}
+              </datalist>
+            </label>
+            <label className="flex flex-col gap-1" title={t('settings.temperatureHint')}>
+              {t('settings.temperature')}
+              <input
+                type="number"
+                min={0}
+                max={MAX_TEMPERATURE}
+                step={0.1}
+                value={transcription.temperature}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (Number.isFinite(value)) updateTranscription({ temperature: Math.min(MAX_TEMPERATURE, Math.max(0, value)) });
+                }}
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1" title={t('settings.languageHint')}>
+              {t('settings.language')}
+              <select value={transcription.language} onChange={(e) => updateTranscription({ language: e.target.value })} className={inputClassName}>
+                <option value="">{t('settings.languageAuto')}</option>
+                {SPEECH_LANGUAGES.map(code => <option key={code} value={code}>{languageLabel(code)}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex flex-col gap-2 text-xs text-slate-400">
+            <div className="flex items-end gap-2">
+              <label className="flex flex-col gap-1 flex-grow">
+                {t('settings.prompt')}
+                <select value={selectedPreset.id} onChange={(e) => updateTranscription({ promptId: e.target.value })} className={inputClassName}>
+                  {presets.map(preset => <option key={preset.id} value={preset.id}>{presetName(preset)}</option>)}
+                </select>
+              </label>
+              <button
+                onClick={handleDuplicatePreset}
+                className="p-2 text-slate-500 hover:text-indigo-400 hover:bg-slate-800 rounded transition-colors"
+                title={t('settings.duplicatePrompt')}
+              >
+                <Copy size={16} />
+              </button>
+              {!selectedPreset.builtIn && (
+                <button
+                  onClick={handleDeletePreset}
+                  className="p-2 text-slate-500 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                  title={t('settings.deletePrompt')}
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+            {!selectedPreset.builtIn && (
+              <input
+                value={selectedPreset.name}
+                onChange={(e) => updatePreset({ name: e.target.value })}
+                placeholder={t('settings.promptName')}
+                className={inputClassName}
+              />
+            )}
+            <textarea
+              value={selectedPreset.text}
+              readOnly={selectedPreset.builtIn}
+              onChange={(e) => updatePreset({ text: e.target.value })}
+              rows={4}
+              className={`${inputClassName} resize-y ${selectedPreset.builtIn ? 'text-slate-400' : ''}`}
+            />
+            <span className="text-slate-500">
+              {t('settings.promptNote')}
+            </span>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <span className={sectionTitleClassName}>{t('settings.recording')}</span>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-xs text-slate-400">
+            <label className="flex flex-col gap-1">
+              {t('settings.microphone')}
+              <select value={recording.deviceId} onChange={(e) => updateRecording({ deviceId: e.target.value })} className={inputClassName}>
+                <option value="">{t('settings.defaultMicrophone')}</option>
+                {microphones.map((device, index) => (
+                  <option key={device.deviceId} value={device.deviceId}>{device.label || t('settings.microphoneFallback', { index: index + 1 })}</option>
+                ))}
+                {isDeviceMissing && <option value={recording.deviceId}>{t('settings.disconnectedMicrophone')}</option>}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              {t('settings.format')}
+              <select value={recording.mimeType} onChange={(e) => updateRecording({ mimeType: e.target.value })} className={inputClassName}>
+                <option value="">{t('settings.browserFormat')}</option>
+                {formats.map(format => <option key={format.mimeType} value={format.mimeType}>{format.label}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              {t('settings.bitrate')}
+              <select value={recording.bitrate} onChange={(e) => updateRecording({ bitrate: Number(e.target.value) })} className={inputClassName}>
+                {BITRATE_OPTIONS.map(bitrate => <option key={bitrate} value={bitrate}>{formatBitrate(bitrate)}</option>)}
+              </select>
+            </label>
+          </div>
+          {isDeviceMissing && (
+            <span className="text-xs text-amber-400">{t('settings.missingMicrophone')}</span>
+          )}
+          <div className="flex flex-wrap gap-x-5 gap-y-2 text-xs text-slate-400">
+            {([
+              'echoCancellation',
+              'noiseSuppression',
+              'autoGainControl',
+            ] as const).map(key => (
+              <label key={key} className="flex items-center gap-2 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={recording[key]}
+                  onChange={(e) => updateRecording({ [key]: e.target.checked })}
+                  className="accent-indigo-500"
+                />
+                {t(`settings.${key}`)}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <span className={sectionTitleClassName}>{t('settings.playback')}</span>
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            {t('settings.autoRewind')}
+            <select
+              value={settings.playback.autoRewindSeconds}
+              onChange={(e) => onChange({ ...settings, playback: { ...settings.playback, autoRewindSeconds: Number(e.target.value) } })}
+              className={inputClassName}
+            >
+              {AUTO_REWIND_OPTIONS.map(seconds => (
+                <option key={seconds} value={seconds}>
+                  {seconds === 0 ? t('settings.autoRewindOff') : t('settings.autoRewindValue', { seconds })}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="flex flex-col gap-1 text-xs text-slate-400">
+            {t('settings.shortcuts')}
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-slate-300">
+              {PLAYER_SHORTCUTS.map(shortcut => (
+                <React.Fragment key={shortcut.keys[0]}>
+                  <dt className="flex gap-1">
+                    {shortcut.keys.map(keys => (
+                      <kbd key={keys} className="px-1.5 py-0.5 rounded border border-slate-700 bg-slate-800 font-mono text-[11px]">{keys}</kbd>
+                    ))}
+                  </dt>
+                  <dd>{describeAction(shortcut.action)}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 text-xs text-slate-400">
+          <label className="flex items-center gap-2">
+            {t('settings.visualizerBars')}
+            <select
+              value={settings.visualizerFftSize}
+              onChange={(e) => onChange({ ...settings, visualizerFftSize: Number(e.target.value) })}
+              className={inputClassName}
+            >
+              {FFT_SIZE_OPTIONS.map(size => <option key={size} value={size}>{size / 2}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={handleReset}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-400 border border-slate-700 hover:border-red-400/50 hover:text-red-400 rounded-lg transition-colors"
+          >
+            <RotateCcw size={14} /> {t('settings.reset')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
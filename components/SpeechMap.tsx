@@ -0,0 +1,42 @@
+import React from 'react';
+import { TimeRange } from '../types';
+import { getSpeechSeconds } from '../services/vadService';
+import { formatDuration } from '../utils/audioUtils';
+import { useI18n } from './I18nProvider';
+
+interface SpeechMapProps {
+  speech: TimeRange[];
+  duration: number;
+  onSeek: (time: number) => void;
+}
+
+// Speech against silence along the recording; click a region to play it
+const SpeechMap: React.FC<SpeechMapProps> = ({ speech, duration, onSeek }) => {
+  const { t } = useI18n();
+  if (duration <= 0) return null;
+  const share = Math.round((getSpeechSeconds(speech) / duration) * 100);
+
+  return (
+    <div className="flex items-center gap-3 text-xs text-slate-500">
+      <div className="relative flex-grow h-1.5 bg-slate-700/60 rounded-full overflow-hidden">
+        {speech.map((range, index) => (
+          <button
+            key={index}
+            onClick={() => onSeek(range.start)}
+            className="absolute top-0 h-full bg-emerald-500/70 hover:bg-emerald-400"
+            style={{
+              left: `${(range.start / duration) * 100}%`,
+              width: `${Math.max(0.3, ((range.end - range.start) / duration) * 100)}%`,
+            }}
+            title={t('speech.range', { start: formatDuration(range.start), end: formatDuration(range.end) })}
+          />
+        ))}
+      </div>
+      <span className="flex-shrink-0" title={t('speech.shareHint')}>
+        {t('speech.share', { share })}
+      </span>
+    </div>
+  );
+};
+
+export default SpeechMap;
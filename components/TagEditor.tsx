@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Plus, Tag, X } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface TagEditorProps {
+  tags: string[];
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+}
+
+const TagEditor: React.FC<TagEditorProps> = ({ tags, suggestions, onChange }) => {
+  const { t } = useI18n();
+  const [isAdding, setIsAdding] = useState(false);
+  const [draft, setDraft] = useState('');
+  const listId = React.useId();
+
+  const commit = () => {
+    const tag = draft.trim();
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setDraft('');
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 text-xs bg-slate-700/60 text-slate-300 rounded-full pl-2 pr-1 py-0.5">
+          <Tag size={10} className="text-slate-500" />
+          {tag}
+          <button
+            onClick={() => onChange(tags.filter(other => other !== tag))}
+            className="text-slate-500 hover:text-red-400 rounded-full"
+            title={t('tags.remove')}
+          >
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+      {isAdding ? (
+        <>
+          <input
+            autoFocus
+            list={listId}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commit();
+              if (e.key === 'Escape') {
+                setDraft('');
+                setIsAdding(false);
+              }
+            }}
+            placeholder={t('tags.placeholder')}
+            className="bg-slate-800 border border-slate-700 rounded-full px-2 py-0.5 text-xs text-slate-200 outline-none w-28"
+          />
+          <datalist id={listId}>
+            {suggestions.filter(s => !tags.includes(s)).map(s => <option key={s} value={s} />)}
+          </datalist>
+        </>
+      ) : (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="flex items-center gap-1 text-xs text-slate-500 hover:text-indigo-400 rounded-full px-1.5 py-0.5 transition-colors"
+          title={t('tags.add')}
+        >
+          <Plus size={12} />
+          {tags.length === 0 && t('tags.addShort')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TagEditor;
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Copy, FileSignature, Plus, Trash2, X } from 'lucide-react';
+import { DocumentTemplate, TemplateSection } from '../types';
+import { createSection, createTemplate, duplicateTemplate } from '../services/documentService';
+import { useI18n } from './I18nProvider';
+
+interface TemplateManagerProps {
+  templates: DocumentTemplate[];
+  onChange: (templates: DocumentTemplate[]) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 outline-none focus:border-indigo-500/60 disabled:opacity-60";
+const iconButtonClassName = "p-1.5 text-slate-500 hover:text-indigo-400 hover:bg-slate-800 rounded transition-colors flex-shrink-0 disabled:opacity-30 disabled:pointer-events-none";
+
+const TemplateManager: React.FC<TemplateManagerProps> = ({ templates, onChange, onClose }) => {
+  const { t } = useI18n();
+  const [selectedId, setSelectedId] = useState<string | null>(templates[0]?.id ?? null);
+
+  const selected = templates.find(template => template.id === selectedId) ?? null;
+  const readOnly = selected?.builtIn ?? false;
+
+  const updateSelected = (patch: Partial<DocumentTemplate>) => {
+    if (!selected || readOnly) return;
+    onChange(templates.map(template => template.id === selected.id ? { ...template, ...patch } : template));
+  };
+
+  const updateSection = (id: string, patch: Partial<TemplateSection>) => {
+    if (!selected) return;
+    updateSelected({ sections: selected.sections.map(s => s.id === id ? { ...s, ...patch } : s) });
+  };
+
+  const moveSection = (index: number, delta: number) => {
+    if (!selected) return;
+    const sections = [...selected.sections];
+    const [moved] = sections.splice(index, 1);
+    sections.splice(index + delta, 0, moved);
+    updateSelected({ sections });
+  };
+
+  const addTemplate = (template: DocumentTemplate) => {
+    onChange([...templates, template]);
+    setSelectedId(template.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected || readOnly || !window.confirm(t('template.deleteConfirm', { name: selected.name }))) return;
+    const remaining = templates.filter(template => template.id !== selected.id);
+    onChange(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/80 backdrop-blur-sm flex items-start justify-center p-4 overflow-y-auto">
+      <div className="w-full max-w-3xl bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl p-6 flex flex-col gap-5 my-8">
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-slate-200">
+            <FileSignature size={20} className="text-indigo-400" />
+            {t('template.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-200 rounded-full transition-colors" title={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {templates.map(template => (
+            <button
+              key={template.id}
+              onClick={() => setSelectedId(template.id)}
+              className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${template.id === selectedId ? 'border-indigo-500/60 bg-indigo-500/10 text-indigo-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}
+            >
+              {template.name || t('template.untitled')}
+            </button>
+          ))}
+          <button
+            onClick={() => addTemplate(createTemplate())}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-full text-sm border border-dashed border-slate-700 text-slate-500 hover:text-indigo-400 transition-colors"
+          >
+            <Plus size={14} /> {t('template.add')}
+          </button>
+        </div>
+
+        {selected && (
+          <div className="flex flex-col gap-4">
+            {readOnly && (
+              <div className="flex items-center justify-between gap-3 text-sm text-slate-400 bg-slate-800/60 rounded-lg px-3 py-2">
+                {t('template.builtIn')}
+                <button
+                  onClick={() => addTemplate(duplicateTemplate(selected))}
+                  className="flex items-center gap-1 px-3 py-1 text-indigo-300 hover:bg-indigo-500/10 rounded-lg transition-colors flex-shrink-0"
+                >
+                  <Copy size={14} /> {t('template.duplicate')}
+                </button>
+              </div>
+            )}
+
+            <label className="flex flex-col gap-1 text-xs text-slate-400">
+              {t('template.name')}
+              <input value={selected.name} disabled={readOnly} onChange={(e) => updateSelected({ name: e.target.value })} className={inputClassName} />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-slate-400">
+              {t('template.description')}
+              <textarea
+                value={selected.description}
+                disabled={readOnly}
+                onChange={(e) => updateSelected({ description: e.target.value })}
+                rows={2}
+                className={`${inputClassName} resize-y`}
+              />
+            </label>
+
+            <div className="flex flex-col gap-2">
+              <h3 className="text-xs font-bold uppercase tracking-wider text-slate-500">{t('template.sections')}</h3>
+              {selected.sections.map((s, index) => (
+                <div key={s.id} className="grid grid-cols-[1fr_2fr_auto] gap-2 items-start">
+                  <input
+                    value={s.title}
+                    disabled={readOnly}
+                    onChange={(e) => updateSection(s.id, { title: e.target.value })}
+                    placeholder={t('template.sectionTitle')}
+                    className={inputClassName}
+                  />
+                  <textarea
+                    value={s.instructions}
+                    disabled={readOnly}
+                    onChange={(e) => updateSection(s.id, { instructions: e.target.value })}
+                    placeholder={t('template.sectionInstructions')}
+                    rows={1}
+                    className={`${inputClassName} resize-y`}
+                  />
+                  {!readOnly && (
+                    <div className="flex">
+                      <button onClick={() => moveSection(index, -1)} disabled={index === 0} className={iconButtonClassName} title={t('template.moveUp')}>
+                        <ArrowUp size={14} />
+                      </button>
+                      <button onClick={() => moveSection(index, 1)} disabled={index === selected.sections.length - 1} className={iconButtonClassName} title={t('template.moveDown')}>
+                        <ArrowDown size={14} />
+                      </button>
+                      <button
+                        onClick={() => updateSelected({ sections: selected.sections.filter(x => x.id !== s.id) })}
+                        className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors flex-shrink-0"
+                        title={t('template.deleteSection')}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+              {!readOnly && (
+                <button
+                  onClick={() => updateSelected({ sections: [...selected.sections, createSection()] })}
+                  className="self-start flex items-center gap-1 text-sm text-slate-500 hover:text-indigo-400 transition-colors"
+                >
+                  <Plus size={14} /> {t('template.addSection')}
+                </button>
+              )}
+            </div>
+
+            {!readOnly && (
+              <button
+                onClick={handleDelete}
+                className="self-end flex items-center gap-1 text-sm text-slate-500 hover:text-red-400 transition-colors"
+              >
+                <Trash2 size={14} /> {t('template.delete')}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TemplateManager;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Recording, TranscriptSegment } from '../types';
+import { formatDuration } from '../utils/audioUtils';
+import { getSpeakerName, segmentsToText } from '../utils/transcriptUtils';
+import { useI18n } from './I18nProvider';
+
+interface TranscriptEditorProps {
+  recording: Recording;
+  onSave: (text: string, segments?: TranscriptSegment[]) => void;
+  onCancel: () => void;
+}
+
+const textareaClassName = "w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 leading-relaxed outline-none focus:border-indigo-500/60 resize-y";
+
+// Segments are edited one by one so that their timestamps and speakers stay attached
+const TranscriptEditor: React.FC<TranscriptEditorProps> = ({ recording, onSave, onCancel }) => {
+  const { t } = useI18n();
+  const [segments, setSegments] = useState<TranscriptSegment[]>(recording.segments ?? []);
+  const [text, setText] = useState(recording.transcript ?? '');
+
+  const hasSegments = segments.length > 0;
+
+  const updateSegment = (index: number, value: string) => {
+    setSegments(prev => prev.map((s, i) => i === index ? { ...s, text: value } : s));
+  };
+
+  const handleSave = () => {
+    if (hasSegments) {
+      const edited = segments
+        .map(s => ({ ...s, text: s.text.trim() }))
+        .filter(s => s.text);
+      onSave(segmentsToText(edited), edited);
+    } else {
+      onSave(text.trim());
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {hasSegments ? (
+        <div className="space-y-2 max-h-96 overflow-y-auto custom-scrollbar pr-1">
+          {segments.map((segment, index) => (
+            <div key={index} className="flex gap-3">
+              <span className="text-indigo-400 text-xs font-mono pt-2.5 flex-shrink-0 w-10">
+                {formatDuration(segment.start)}
+              </span>
+              <div className="flex-grow space-y-1">
+                {segment.speaker && (
+                  <span className="text-xs font-semibold text-purple-300">
+                    {getSpeakerName(recording, segment.speaker)}
+                  </span>
+                )}
+                <textarea
+                  value={segment.text}
+                  onChange={(e) => updateSegment(index, e.target.value)}
+                  rows={Math.max(1, Math.ceil(segment.text.length / 80))}
+                  className={textareaClassName}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={10}
+          className={textareaClassName}
+        />
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-slate-400 hover:text-slate-200 text-sm rounded-lg transition-colors"
+        >
+          {t('transcript.cancel')}
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm rounded-lg transition-colors font-medium"
+        >
+          {t('transcript.save')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptEditor;
@@ -0,0 +1,176 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark as BookmarkIcon, Pencil } from 'lucide-react';
+import { Bookmark, Recording } from '../types';
+import { formatDuration } from '../utils/audioUtils';
+import { getSpeakerName, groupBySpeaker } from '../utils/transcriptUtils';
+import { bookmarksBySegment } from '../utils/bookmarkUtils';
+import { highlightText } from '../services/searchService';
+import { useI18n } from './I18nProvider';
+
+interface TranscriptViewProps {
+  recording: Recording;
+  activeSegment: number;
+  bookmarks?: Bookmark[]; // shown beside the segment they fall into
+  onSeek: (time: number) => void;
+  onRenameSpeaker: (speaker: string, name: string) => void;
+  highlightStems?: Set<string>;
+  focusSegment?: number; // scrolled into view within its container when it changes
+}
+
+const NO_HIGHLIGHT = new Set<string>();
+
+// Scrolls only the transcript's own scroll box: scrollIntoView would also move
+// the page, which jumps under the search field while typing
+const scrollWithinContainer = (el: HTMLElement) => {
+  let container = el.parentElement;
+  while (container && !/(auto|scroll)/.test(getComputedStyle(container).overflowY)) {
+    container = container.parentElement;
+  }
+  if (!container) return;
+  const box = container.getBoundingClientRect();
+  const rect = el.getBoundingClientRect();
+  if (rect.top < box.top) {
+    container.scrollBy({ top: rect.top - box.top, behavior: 'smooth' });
+  } else if (rect.bottom > box.bottom) {
+    container.scrollBy({ top: Math.min(rect.bottom - box.bottom, rect.top - box.top), behavior: 'smooth' });
+  }
+};
+
+const Highlighted: React.FC<{ text: string; stems: Set<string> }> = ({ text, stems }) => (
+  <>
+    {highlightText(text, stems).map((part, i) =>
+      part.match
+        ? <mark key={i} className="bg-amber-400/30 text-amber-100 rounded-sm">{part.text}</mark>
+        : <React.Fragment key={i}>{part.text}</React.Fragment>
+    )}
+  </>
+);
+
+interface SpeakerLabelProps {
+  name: string;
+  onRename: (name: string) => void;
+}
+
+const SpeakerLabel: React.FC<SpeakerLabelProps> = ({ name, onRename }) => {
+  const { t } = useI18n();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(name);
+
+  const startEditing = () => {
+    setDraft(name);
+    setIsEditing(true);
+  };
+
+  const commit = () => {
+    setIsEditing(false);
+    if (draft.trim() !== name) onRename(draft);
+  };
+
+  if (isEditing) {
+    return (
+      <input
+        autoFocus
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setIsEditing(false);
+        }}
+        className="bg-slate-800 border border-indigo-500/50 rounded px-2 py-0.5 text-xs text-slate-100 outline-none"
+        placeholder={t('transcript.speakerPlaceholder')}
+      />
+    );
+  }
+
+  return (
+    <button
+      onClick={startEditing}
+      className="group flex items-center gap-1 text-xs font-semibold text-purple-300 hover:text-purple-200"
+      title={t('transcript.renameSpeaker')}
+    >
+      {name}
+      <Pencil size={10} className="opacity-0 group-hover:opacity-100 transition-opacity" />
+    </button>
+  );
+};
+
+const TranscriptView: React.FC<TranscriptViewProps> = ({
+  recording,
+  activeSegment,
+  bookmarks = [],
+  onSeek,
+  onRenameSpeaker,
+  highlightStems = NO_HIGHLIGHT,
+  focusSegment,
+}) => {
+  const { t } = useI18n();
+  const segments = recording.segments ?? [];
+  const markers = bookmarksBySegment(segments, bookmarks);
+  const segmentRefs = useRef<Map<number, HTMLButtonElement>>(new Map());
+
+  useEffect(() => {
+    if (focusSegment === undefined) return;
+    const el = segmentRefs.current.get(focusSegment);
+    if (el) scrollWithinContainer(el);
+  }, [focusSegment]);
+
+  if (segments.length === 0) {
+    return (
+      <p className="text-slate-300 text-sm leading-relaxed whitespace-pre-wrap font-light">
+        <Highlighted text={recording.transcript ?? ''} stems={highlightStems} />
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {groupBySpeaker(segments).map((turn) => (
+        <div key={turn.items[0].index} className="space-y-1">
+          {turn.speaker && (
+            <SpeakerLabel
+              name={getSpeakerName(recording, turn.speaker)}
+              onRename={(name) => onRenameSpeaker(turn.speaker!, name)}
+            />
+          )}
+          {turn.items.map(({ segment, index }) => (
+            <React.Fragment key={index}>
+              <button
+                ref={(el) => {
+                  if (el) segmentRefs.current.set(index, el);
+                  else segmentRefs.current.delete(index);
+                }}
+                onClick={() => onSeek(segment.start)}
+                className={`w-full text-left flex gap-3 px-2 py-1 rounded transition-colors ${index === activeSegment ? 'bg-indigo-500/20 text-slate-100' : index === focusSegment ? 'bg-amber-400/10 text-slate-200' : 'text-slate-300 hover:bg-slate-800'}`}
+                title={t('transcript.seek')}
+              >
+                <span className="text-indigo-400 text-xs font-mono pt-0.5 flex-shrink-0">
+                  {formatDuration(segment.start)}
+                </span>
+                <span className="text-sm leading-relaxed font-light">
+                  <Highlighted text={segment.text} stems={highlightStems} />
+                </span>
+              </button>
+              {markers.get(index)?.map(bookmark => (
+                <button
+                  key={bookmark.id}
+                  onClick={() => onSeek(bookmark.time)}
+                  className="w-full text-left flex items-center gap-3 px-2 text-xs text-amber-300/90 hover:text-amber-200"
+                  title={t('transcript.seekBookmark')}
+                >
+                  <span className="font-mono flex-shrink-0">{formatDuration(bookmark.time)}</span>
+                  <span className="flex items-center gap-1 min-w-0">
+                    <BookmarkIcon size={10} className="flex-shrink-0" />
+                    {bookmark.note && <span className="truncate">{bookmark.note}</span>}
+                  </span>
+                </button>
+              ))}
+            </React.Fragment>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TranscriptView;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { AudioLines } from 'lucide-react';
+import { VadConfig } from '../services/vadService';
+import { useI18n } from './I18nProvider';
+
+interface VadSettingsProps {
+  config: VadConfig;
+  onChange: (config: VadConfig) => void;
+}
+
+const numberClassName = "w-14 bg-slate-800 border border-slate-700 rounded px-2 py-0.5 text-sm text-slate-200 outline-none focus:border-indigo-500/60";
+
+const clampSeconds = (value: string, fallback: number): number => {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) ? Math.min(60, Math.max(1, seconds)) : fallback;
+};
+
+const VadSettings: React.FC<VadSettingsProps> = ({ config, onChange }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-x-5 gap-y-2 text-xs text-slate-400">
+      <span className="flex items-center gap-1.5" title={t('vad.hint')}>
+        <AudioLines size={14} />
+        {t('vad.silence')}
+      </span>
+      <label className="flex items-center gap-2 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={config.trimSilence}
+          onChange={(e) => onChange({ ...config, trimSilence: e.target.checked })}
+          className="accent-indigo-500"
+        />
+        {t('vad.trimSilence')}
+      </label>
+      <label className="flex items-center gap-2 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={config.removePauses}
+          onChange={(e) => onChange({ ...config, removePauses: e.target.checked })}
+          className="accent-indigo-500"
+        />
+        {t('vad.removePauses')}
+        <input
+          type="number"
+          min={1}
+          max={60}
+          value={config.maxPauseSeconds}
+          disabled={!config.removePauses}
+          onChange={(e) => onChange({ ...config, maxPauseSeconds: clampSeconds(e.target.value, config.maxPauseSeconds) })}
+          className={numberClassName}
+        />
+        {t('vad.seconds')}
+      </label>
+      <label className="flex items-center gap-2" title={t('vad.autoStopHint')}>
+        {t('vad.autoStop')}
+        <input
+          type="number"
+          min={1}
+          max={60}
+          value={config.autoStopSeconds}
+          onChange={(e) => onChange({ ...config, autoStopSeconds: clampSeconds(e.target.value, config.autoStopSeconds) })}
+          className={numberClassName}
+        />
+        {t('vad.autoStopUnit')}
+      </label>
+    </div>
+  );
+};
+
+export default VadSettings;
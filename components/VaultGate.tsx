@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import { AudioWaveform, Lock, Loader2 } from 'lucide-react';
+import {
+  createVault,
+  deleteVault,
+  finishResealing,
+  isAutoLockHeld,
+  isVaultCreated,
+  loadVaultMeta,
+  MIN_PASSPHRASE_LENGTH,
+  unlockVault,
+  VaultPassphraseError,
+} from '../services/vaultService';
+import { deleteAllData, lockStorage, resealStoredData } from '../services/storageService';
+import { describeError } from '../services/i18nService';
+import { useI18n } from './I18nProvider';
+
+interface VaultGateProps {
+  children: React.ReactNode;
+}
+
+type GateState = 'setup' | 'locked' | 'resealing' | 'unlocked';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+const AUTO_LOCK_CHECK_MS = 15000;
+
+const inputClassName = "w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 outline-none focus:border-indigo-500/60";
+
+// Reloading is the only sure way to drop every decrypted copy held in memory:
+// object URLs, decoded audio and component state
+export const lockApp = async () => {
+  await lockStorage();
+  window.location.reload();
+};
+
+// Keeps the app unmounted until the vault is unlocked, so nothing reads
+// storage without the keys, and locks it again after inactivity
+const VaultGate: React.FC<VaultGateProps> = ({ children }) => {
+  const { t } = useI18n();
+  const [state, setState] = useState<GateState>(() => isVaultCreated() ? 'locked' : 'setup');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    if (state !== 'unlocked') return;
+    let lastActivity = Date.now();
+    const markActivity = () => {
+      lastActivity = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach(name => window.addEventListener(name, markActivity, { passive: true }));
+
+    const timer = window.setInterval(() => {
+      const minutes = loadVaultMeta()?.autoLockMinutes;
+      if (!minutes) return;
+      if (isAutoLockHeld()) {
+        lastActivity = Date.now(); // the countdown starts once the hold is released
+        return;
+      }
+      if (Date.now() - lastActivity >= minutes * 60000) lockApp();
+    }, AUTO_LOCK_CHECK_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(name => window.removeEventListener(name, markActivity));
+      window.clearInterval(timer);
+    };
+  }, [state]);
+
+  // Encrypts data left from before the vault existed, or from a passphrase
+  // change that was interrupted, before the app can touch it
+  const openVault = async () => {
+    if (loadVaultMeta()?.resealing) {
+      setState('resealing');
+      await resealStoredData((done, total) => setProgress({ done, total }));
+      finishResealing();
+    }
+    setPassphrase('');
+    setConfirmation('');
+    setState('unlocked');
+  };
+
+  const handleSetup = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(t('vault.passphraseTooShort', { min: MIN_PASSPHRASE_LENGTH }));
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError(t('vault.passphraseMismatch'));
+      return;
+    }
+    setError(null);
+    setIsBusy(true);
+    try {
+      await createVault(passphrase);
+      await openVault();
+    } catch (e) {
+      console.error("Vault setup failed:", e);
+      setError(t('vault.setupFailed'));
+      setState('setup');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = async () => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      await unlockVault(passphrase);
+      await openVault();
+    } catch (e) {
+      if (!(e instanceof VaultPassphraseError)) console.error("Unlock failed:", e);
+      setError(e instanceof VaultPassphraseError ? describeError(e, 'vault.unlockFailed') : t('vault.unlockFailed'));
+      setState('locked');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm(t('vault.resetConfirm'))) return;
+    await deleteAllData();
+    deleteVault();
+    setPassphrase('');
+    setError(null);
+    setState('setup');
+  };
+
+  if (state === 'unlocked') return <>{children}</>;
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-50 p-4 flex items-center justify-center">
+      <div className="w-full max-w-sm bg-slate-900/60 border border-slate-800 rounded-3xl p-6 shadow-2xl flex flex-col gap-4">
+        <div className="flex items-center gap-2 text-indigo-400">
+          <AudioWaveform size={24} />
+          <h1 className="text-xl font-bold">{t('app.title')}</h1>
+        </div>
+
+        {state === 'resealing' ? (
+          <div className="flex flex-col gap-2 text-sm text-slate-300">
+            <span className="flex items-center gap-2">
+              <Loader2 size={16} className="animate-spin" />
+              {progress ? t('vault.resealingProgress', progress) : t('vault.resealing')}
+            </span>
+            <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-indigo-500 transition-all"
+                style={{ width: `${progress ? (progress.done / Math.max(1, progress.total)) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        ) : (
+          <form
+            className="flex flex-col gap-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (state === 'setup') handleSetup();
+              else handleUnlock();
+            }}
+          >
+            <p className="text-sm text-slate-400">
+              {state === 'setup'
+                ? t('vault.setupIntro')
+                : t('vault.lockedIntro')}
+            </p>
+            <input
+              type="password"
+              autoFocus
+              autoComplete={state === 'setup' ? 'new-password' : 'current-password'}
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder={t('vault.passphrase')}
+              className={inputClassName}
+            />
+            {state === 'setup' && (
+              <input
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder={t('vault.repeatPassphrase')}
+                className={inputClassName}
+              />
+            )}
+            {error && <div className="text-sm text-red-400">{error}</div>}
+            <button
+              type="submit"
+              disabled={isBusy || !passphrase}
+              className="flex items-center justify-center gap-2 px-4 py-2 text-sm bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:hover:bg-indigo-600 text-white rounded-lg transition-colors"
+            >
+              {isBusy ? <Loader2 size={16} className="animate-spin" /> : <Lock size={16} />}
+              {state === 'setup' ? t('vault.create') : t('vault.open')}
+            </button>
+            {state === 'locked' && (
+              <button
+                type="button"
+                onClick={handleReset}
+                className="text-xs text-slate-500 hover:text-red-400 transition-colors"
+              >
+                {t('vault.forgot')}
+              </button>
+            )}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VaultGate;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Loader2, Lock, ShieldCheck, X } from 'lucide-react';
+import {
+  AUTO_LOCK_OPTIONS,
+  changePassphrase,
+  finishResealing,
+  holdAutoLock,
+  loadVaultMeta,
+  MIN_PASSPHRASE_LENGTH,
+  setAutoLockMinutes,
+  VaultPassphraseError,
+} from '../services/vaultService';
+import { resealStoredData } from '../services/storageService';
+import { useI18n } from './I18nProvider';
+import { lockApp } from './VaultGate';
+
+interface VaultSettingsProps {
+  onClose: () => void;
+}
+
+const inputClassName = "bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 outline-none focus:border-indigo-500/60";
+
+const VaultSettings: React.FC<VaultSettingsProps> = ({ onClose }) => {
+  const { t } = useI18n();
+  const [autoLock, setAutoLock] = useState(() => loadVaultMeta()?.autoLockMinutes ?? AUTO_LOCK_OPTIONS[1]);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const isChanging = progress !== null;
+
+  const handleAutoLockChange = (minutes: number) => {
+    setAutoLock(minutes);
+    setAutoLockMinutes(minutes);
+  };
+
+  const handleChangePassphrase = async () => {
+    if (next.length < MIN_PASSPHRASE_LENGTH) {
+      setError(t('vault.newPassphraseTooShort', { min: MIN_PASSPHRASE_LENGTH }));
+      return;
+    }
+    if (next !== confirmation) {
+      setError(t('vault.passphraseMismatch'));
+      return;
+    }
+    setError(null);
+    setMessage(null);
+    setProgress({ done: 0, total: 0 });
+    const release = holdAutoLock();
+    try {
+      await changePassphrase(current, next);
+      // New writes already use the new key; an interruption from here on is
+      // finished at the next unlock with the new passphrase
+      await resealStoredData((done, total) => setProgress({ done, total }));
+      finishResealing();
+      setCurrent('');
+      setNext('');
+      setConfirmation('');
+      setMessage(t('vault.changed'));
+    } catch (e) {
+      if (!(e instanceof VaultPassphraseError)) console.error("Passphrase change failed:", e);
+      setError(e instanceof VaultPassphraseError
+        ? t('vault.wrongCurrent')
+        : t('vault.resealFailed'));
+    } finally {
+      release();
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/80 backdrop-blur-sm flex items-start justify-center p-4 overflow-y-auto">
+      <div className="w-full max-w-md bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl p-6 flex flex-col gap-5 my-8">
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-slate-200">
+            <ShieldCheck size={20} className="text-indigo-400" />
+            {t('vault.settingsTitle')}
+          </h2>
+          <button onClick={onClose} disabled={isChanging} className="p-2 text-slate-400 hover:text-slate-200 rounded-full transition-colors disabled:opacity-40" title={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-400">
+          {t('vault.settingsIntro')}
+        </p>
+
+        <div className="flex items-center justify-between gap-3 text-sm text-slate-300">
+          <label className="flex items-center gap-2">
+            {t('vault.autoLock')}
+            <select value={autoLock} onChange={(e) => handleAutoLockChange(Number(e.target.value))} className={inputClassName}>
+              {AUTO_LOCK_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{t('vault.minutes', { count: minutes })}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={lockApp}
+            disabled={isChanging}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm border border-slate-700 hover:border-indigo-500/50 hover:text-indigo-400 rounded-lg transition-colors disabled:opacity-40"
+          >
+            <Lock size={14} /> {t('vault.lock')}
+          </button>
+        </div>
+
+        <form
+          className="flex flex-col gap-2 text-xs text-slate-400"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleChangePassphrase();
+          }}
+        >
+          <span className="font-bold uppercase tracking-wider text-slate-500">{t('vault.changeTitle')}</span>
+          <input type="password" autoComplete="current-password" value={current} onChange={(e) => setCurrent(e.target.value)} placeholder={t('vault.currentPassphrase')} className={inputClassName} />
+          <input type="password" autoComplete="new-password" value={next} onChange={(e) => setNext(e.target.value)} placeholder={t('vault.newPassphrase')} className={inputClassName} />
+          <input type="password" autoComplete="new-password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} placeholder={t('vault.repeatNewPassphrase')} className={inputClassName} />
+          {error && <div className="text-sm text-red-400">{error}</div>}
+          {message && <div className="text-sm text-emerald-400">{message}</div>}
+          {progress && progress.total > 0 && (
+            <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={isChanging || !current || !next}
+            className="self-start flex items-center gap-2 px-3 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:hover:bg-indigo-600 text-white rounded-lg transition-colors"
+          >
+            {isChanging && <Loader2 size={14} className="animate-spin" />}
+            {isChanging ? t('vault.resealing') : t('vault.change')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default VaultSettings;
@@ -0,0 +1,95 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Recording } from '../types';
+import { formatTimestamp } from '../utils/audioUtils';
+import { diffText } from '../utils/diffUtils';
+import { getVersions } from '../utils/versionUtils';
+import { useI18n } from './I18nProvider';
+
+interface VersionHistoryProps {
+  recording: Recording;
+  onRevert: (versionId: string) => void;
+}
+
+const selectClassName = "bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 outline-none";
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ recording, onRevert }) => {
+  const { t } = useI18n();
+  const versions = getVersions(recording);
+  const last = versions.length - 1;
+  const [fromIndex, setFromIndex] = useState(Math.max(0, last - 1));
+  const [toIndex, setToIndex] = useState(last);
+
+  // A new edit or revert: compare it with the version before it
+  useEffect(() => {
+    setFromIndex(Math.max(0, last - 1));
+    setToIndex(last);
+  }, [last]);
+
+  const from = versions[Math.min(fromIndex, last)];
+  const to = versions[Math.min(toIndex, last)];
+  const diff = useMemo(
+    () => (from && to ? diffText(from.text, to.text) : []),
+    [from, to]
+  );
+
+  const versionLabel = (index: number) => {
+    const version = versions[index];
+    const source = t(version.source === 'model' ? 'version.model' : 'version.user');
+    return t('version.label', { index: index + 1, source, date: formatTimestamp(version.createdAt) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-1">
+        {versions.map((version, index) => (
+          <li key={version.id} className="flex items-center justify-between gap-2 text-xs text-slate-400">
+            <span>
+              {versionLabel(index)}
+              {version.note && <span className="text-slate-500"> — {version.note}</span>}
+              {index === last && <span className="text-indigo-400">{t('version.current')}</span>}
+            </span>
+            {index !== last && (
+              <button
+                onClick={() => onRevert(version.id)}
+                className="flex items-center gap-1 px-2 py-1 text-slate-400 hover:text-indigo-300 hover:bg-slate-700 rounded transition-colors flex-shrink-0"
+                title={t('version.revertHint')}
+              >
+                <RotateCcw size={12} />
+                {t('version.revert')}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {versions.length > 1 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+            {t('version.compare')}
+            <select value={fromIndex} onChange={(e) => setFromIndex(Number(e.target.value))} className={selectClassName}>
+              {versions.map((_, i) => <option key={i} value={i}>{versionLabel(i)}</option>)}
+            </select>
+            {t('version.compareWith')}
+            <select value={toIndex} onChange={(e) => setToIndex(Number(e.target.value))} className={selectClassName}>
+              {versions.map((_, i) => <option key={i} value={i}>{versionLabel(i)}</option>)}
+            </select>
+          </div>
+          <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 max-h-60 overflow-y-auto custom-scrollbar text-sm leading-relaxed whitespace-pre-wrap font-light text-slate-300">
+            {diff.map((part, i) =>
+              part.type === 'equal' ? (
+                <span key={i}>{part.text}</span>
+              ) : part.type === 'insert' ? (
+                <ins key={i} className="bg-emerald-500/20 text-emerald-200 no-underline">{part.text}</ins>
+              ) : (
+                <del key={i} className="bg-red-500/20 text-red-300">{part.text}</del>
+              )
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionHistory;
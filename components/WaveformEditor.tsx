@@ -0,0 +1,319 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Crop, Loader2, Pause, Play, Scissors, Split, Undo2 } from 'lucide-react';
+import { Recording, TimeRange } from '../types';
+import { formatBytes, formatDuration } from '../utils/audioUtils';
+import {
+  computePeaks,
+  deleteRegion,
+  EDIT_SAMPLE_RATE,
+  EditableAudio,
+  estimateEncodedSize,
+  getEditDuration,
+  keepRegion,
+  loadEditableAudio,
+  MIN_EDIT_SECONDS,
+  splitAt,
+} from '../utils/audioEditUtils';
+import { canEncodeOpus } from '../utils/oggOpus';
+import { useI18n } from './I18nProvider';
+
+interface WaveformEditorProps {
+  recording: Recording;
+  // One part replaces the recording's audio, two parts replace the recording itself
+  onApply: (parts: EditableAudio[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+const CANVAS_WIDTH = 1000;
+const CANVAS_HEIGHT = 96;
+const DRAG_THRESHOLD_PX = 3;
+
+const WaveformEditor: React.FC<WaveformEditorProps> = ({ recording, onApply, onCancel }) => {
+  const { t } = useI18n();
+  // Every edit pushes a new state, so undo is just a pop; the original blob is untouched until apply
+  const [history, setHistory] = useState<EditableAudio[]>([]);
+  const [splitPoint, setSplitPoint] = useState<number | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selection, setSelection] = useState<TimeRange | null>(null);
+  const [cursor, setCursor] = useState(0);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+  const [isOpusAvailable, setIsOpusAvailable] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; time: number } | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  const current = history[history.length - 1] ?? null;
+  const duration = current ? getEditDuration(current) : 0;
+  const peaks = useMemo(() => (current ? computePeaks(current.samples, CANVAS_WIDTH) : null), [current]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadEditableAudio(recording.blob)
+      .then((audio) => {
+        if (!cancelled) setHistory([audio]);
+      })
+      .catch((error) => {
+        console.error("Error decoding audio for editing:", error);
+        if (!cancelled) setLoadError(t('editor.decodeFailed'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [recording.blob]);
+
+  // Without Opus the edit is saved as WAV, so the size shown and the warning differ
+  useEffect(() => {
+    canEncodeOpus(EDIT_SAMPLE_RATE).then(setIsOpusAvailable);
+  }, []);
+
+  const stopPlayback = () => {
+    if (sourceRef.current) {
+      sourceRef.current.onended = null;
+      sourceRef.current.stop();
+      sourceRef.current = null;
+    }
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    setPlayhead(null);
+  };
+
+  useEffect(() => () => {
+    stopPlayback();
+    audioContextRef.current?.close();
+  }, []);
+
+  // Plays the selection, or everything from the cursor, of the edited audio
+  const startPlayback = () => {
+    if (!current) return;
+    stopPlayback();
+    const context = audioContextRef.current ?? new AudioContext();
+    audioContextRef.current = context;
+
+    const buffer = context.createBuffer(1, current.samples.length, current.sampleRate);
+    buffer.copyToChannel(current.samples, 0);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+
+    const from = selection ? selection.start : cursor;
+    const to = selection ? selection.end : duration;
+    const startedAt = context.currentTime;
+    source.start(0, from, to - from);
+    source.onended = stopPlayback;
+    sourceRef.current = source;
+
+    const tick = () => {
+      setPlayhead(from + context.currentTime - startedAt);
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !peaks) return;
+
+    const toX = (time: number) => (time / duration) * CANVAS_WIDTH;
+    context.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    if (selection) {
+      context.fillStyle = 'rgba(99, 102, 241, 0.25)';
+      context.fillRect(toX(selection.start), 0, toX(selection.end) - toX(selection.start), CANVAS_HEIGHT);
+    }
+
+    const middle = CANVAS_HEIGHT / 2;
+    for (let x = 0; x < peaks.length; x++) {
+      const height = Math.max(1, peaks[x] * CANVAS_HEIGHT * 0.95);
+      const time = (x / CANVAS_WIDTH) * duration;
+      const selected = selection && time >= selection.start && time <= selection.end;
+      context.fillStyle = selected ? '#a5b4fc' : '#6366f1';
+      context.fillRect(x, middle - height / 2, 1, height);
+    }
+
+    const drawLine = (time: number, color: string) => {
+      context.fillStyle = color;
+      context.fillRect(Math.round(toX(time)), 0, 2, CANVAS_HEIGHT);
+    };
+    if (!selection) drawLine(cursor, '#cbd5e1');
+    if (splitPoint !== null) drawLine(splitPoint, '#f59e0b');
+    if (playhead !== null) drawLine(playhead, '#f87171');
+  }, [peaks, duration, selection, cursor, splitPoint, playhead]);
+
+  const timeAt = (clientX: number): number => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, ((clientX - rect.left) / rect.width) * duration));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!current || splitPoint !== null) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, time: timeAt(e.clientX) };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag || Math.abs(e.clientX - drag.x) < DRAG_THRESHOLD_PX) return;
+    const time = timeAt(e.clientX);
+    setSelection({ start: Math.min(drag.time, time), end: Math.max(drag.time, time) });
+  };
+
+  // A click without dragging places the cursor and clears the selection
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || Math.abs(e.clientX - drag.x) >= DRAG_THRESHOLD_PX) return;
+    setSelection(null);
+    setCursor(drag.time);
+  };
+
+  const pushEdit = (next: EditableAudio) => {
+    stopPlayback();
+    setHistory(prev => [...prev, next]);
+    setSelection(null);
+    setCursor(0);
+  };
+
+  const handleUndo = () => {
+    stopPlayback();
+    if (splitPoint !== null) {
+      setSplitPoint(null);
+      return;
+    }
+    setHistory(prev => (prev.length > 1 ? prev.slice(0, -1) : prev));
+    setSelection(null);
+    setCursor(0);
+  };
+
+  const handleApply = async () => {
+    if (!current) return;
+    stopPlayback();
+    const details = {
+      format: t(isOpusAvailable ? 'editor.formatOpus' : 'editor.formatWav'),
+      size: formatBytes(estimateEncodedSize(current, isOpusAvailable)),
+    };
+    const message = splitPoint !== null
+      ? t('editor.splitConfirm', details)
+      : t('editor.applyConfirm', details);
+    if (!window.confirm(message)) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onApply(splitPoint !== null ? splitAt(current, splitPoint) : [current]);
+    } catch (error) {
+      console.error("Error saving edited audio:", error);
+      setSaveError(t('editor.saveFailed'));
+      setIsSaving(false);
+    }
+  };
+
+  if (loadError) {
+    return <div className="text-sm text-red-400 bg-red-400/10 border border-red-400/20 rounded px-3 py-2">{loadError}</div>;
+  }
+
+  if (!current) {
+    return (
+      <div className="flex items-center gap-3 text-indigo-400 text-sm">
+        <Loader2 size={16} className="animate-spin" />
+        {t('editor.decoding')}
+      </div>
+    );
+  }
+
+  const selectionLength = selection ? selection.end - selection.start : 0;
+  const splitTime = selection ? selection.start : cursor;
+  const canKeep = selection !== null && selectionLength >= MIN_EDIT_SECONDS;
+  const canDelete = selection !== null && duration - selectionLength >= MIN_EDIT_SECONDS;
+  const canSplit = splitTime >= MIN_EDIT_SECONDS && duration - splitTime >= MIN_EDIT_SECONDS;
+  const isEdited = history.length > 1 || splitPoint !== null;
+  const toolClassName = "flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-300 hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:pointer-events-none rounded-lg transition-colors";
+
+  return (
+    <div className="space-y-3">
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        className={`w-full h-24 bg-slate-900/60 rounded-lg border border-slate-700/50 touch-none ${splitPoint === null ? 'cursor-crosshair' : ''}`}
+      />
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-slate-400 font-mono">
+        <span>
+          {selection
+            ? `${formatDuration(selection.start)}–${formatDuration(selection.end)} (${formatDuration(selectionLength)})`
+            : t('editor.cursor', { time: formatDuration(cursor) })}
+        </span>
+        <span>
+          {formatDuration(recording.duration)} → {formatDuration(duration)}
+          {splitPoint !== null && ` = ${formatDuration(splitPoint)} + ${formatDuration(duration - splitPoint)}`}
+          {isEdited && `, ${formatBytes(recording.blob.size)} → ~${formatBytes(estimateEncodedSize(current, isOpusAvailable))}`}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <button onClick={playhead === null ? startPlayback : stopPlayback} className={toolClassName} title={t('editor.playHint')}>
+          {playhead === null ? <Play size={14} /> : <Pause size={14} />}
+          {playhead === null ? t('editor.play') : t('editor.stop')}
+        </button>
+        <button
+          onClick={() => selection && pushEdit(keepRegion(current, selection.start, selection.end))}
+          disabled={!canKeep || splitPoint !== null}
+          className={toolClassName}
+          title={t('editor.keepHint')}
+        >
+          <Crop size={14} /> {t('editor.keep')}
+        </button>
+        <button
+          onClick={() => selection && pushEdit(deleteRegion(current, selection.start, selection.end))}
+          disabled={!canDelete || splitPoint !== null}
+          className={toolClassName}
+          title={t('editor.deleteHint')}
+        >
+          <Scissors size={14} /> {t('editor.delete')}
+        </button>
+        <button
+          onClick={() => {
+            stopPlayback();
+            setSplitPoint(splitTime);
+            setSelection(null);
+          }}
+          disabled={!canSplit || splitPoint !== null}
+          className={toolClassName}
+          title={t('editor.splitHint')}
+        >
+          <Split size={14} /> {t('editor.split')}
+        </button>
+        <button onClick={handleUndo} disabled={!isEdited} className={toolClassName} title={t('editor.undoHint')}>
+          <Undo2 size={14} /> {t('editor.undo')}
+        </button>
+
+        <div className="flex gap-2 ml-auto">
+          <button onClick={onCancel} disabled={isSaving} className="px-3 py-1.5 text-sm text-slate-400 hover:text-slate-200 disabled:opacity-40 rounded-lg transition-colors">
+            {t('common.close')}
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!isEdited || isSaving}
+            className="flex items-center gap-2 px-4 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:pointer-events-none text-white rounded-lg transition-colors font-medium"
+          >
+            {isSaving && <Loader2 size={14} className="animate-spin" />}
+            {isSaving ? t('editor.saving') : t('editor.apply')}
+          </button>
+        </div>
+      </div>
+
+      {saveError && (
+        <div className="text-sm text-red-400 bg-red-400/10 border border-red-400/20 rounded px-3 py-2">{saveError}</div>
+      )}
+    </div>
+  );
+};
+
+export default WaveformEditor;
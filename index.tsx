@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import VaultGate from './components/VaultGate';
+import { I18nProvider } from './components/I18nProvider';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,6 +12,10 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <I18nProvider>
+      <VaultGate>
+        <App />
+      </VaultGate>
+    </I18nProvider>
   </React.StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,522 @@
+import { Catalog } from "../services/i18nService";
+
+const en: Catalog = {
+  'common.close': 'Close',
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+  'common.restore': 'Restore',
+  'common.retry': 'Retry',
+
+  'units.bytes': 'B',
+  'units.kilobytes': 'KB',
+  'units.megabytes': 'MB',
+  'units.gigabytes': 'GB',
+
+  'app.title': 'Gemini Dictaphone',
+  'app.subtitle': 'Record your thoughts or upload audio files for instant AI transcription.',
+  'app.storageSaveFailed': 'Could not save the recording to browser storage.',
+  'app.storageLoadFailed': 'Could not load saved recordings.',
+  'app.settings': 'Transcription and recording settings',
+  'app.glossaries': 'Glossaries ({active} of {total} enabled)',
+  'app.templates': 'Document templates',
+  'app.matters': 'Matters and clients ({count})',
+  'app.vault': 'Data protection',
+  'app.backup': 'Backup',
+
+  'recorder.micDenied': 'Microphone access was denied. Please allow access to record.',
+  'recorder.startFailed': 'Could not start recording.',
+  'recorder.liveIncomplete': 'Live transcription is incomplete: {message} Transcribe the whole recording.',
+  'recorder.recoveredName': 'Recovered recording',
+  'recorder.dropHint': 'Drop files or folders to import',
+  'recorder.dropFailed': 'Could not read the dropped files.',
+  'recorder.paused': 'Paused',
+  'recorder.waitingForSpeech': 'Waiting for speech',
+  'recorder.cancelWaiting': 'Stop waiting for speech',
+  'recorder.start': 'Start recording',
+  'recorder.resume': 'Resume recording',
+  'recorder.pause': 'Pause',
+  'recorder.stop': 'Stop recording',
+  'recorder.upload': 'Upload files (MP3, M4A, OGG, WAV, FLAC)',
+  'recorder.uploadHint': 'You can also drag files or folders here',
+  'recorder.liveMode': 'Transcribe while recording ({provider})',
+  'recorder.liveModeHint': 'Text appears during recording and is attached to it once stopped',
+  'recorder.voiceMode': 'Voice activation',
+  'recorder.voiceModeHint': 'Recording starts when speech is heard and stops after {seconds} s of silence',
+  'recorder.matterHint': 'New and uploaded recordings go to this matter',
+  'recorder.interrupted': 'Found an interrupted recording from {date} ({duration}, {size})',
+  'recorder.ready': 'Ready to record',
+
+  'library.title': 'Your recordings',
+  'library.storageUsage': '{used} of {total} used',
+  'library.storageHint': 'Browser storage',
+  'library.recordingCount': { one: '{count} recording', other: '{count} recordings' },
+  'library.empty': 'No recordings yet. Press the microphone or upload a file.',
+  'library.noResults': 'Nothing found. Change the query or filters.',
+  'library.queueActive': 'Transcription: {running} running, {queued} queued',
+  'library.untranscribed': 'Not transcribed: {count}',
+  'library.transcribeAll': 'Transcribe all ({count})',
+  'library.cancelAll': 'Cancel all',
+  'library.selected': 'Selected: {count}',
+  'library.export': 'Export',
+  'library.exportSkipped': {
+    one: 'Skipped {count} recording without a suitable transcript.',
+    other: 'Skipped {count} recordings without a suitable transcript.',
+  },
+  'library.clearSelection': 'Clear selection',
+  'library.allRecordings': 'All recordings',
+  'library.archivedMatter': '{name} (archived)',
+  'library.openMatter': 'Open matter',
+  'library.noMatter': 'No matter',
+  'library.processFailed': 'Could not process the audio.',
+  'library.analyzeFailed': 'Could not analyze the audio.',
+
+  'recording.select': 'Select for export',
+  'recording.analyzeSpeech': 'Show where the recording has speech and where silence',
+  'recording.editAudio': 'Trim, cut or split the audio',
+  'recording.noClient': 'No client',
+  'recording.matches': 'Matches:',
+  'recording.moreMatches': 'and {count} more',
+  'recording.sizeHint': 'Size of the original recording and of the copy prepared for upload',
+  'recording.compare': 'Compare by ear',
+  'recording.original': 'A: original',
+  'recording.processed': 'B: processed',
+  'recording.preprocess': 'Prepare for upload',
+  'recording.preprocessHint': 'Prepare a copy for upload with the current processing settings and compare it with the original',
+  'recording.transcriptionFailed': 'Could not transcribe.',
+  'recording.transcriptionError': 'Transcription error.',
+  'recording.noTranscript': 'No transcript yet.',
+  'recording.diarize': 'Separate speakers',
+  'recording.diarizeHint': 'Label each passage with its speaker',
+  'recording.transcribe': 'Transcribe',
+  'recording.queued': 'Queued for transcription...',
+  'recording.retrying': 'Service error, retry {attempt}...',
+  'recording.transcribing': 'Transcribing ({provider})...',
+  'recording.chunkProgress': 'Part {current} of {total}',
+  'recording.cancelTranscription': 'Cancel transcription',
+  'recording.chunkFailed': 'Part {index} ({start}–{end})',
+  'recording.retryChunk': 'Retry this part',
+  'recording.transcript': 'Transcript',
+  'recording.history': 'Version history',
+  'recording.documents': 'Documents',
+  'recording.redaction': 'Redaction',
+  'recording.edit': 'Edit',
+  'recording.retranscribe': 'Transcribe again',
+  'recording.retranscribeConfirm': 'The transcript has manual edits. The new transcription will become the current version and the edits will stay in the version history. Continue?',
+  'recording.retranscribeFailed': 'Re-transcription failed: {message} The previous transcript is kept.',
+  'recording.copy': 'Copy to clipboard',
+  'recording.noSpeech': 'No speech recognized.',
+
+  'player.play': 'Play',
+  'player.pause': 'Pause',
+  'player.position': 'Playback position',
+  'player.back': 'Back {seconds} s',
+  'player.forward': 'Forward {seconds} s',
+  'player.rate': 'Playback speed',
+  'player.volume': 'Volume',
+  'player.mute': 'Mute',
+  'player.unmute': 'Unmute',
+  'player.shortcutsActive': 'Keyboard shortcuts control this recording. See the list in the settings.',
+  'player.shortcutToggle': 'Play and pause',
+  'player.shortcutSlower': 'Slower',
+  'player.shortcutFaster': 'Faster',
+  'player.shortcutNormalSpeed': 'Normal speed',
+
+  'bookmarks.add': 'Bookmark',
+  'bookmarks.addHint': 'Mark an important moment ({keys})',
+  'bookmarks.addHere': 'Add a bookmark at the current position',
+  'bookmarks.notePlaceholder': 'Note (optional)',
+  'bookmarks.editNote': 'Edit note',
+  'bookmarks.seek': 'Go to bookmark',
+  'bookmarks.delete': 'Delete bookmark',
+
+  'redaction.summary': 'Found: {found}, not reviewed: {pending}',
+  'redaction.detectNames': 'Find names with Gemini',
+  'redaction.detectNamesHint': 'The transcript text will be sent to Gemini',
+  'redaction.detectNamesConfirm': 'The full transcript, personal data included, will be sent to Gemini. Continue?',
+  'redaction.detectNamesFailed': 'Could not find names.',
+  'redaction.namesFound': {
+    one: 'The model found {count} new mention.',
+    other: 'The model found {count} new mentions.',
+  },
+  'redaction.acceptRest': 'Hide all unreviewed',
+  'redaction.none': 'No personal data found.',
+  'redaction.fromModel': 'model',
+  'redaction.accept': 'Hide in the copy',
+  'redaction.reject': 'Keep as is',
+  'redaction.reviewFirst': 'Review every hit to get the redacted copy.',
+  'redaction.originalKept': 'The original transcript stays unchanged.',
+  'redaction.copy': 'Copy the redacted text',
+  'redaction.export': 'Redacted copy',
+  'redaction.fileName': '{name} (redacted)',
+  'redaction.kindName': 'Name',
+  'redaction.kindPhone': 'Phone',
+  'redaction.kindPassport': 'Passport',
+  'redaction.kindSnils': 'SNILS',
+  'redaction.kindInn': 'INN',
+  'redaction.kindAddress': 'Address',
+  'redaction.kindCard': 'Card',
+  'redaction.kindAccount': 'Account',
+  'redaction.kindEmail': 'Email',
+
+  'settings.title': 'Settings',
+  'settings.interface': 'Interface',
+  'settings.interfaceLanguage': 'Interface language',
+  'settings.interfaceLanguageHint': 'Does not affect the transcription language',
+  'settings.transcription': 'Transcription',
+  'settings.model': 'Gemini model',
+  'settings.temperature': 'Temperature',
+  'settings.temperatureHint': 'The lower, the more literal the transcript',
+  'settings.language': 'Speech language',
+  'settings.languageHint': 'Used by both Gemini and the Whisper server',
+  'settings.languageAuto': 'Detect automatically',
+  'settings.prompt': 'Prompt',
+  'settings.builtInPrompt': 'Standard transcription',
+  'settings.duplicatePrompt': 'Create a prompt based on this one',
+  'settings.deletePrompt': 'Delete prompt',
+  'settings.deletePromptConfirm': 'Delete the prompt “{name}”?',
+  'settings.promptName': 'Name',
+  'settings.promptCopyName': '{name} (copy)',
+  'settings.promptNote': 'Instructions about timestamps, language, speakers and glossary terms are added to the prompt automatically.',
+  'settings.recording': 'Recording',
+  'settings.microphone': 'Microphone',
+  'settings.defaultMicrophone': 'System default',
+  'settings.microphoneFallback': 'Microphone {index}',
+  'settings.disconnectedMicrophone': 'Disconnected microphone',
+  'settings.missingMicrophone': 'The selected microphone was not found; the default microphone will be used.',
+  'settings.format': 'Format',
+  'settings.browserFormat': 'Browser default',
+  'settings.bitrate': 'Bitrate',
+  'settings.browserBitrate': 'Browser default',
+  'settings.bitrateValue': '{value} kbps',
+  'settings.echoCancellation': 'Echo cancellation',
+  'settings.noiseSuppression': 'Noise suppression',
+  'settings.autoGainControl': 'Automatic gain',
+  'settings.playback': 'Playback',
+  'settings.autoRewind': 'Rewind on pause while editing the transcript',
+  'settings.autoRewindOff': 'No rewind',
+  'settings.autoRewindValue': '{seconds} s',
+  'settings.shortcuts': 'Keyboard shortcuts (also work while typing)',
+  'settings.visualizerBars': 'Bars in the level meter',
+  'settings.reset': 'Reset settings',
+  'settings.resetConfirm': 'Restore all settings to their defaults? Your own prompts will be deleted.',
+
+  'backup.title': 'Backup',
+  'backup.save': 'Save to archive',
+  'backup.wholeLibrary': 'Whole library ({count})',
+  'backup.selected': 'Selected ({count})',
+  'backup.unencrypted': 'The archive is not encrypted: it holds the audio and transcripts in the clear. Keep it somewhere safe.',
+  'backup.restoreFrom': 'Restore from archive',
+  'backup.chooseArchive': 'Choose archive...',
+  'backup.summary': 'Archive from {date}: {count} recordings, {duplicates} of them already in the library.',
+  'backup.summaryRejected': 'Archive from {date}: {count} recordings, {duplicates} of them already in the library, {rejected} unreadable.',
+  'backup.unknownDate': 'an unknown date',
+  'backup.forAllDuplicates': 'For all matches:',
+  'backup.sameRecording': 'Same recording as “{title}”',
+  'backup.sameAudio': 'Same audio as “{title}”',
+  'backup.skip': 'Skip',
+  'backup.overwrite': 'Replace',
+  'backup.keepBoth': 'Keep both',
+  'backup.restore': 'Restore',
+  'backup.added': 'Added',
+  'backup.overwritten': 'Replaced',
+  'backup.copied': 'Added as copies',
+  'backup.skipped': 'Skipped',
+  'backup.rejected': 'Not restored',
+  'backup.mattersAdded': 'Matters added: {matters}, clients: {clients}.',
+  'backup.empty': 'The archive has no recordings.',
+  'backup.createFailed': 'Could not create the archive.',
+  'backup.readFailed': 'Could not read the archive.',
+  'backup.untitled': 'Recording {date}',
+  'backup.numbered': 'Recording {index}',
+  'backup.errorNoManifest': 'The backup archive is invalid: manifest.json is missing.',
+  'backup.errorManifestJson': 'The backup archive is invalid: manifest.json is not JSON.',
+  'backup.errorFormat': 'The backup archive is invalid: unknown format.',
+  'backup.errorVersion': 'The backup archive is invalid: version {version} is not supported, update the app.',
+  'backup.rejectNotObject': 'the entry is not an object',
+  'backup.rejectNoId': 'no id',
+  'backup.rejectNoDate': 'no recording date',
+  'backup.rejectNoDuration': 'no duration',
+  'backup.rejectNoAudio': 'no reference to the audio',
+  'backup.rejectSegments': 'transcript segments are damaged',
+  'backup.rejectVersions': 'version history is damaged',
+  'backup.rejectChunks': 'transcription parts are damaged',
+  'backup.rejectDocuments': 'documents are damaged',
+  'backup.rejectSpeech': 'speech map is damaged',
+  'backup.rejectDuplicate': 'appears twice in the archive',
+  'backup.rejectMissingAudio': 'the audio file is missing from the archive',
+  'backup.rejectDamagedAudio': 'the audio file is damaged',
+  'zip.errorNoDirectory': 'The archive is damaged or not a ZIP: no central directory found.',
+  'zip.errorDirectory': 'The archive is damaged or not a ZIP: the central directory is damaged.',
+  'zip.errorEntry': 'The archive is damaged or not a ZIP: entry “{name}” is damaged.',
+  'zip.errorTruncated': 'The archive is damaged or not a ZIP: entry “{name}” is truncated.',
+  'zip.errorMethod': 'The archive is damaged or not a ZIP: compression method {method} in “{name}” is not supported.',
+  'zip.errorChecksum': 'The archive is damaged or not a ZIP: checksum of “{name}” does not match.',
+  'zip.errorTooManyFiles': 'The archive is too large for the ZIP format: {count} files, the limit is {max}.',
+  'zip.errorTooLarge': 'The archive is too large for the ZIP format: the data exceeds 4 GB, save fewer recordings.',
+
+  'backup.copyName': '{name} (copy)',
+
+  'storage.errorQuota': 'Not enough space in browser storage. Delete recordings you no longer need to save new ones.',
+  'audio.errorUnreadable': 'The browser cannot read this file: the format is not supported or the file is damaged.',
+  'audio.errorDuration': 'Could not read the length of the file.',
+  'import.errorEmpty': 'Empty file.',
+  'import.errorNotAudio': 'Not an audio file ({type}).',
+  'import.unknownType': 'unknown type',
+  'import.errorUnsupported': 'Unsupported format or damaged file.',
+  'import.errorSilent': 'The file contains no sound.',
+  'import.errorRead': 'Could not read the file.',
+  'vault.errorPassphrase': 'Wrong passphrase.',
+  'vault.errorNotCreated': 'The vault has not been created.',
+  'vault.errorLocked': 'The vault is locked.',
+  'vault.errorUnknownKey': 'The data is encrypted with an unknown key.',
+  'transcript.errorNotJson': 'The model returned the transcript in a wrong format: the response is not JSON.',
+  'transcript.errorNoSegments': 'The model returned the transcript in a wrong format: the list of segments is missing.',
+  'transcript.errorSegment': 'The model returned the transcript in a wrong format: segment {index} is invalid.',
+  'transcript.errorNoText': 'The model returned the transcript in a wrong format: the text is missing.',
+  'transcript.errorChunks': 'Could not transcribe {failed} of {total} segments.',
+  'gemini.errorService': 'Gemini error: {detail}',
+  'gemini.errorTranscribe': 'Could not transcribe the audio.',
+  'gemini.errorDocumentFormat': 'The model returned the document in an unexpected format.',
+  'gemini.errorDocument': 'Could not draft the document.',
+  'gemini.errorNamesFormat': 'The model returned the list of names in an unexpected format.',
+  'gemini.errorNames': 'Could not find names.',
+  'whisper.errorUnreachable': 'The transcription server is unreachable: {url}',
+  'whisper.errorStatus': 'The transcription server returned error {status}: {detail}',
+  'glossary.errorNoName': 'The glossary file is invalid: glossary {index} has no name.',
+  'glossary.errorTerm': 'The glossary file is invalid: term {index} in “{name}” has no spelling.',
+  'glossary.errorRule': 'The glossary file is invalid: rule {index} in “{name}” is invalid.',
+  'glossary.errorJson': 'The glossary file is invalid: it is not JSON.',
+  'glossary.errorFormat': 'The glossary file is invalid: unknown format.',
+  'glossary.errorVersion': 'The glossary file is invalid: version {version} is not supported.',
+
+  'provider.gemini': 'Gemini',
+  'provider.whisper': 'Whisper (local server)',
+  'provider.mock': 'Test (offline)',
+
+  'glossary.defaultName': 'General',
+  'glossary.title': 'Glossaries',
+  'glossary.newName': 'New glossary',
+  'glossary.deleteConfirm': 'Delete the glossary “{name}”?',
+  'glossary.import': 'Import',
+  'glossary.importHint': 'Import from JSON',
+  'glossary.export': 'Export',
+  'glossary.exportHint': 'Export all glossaries to JSON',
+  'glossary.importFailed': 'Could not read the glossary file.',
+  'glossary.add': 'Glossary',
+  'glossary.name': 'Name',
+  'glossary.matter': 'Matter (“No matter” makes the glossary general)',
+  'glossary.enabled': 'Apply when transcribing',
+  'glossary.legalNumbers': '“статья сто пятьдесят девять” → “ст. 159”',
+  'glossary.terms': 'Terms and names',
+  'glossary.termPlaceholder': 'Spelling',
+  'glossary.variantsPlaceholder': 'How the model gets it wrong, comma-separated',
+  'glossary.notePlaceholder': 'Note',
+  'glossary.deleteTerm': 'Delete term',
+  'glossary.addTerm': 'Term',
+  'glossary.rules': 'Replacement rules',
+  'glossary.patternPlaceholder': 'Find',
+  'glossary.invalidRegex': 'Invalid regular expression',
+  'glossary.replacementPlaceholder': 'Replace with',
+  'glossary.regexHint': 'Regular expression',
+  'glossary.deleteRule': 'Delete rule',
+  'glossary.addRule': 'Rule',
+  'glossary.delete': 'Delete glossary',
+
+  'import.progress': 'Importing: {name}',
+  'import.finishing': 'finishing...',
+  'import.imported': 'Files imported: {count}',
+  'import.rejected': ', rejected: {count}',
+  'import.dismiss': 'Dismiss',
+
+  'search.statusIdle': 'Not transcribed',
+  'search.statusLoading': 'In progress',
+  'search.statusSuccess': 'Transcribed',
+  'search.statusError': 'Failed',
+  'search.sortRelevance': 'By relevance',
+  'search.sortNewest': 'Newest first',
+  'search.sortOldest': 'Oldest first',
+  'search.sortLongest': 'Longest first',
+  'search.sortShortest': 'Shortest first',
+  'search.sortName': 'By name',
+  'search.placeholder': 'Search names and transcripts',
+  'search.filters': 'Filters and sorting',
+  'search.reset': 'Clear search and filters',
+  'search.dateFrom': 'From date',
+  'search.dateTo': 'To date',
+  'search.status': 'Status',
+  'search.all': 'All',
+  'search.minMinutes': 'Length from, min',
+  'search.maxMinutes': 'to, min',
+  'search.tag': 'Tag',
+  'search.matter': 'Matter',
+  'search.sort': 'Sort',
+  'search.resultCount': 'Recordings found: {count}',
+
+  'matter.noClient': 'No client',
+  'matter.title': 'Matters and clients',
+  'matter.newMatter': 'New matter',
+  'matter.namePlaceholder': 'For example, А40-12345/2026 — debt recovery',
+  'matter.client': 'Client',
+  'matter.clientUnset': 'Not set',
+  'matter.newClientOption': 'New client...',
+  'matter.newClientName': 'New client',
+  'matter.clientName': 'Client name',
+  'matter.create': 'Create',
+  'matter.matters': 'Matters',
+  'matter.showArchived': 'Show archive ({count})',
+  'matter.noMatters': 'No matters yet.',
+  'matter.recordingCount': 'recordings: {count}',
+  'matter.unarchive': 'Restore from archive',
+  'matter.archive': 'Archive',
+  'matter.clients': 'Clients',
+  'matter.addClient': 'Client',
+  'matter.noClients': 'No clients yet.',
+  'matter.matterCount': 'matters: {count}',
+
+  'template.newName': 'New template',
+  'template.copyName': '{name} (copy)',
+  'template.deleteConfirm': 'Delete the template “{name}”? Documents already drafted will stay.',
+  'template.title': 'Document templates',
+  'template.untitled': 'Untitled',
+  'template.add': 'Template',
+  'template.builtIn': 'A built-in template cannot be changed, but you can make a copy of it.',
+  'template.duplicate': 'Copy',
+  'template.name': 'Name',
+  'template.description': 'Purpose and style of the document',
+  'template.sections': 'Sections',
+  'template.sectionTitle': 'Heading',
+  'template.sectionInstructions': 'What the section should contain',
+  'template.moveUp': 'Move up',
+  'template.moveDown': 'Move down',
+  'template.deleteSection': 'Delete section',
+  'template.addSection': 'Section',
+  'template.delete': 'Delete template',
+
+  'vault.passphraseTooShort': 'The passphrase must be at least {min} characters long.',
+  'vault.passphraseMismatch': 'The passphrases do not match.',
+  'vault.setupFailed': 'Could not encrypt the data. Please try again.',
+  'vault.unlockFailed': 'Could not open the vault.',
+  'vault.resetConfirm': 'Recordings cannot be recovered without the passphrase. Delete all recordings and create a new vault?',
+  'vault.resealing': 'Encrypting recordings...',
+  'vault.resealingProgress': 'Encrypting recordings: {done} of {total}',
+  'vault.setupIntro': 'Recordings and transcripts are stored encrypted in the browser. Choose a passphrase — without it they cannot be read. A forgotten passphrase cannot be recovered.',
+  'vault.lockedIntro': 'The vault is locked. Enter the passphrase to open your recordings.',
+  'vault.passphrase': 'Passphrase',
+  'vault.repeatPassphrase': 'Repeat the passphrase',
+  'vault.create': 'Create vault',
+  'vault.open': 'Open',
+  'vault.forgot': 'Forgot the passphrase? Delete all data',
+  'vault.newPassphraseTooShort': 'The new passphrase must be at least {min} characters long.',
+  'vault.changed': 'The passphrase has been changed and recordings re-encrypted.',
+  'vault.wrongCurrent': 'The current passphrase is wrong.',
+  'vault.resealFailed': 'Could not re-encrypt the recordings. This will finish at the next unlock.',
+  'vault.settingsTitle': 'Data protection',
+  'vault.settingsIntro': 'Recordings, transcripts and documents are stored encrypted (AES-GCM); the key is opened only by your passphrase.',
+  'vault.autoLock': 'Lock after inactivity',
+  'vault.minutes': '{count} min',
+  'vault.lock': 'Lock',
+  'vault.changeTitle': 'Change passphrase',
+  'vault.currentPassphrase': 'Current passphrase',
+  'vault.newPassphrase': 'New passphrase',
+  'vault.repeatNewPassphrase': 'Repeat the new passphrase',
+  'vault.change': 'Change passphrase',
+
+  'vad.hint': 'Processing before the audio is sent for transcription; the recording itself is not changed',
+  'vad.silence': 'Silence:',
+  'vad.trimSilence': 'trim at the start and end',
+  'vad.removePauses': 'remove pauses longer than',
+  'vad.seconds': 's',
+  'vad.autoStopHint': 'For voice-activated recording',
+  'vad.autoStop': 'auto-stop after',
+  'vad.autoStopUnit': 's of silence',
+  'provider.label': 'Transcription:',
+  'provider.concurrencyHint': 'How many recordings are transcribed at once',
+  'provider.concurrency': 'In parallel:',
+  'provider.localHint': 'Audio is not sent to external services',
+  'provider.local': 'Audio stays in your network',
+  'provider.whisperUrl': 'Server address, e.g. http://localhost:8000',
+  'provider.whisperModel': 'Model',
+  'provider.whisperApiKey': 'API key (optional)',
+
+  'preprocessing.normalize': 'even out volume',
+  'preprocessing.normalizeHint': 'Raises quiet speech to a standard level',
+  'preprocessing.highPass': 'cut rumble',
+  'preprocessing.highPassHint': 'Filter below 80 Hz: rumble, vibration, bumps on the microphone',
+  'preprocessing.noiseGate': 'soften background',
+  'preprocessing.noiseGateHint': 'Attenuates stretches where only background noise is heard',
+  'preprocessing.hint': 'Before sending, audio is mixed to 16 kHz mono and compressed; the recording itself is not changed',
+  'preprocessing.enabled': 'Processing before sending:',
+
+  'document.sendConfirm': 'The transcript text will be sent to Gemini. Continue?',
+  'document.failed': 'Could not draft the document.',
+  'document.sendHint': 'The transcript text will be sent to Gemini',
+  'document.generate': 'Draft',
+  'document.localProvider': 'Documents are drafted by Gemini, but a local provider is selected: the transcript text does not leave the device.',
+  'document.none': 'No documents yet.',
+  'document.noneHint': ' Pick a template and click “Draft”.',
+  'document.copy': 'Copy to clipboard',
+  'document.download': 'Download (Markdown)',
+  'document.delete': 'Delete document',
+  'version.model': 'Model',
+  'version.user': 'Edit',
+  'version.label': '{index}. {source}, {date}',
+  'version.current': ' (current)',
+  'version.revertHint': 'Make this version current',
+  'version.revert': 'Restore',
+  'version.compare': 'Compare',
+  'version.compareWith': 'with',
+  'version.revertNote': 'Reverted to version {index}',
+  'version.editNote': 'Audio edited',
+  'version.splitNote': 'Recording split',
+  'edit.partName': '{name} (part {index})',
+  'edit.untitled': 'Recording',
+
+  'tags.remove': 'Remove tag',
+  'tags.placeholder': 'New tag',
+  'tags.add': 'Add tag',
+  'tags.addShort': 'Tag',
+  'speech.range': 'Speech {start}–{end}',
+  'speech.shareHint': 'Share of speech in the recording',
+  'speech.share': 'Speech {share}%',
+  'export.title': 'Export',
+  'export.needsTimestamps': 'Needs a transcript with timestamps',
+  'export.txt': 'Text (TXT)',
+  'export.md': 'Markdown (MD)',
+  'export.docx': 'Word (DOCX)',
+  'export.srt': 'Subtitles (SRT)',
+  'export.vtt': 'Subtitles (WebVTT)',
+  'live.waiting': 'Speak — the text will appear in a few seconds...',
+  'live.failedWindow': '[segment not recognized] ',
+
+  'editor.decodeFailed': 'Could not decode audio in this format.',
+  'editor.splitConfirm': 'The recording will be replaced by two new ones and the original audio deleted. The parts will be saved as {format}, about {size} together. The version history, documents and text without timestamps stay with the first part. Continue?',
+  'editor.applyConfirm': 'The original audio will be replaced by the edited one ({format}, about {size}). Continue?',
+  'editor.formatOpus': 'Opus, mono 16 kHz',
+  'editor.formatWav': 'uncompressed WAV: this browser cannot encode Opus',
+  'editor.saving': 'Saving...',
+  'editor.saveFailed': 'Could not save the edited audio.',
+  'editor.decoding': 'Decoding audio...',
+  'editor.cursor': 'Cursor {time}',
+  'editor.playHint': 'Play the selection or from the cursor',
+  'editor.play': 'Play',
+  'editor.stop': 'Stop',
+  'editor.keepHint': 'Trim everything except the selection',
+  'editor.keep': 'Keep',
+  'editor.deleteHint': 'Delete the selected region',
+  'editor.delete': 'Cut',
+  'editor.splitHint': 'Split into two recordings at the cursor or the start of the selection',
+  'editor.split': 'Split',
+  'editor.undoHint': 'Undo the last action',
+  'editor.undo': 'Undo',
+  'editor.apply': 'Apply',
+
+  'transcript.speaker': 'Speaker {speaker}',
+  'transcript.speakerPlaceholder': 'Speaker name',
+  'transcript.renameSpeaker': 'Rename throughout the recording',
+  'transcript.seek': 'Go to this point',
+  'transcript.seekBookmark': 'Go to the marker',
+  'transcript.cancel': 'Cancel',
+  'transcript.save': 'Save edits',
+};
+
+export default en;
@@ -0,0 +1,525 @@
+// Russian is the source catalog: its keys define what every other locale must translate
+const ru = {
+  'common.close': 'Закрыть',
+  'common.cancel': 'Отменить',
+  'common.delete': 'Удалить',
+  'common.restore': 'Восстановить',
+  'common.retry': 'Повторить',
+
+  'units.bytes': 'Б',
+  'units.kilobytes': 'КБ',
+  'units.megabytes': 'МБ',
+  'units.gigabytes': 'ГБ',
+
+  'app.title': 'Gemini Диктофон',
+  'app.subtitle': 'Записывайте свои мысли или загружайте аудиофайлы для мгновенной расшифровки с помощью ИИ.',
+  'app.storageSaveFailed': 'Не удалось сохранить запись в хранилище браузера.',
+  'app.storageLoadFailed': 'Не удалось загрузить сохраненные записи.',
+  'app.settings': 'Настройки распознавания и записи',
+  'app.glossaries': 'Глоссарии ({active} из {total} включены)',
+  'app.templates': 'Шаблоны документов',
+  'app.matters': 'Дела и клиенты ({count})',
+  'app.vault': 'Защита данных',
+  'app.backup': 'Резервная копия',
+
+  'recorder.micDenied': 'Доступ к микрофону запрещен. Пожалуйста, разрешите доступ для записи.',
+  'recorder.startFailed': 'Не удалось начать запись.',
+  'recorder.liveIncomplete': 'Живая расшифровка неполна: {message} Расшифруйте запись целиком.',
+  'recorder.recoveredName': 'Восстановленная запись',
+  'recorder.dropHint': 'Отпустите файлы или папки для импорта',
+  'recorder.dropFailed': 'Не удалось прочитать перетащенные файлы.',
+  'recorder.paused': 'Пауза',
+  'recorder.waitingForSpeech': 'Ожидание речи',
+  'recorder.cancelWaiting': 'Отменить ожидание речи',
+  'recorder.start': 'Начать запись',
+  'recorder.resume': 'Продолжить запись',
+  'recorder.pause': 'Пауза',
+  'recorder.stop': 'Остановить запись',
+  'recorder.upload': 'Загрузить файлы (MP3, M4A, OGG, WAV, FLAC)',
+  'recorder.uploadHint': 'Можно также перетащить сюда файлы или папки',
+  'recorder.liveMode': 'Расшифровывать во время записи ({provider})',
+  'recorder.liveModeHint': 'Текст появляется во время записи и прикрепляется к ней после остановки',
+  'recorder.voiceMode': 'Включаться голосом',
+  'recorder.voiceModeHint': 'Запись начинается, когда слышна речь, и останавливается после {seconds} с тишины',
+  'recorder.matterHint': 'Новые и загруженные записи попадут в это дело',
+  'recorder.interrupted': 'Найдена прерванная запись от {date} ({duration}, {size})',
+  'recorder.ready': 'Готов к записи',
+
+  'library.title': 'Ваши записи',
+  'library.storageUsage': 'Занято {used} из {total}',
+  'library.storageHint': 'Объем хранилища браузера',
+  'library.recordingCount': { one: '{count} запись', few: '{count} записи', many: '{count} записей', other: '{count} записи' },
+  'library.empty': 'Записей пока нет. Нажмите на микрофон или загрузите файл.',
+  'library.noResults': 'Ничего не найдено. Измените запрос или фильтры.',
+  'library.queueActive': 'Расшифровка: выполняется {running}, в очереди {queued}',
+  'library.untranscribed': 'Без расшифровки: {count}',
+  'library.transcribeAll': 'Расшифровать все ({count})',
+  'library.cancelAll': 'Отменить все',
+  'library.selected': 'Выбрано: {count}',
+  'library.export': 'Экспорт',
+  'library.exportSkipped': {
+    one: 'Пропущена {count} запись без подходящей транскрипции.',
+    few: 'Пропущены {count} записи без подходящей транскрипции.',
+    many: 'Пропущено {count} записей без подходящей транскрипции.',
+    other: 'Пропущено {count} записи без подходящей транскрипции.',
+  },
+  'library.clearSelection': 'Снять выделение',
+  'library.allRecordings': 'Все записи',
+  'library.archivedMatter': '{name} (архив)',
+  'library.openMatter': 'Открыть дело',
+  'library.noMatter': 'Без дела',
+  'library.processFailed': 'Не удалось обработать аудио.',
+  'library.analyzeFailed': 'Не удалось проанализировать аудио.',
+
+  'recording.select': 'Выбрать для экспорта',
+  'recording.analyzeSpeech': 'Показать, где в записи речь, а где тишина',
+  'recording.editAudio': 'Обрезать, вырезать или разделить аудио',
+  'recording.noClient': 'Клиент не указан',
+  'recording.matches': 'Совпадения:',
+  'recording.moreMatches': 'и еще {count}',
+  'recording.sizeHint': 'Размер исходной записи и подготовленной к отправке копии',
+  'recording.compare': 'Сравнить на слух',
+  'recording.original': 'A: исходник',
+  'recording.processed': 'B: обработка',
+  'recording.preprocess': 'Подготовить к отправке',
+  'recording.preprocessHint': 'Подготовить копию для отправки с текущими настройками обработки и сравнить с исходником',
+  'recording.transcriptionFailed': 'Не удалось транскрибировать.',
+  'recording.transcriptionError': 'Ошибка транскрипции.',
+  'recording.noTranscript': 'Транскрипция отсутствует.',
+  'recording.diarize': 'Разделять по говорящим',
+  'recording.diarizeHint': 'Разметить реплики по говорящим',
+  'recording.transcribe': 'Расшифровать',
+  'recording.queued': 'В очереди на расшифровку...',
+  'recording.retrying': 'Ошибка сервиса, повторная попытка {attempt}...',
+  'recording.transcribing': 'Создание транскрипции ({provider})...',
+  'recording.chunkProgress': 'Фрагмент {current} из {total}',
+  'recording.cancelTranscription': 'Отменить расшифровку',
+  'recording.chunkFailed': 'Фрагмент {index} ({start}–{end})',
+  'recording.retryChunk': 'Повторить фрагмент',
+  'recording.transcript': 'Транскрипция',
+  'recording.history': 'История версий',
+  'recording.documents': 'Документы',
+  'recording.redaction': 'Обезличивание',
+  'recording.edit': 'Редактировать',
+  'recording.retranscribe': 'Расшифровать заново',
+  'recording.retranscribeConfirm': 'Транскрипция содержит ручные правки. Новая расшифровка станет текущей версией, а правки останутся в истории версий. Продолжить?',
+  'recording.retranscribeFailed': 'Повторная расшифровка не удалась: {message} Прежняя транскрипция сохранена.',
+  'recording.copy': 'Копировать в буфер',
+  'recording.noSpeech': 'Речь не распознана.',
+
+  'player.play': 'Воспроизвести',
+  'player.pause': 'Пауза',
+  'player.position': 'Позиция воспроизведения',
+  'player.back': 'Назад на {seconds} с',
+  'player.forward': 'Вперед на {seconds} с',
+  'player.rate': 'Скорость воспроизведения',
+  'player.volume': 'Громкость',
+  'player.mute': 'Выключить звук',
+  'player.unmute': 'Включить звук',
+  'player.shortcutsActive': 'Горячие клавиши управляют этой записью. Список — в настройках.',
+  'player.shortcutToggle': 'Воспроизведение и пауза',
+  'player.shortcutSlower': 'Медленнее',
+  'player.shortcutFaster': 'Быстрее',
+  'player.shortcutNormalSpeed': 'Обычная скорость',
+
+  'bookmarks.add': 'Отметка',
+  'bookmarks.addHint': 'Отметить важное место ({keys})',
+  'bookmarks.addHere': 'Поставить отметку на текущей позиции',
+  'bookmarks.notePlaceholder': 'Заметка (необязательно)',
+  'bookmarks.editNote': 'Изменить заметку',
+  'bookmarks.seek': 'Перейти к отметке',
+  'bookmarks.delete': 'Удалить отметку',
+
+  'redaction.summary': 'Найдено: {found}, не проверено: {pending}',
+  'redaction.detectNames': 'Найти имена с помощью Gemini',
+  'redaction.detectNamesHint': 'Текст транскрипции будет отправлен в Gemini',
+  'redaction.detectNamesConfirm': 'Полный текст транскрипции, вместе с персональными данными, будет отправлен в Gemini. Продолжить?',
+  'redaction.detectNamesFailed': 'Не удалось найти имена.',
+  'redaction.namesFound': {
+    one: 'Модель нашла {count} новое упоминание.',
+    few: 'Модель нашла {count} новых упоминания.',
+    many: 'Модель нашла {count} новых упоминаний.',
+    other: 'Модель нашла {count} новых упоминания.',
+  },
+  'redaction.acceptRest': 'Скрыть все непроверенные',
+  'redaction.none': 'Персональные данные не найдены.',
+  'redaction.fromModel': 'модель',
+  'redaction.accept': 'Скрыть в копии',
+  'redaction.reject': 'Оставить как есть',
+  'redaction.reviewFirst': 'Проверьте все находки, чтобы получить обезличенную копию.',
+  'redaction.originalKept': 'Исходная транскрипция не изменится.',
+  'redaction.copy': 'Копировать обезличенный текст',
+  'redaction.export': 'Обезличенная копия',
+  'redaction.fileName': '{name} (обезличено)',
+  'redaction.kindName': 'ФИО',
+  'redaction.kindPhone': 'Телефон',
+  'redaction.kindPassport': 'Паспорт',
+  'redaction.kindSnils': 'СНИЛС',
+  'redaction.kindInn': 'ИНН',
+  'redaction.kindAddress': 'Адрес',
+  'redaction.kindCard': 'Карта',
+  'redaction.kindAccount': 'Счёт',
+  'redaction.kindEmail': 'Эл. почта',
+
+  'settings.title': 'Настройки',
+  'settings.interface': 'Интерфейс',
+  'settings.interfaceLanguage': 'Язык интерфейса',
+  'settings.interfaceLanguageHint': 'Не влияет на язык расшифровки',
+  'settings.transcription': 'Распознавание',
+  'settings.model': 'Модель Gemini',
+  'settings.temperature': 'Температура',
+  'settings.temperatureHint': 'Чем ниже, тем буквальнее расшифровка',
+  'settings.language': 'Язык речи',
+  'settings.languageHint': 'Используется и Gemini, и сервером Whisper',
+  'settings.languageAuto': 'Определять автоматически',
+  'settings.prompt': 'Промпт',
+  'settings.builtInPrompt': 'Стандартная транскрипция',
+  'settings.duplicatePrompt': 'Создать промпт на основе этого',
+  'settings.deletePrompt': 'Удалить промпт',
+  'settings.deletePromptConfirm': 'Удалить промпт «{name}»?',
+  'settings.promptName': 'Название',
+  'settings.promptCopyName': '{name} (копия)',
+  'settings.promptNote': 'Указания о временных метках, языке, говорящих и терминах из глоссариев добавляются к промпту автоматически.',
+  'settings.recording': 'Запись',
+  'settings.microphone': 'Микрофон',
+  'settings.defaultMicrophone': 'Системный по умолчанию',
+  'settings.microphoneFallback': 'Микрофон {index}',
+  'settings.disconnectedMicrophone': 'Отключенный микрофон',
+  'settings.missingMicrophone': 'Выбранный микрофон не найден, запись пойдет с микрофона по умолчанию.',
+  'settings.format': 'Формат',
+  'settings.browserFormat': 'Выбор браузера',
+  'settings.bitrate': 'Битрейт',
+  'settings.browserBitrate': 'По умолчанию браузера',
+  'settings.bitrateValue': '{value} кбит/с',
+  'settings.echoCancellation': 'Подавление эха',
+  'settings.noiseSuppression': 'Шумоподавление',
+  'settings.autoGainControl': 'Автоматическая громкость',
+  'settings.playback': 'Воспроизведение',
+  'settings.autoRewind': 'Откат при паузе во время правки текста',
+  'settings.autoRewindOff': 'Без отката',
+  'settings.autoRewindValue': '{seconds} с',
+  'settings.shortcuts': 'Горячие клавиши (работают и при наборе текста)',
+  'settings.visualizerBars': 'Полос в индикаторе уровня',
+  'settings.reset': 'Сбросить настройки',
+  'settings.resetConfirm': 'Вернуть все настройки к значениям по умолчанию? Свои промпты будут удалены.',
+
+  'backup.title': 'Резервная копия',
+  'backup.save': 'Сохранить в архив',
+  'backup.wholeLibrary': 'Вся библиотека ({count})',
+  'backup.selected': 'Выбранные ({count})',
+  'backup.unencrypted': 'Архив не зашифрован: он содержит аудио и расшифровки в открытом виде. Храните его в надежном месте.',
+  'backup.restoreFrom': 'Восстановить из архива',
+  'backup.chooseArchive': 'Выбрать архив...',
+  'backup.summary': 'Архив от {date}: записей {count}, из них уже есть в библиотеке {duplicates}.',
+  'backup.summaryRejected': 'Архив от {date}: записей {count}, из них уже есть в библиотеке {duplicates}, не читаются {rejected}.',
+  'backup.unknownDate': 'неизвестной даты',
+  'backup.forAllDuplicates': 'Для всех совпадений:',
+  'backup.sameRecording': 'Та же запись, что и «{title}»',
+  'backup.sameAudio': 'То же аудио, что и «{title}»',
+  'backup.skip': 'Пропустить',
+  'backup.overwrite': 'Заменить',
+  'backup.keepBoth': 'Оставить обе',
+  'backup.restore': 'Восстановить',
+  'backup.added': 'Добавлены',
+  'backup.overwritten': 'Заменены',
+  'backup.copied': 'Добавлены как копии',
+  'backup.skipped': 'Пропущены',
+  'backup.rejected': 'Не восстановлены',
+  'backup.mattersAdded': 'Добавлено дел: {matters}, клиентов: {clients}.',
+  'backup.empty': 'В архиве нет записей.',
+  'backup.createFailed': 'Не удалось создать архив.',
+  'backup.readFailed': 'Не удалось прочитать архив.',
+  'backup.untitled': 'Запись {date}',
+  'backup.numbered': 'Запись {index}',
+  'backup.errorNoManifest': 'Архив резервной копии некорректен: нет файла manifest.json.',
+  'backup.errorManifestJson': 'Архив резервной копии некорректен: manifest.json не является JSON.',
+  'backup.errorFormat': 'Архив резервной копии некорректен: неизвестный формат.',
+  'backup.errorVersion': 'Архив резервной копии некорректен: версия {version} не поддерживается, обновите приложение.',
+  'backup.rejectNotObject': 'запись не является объектом',
+  'backup.rejectNoId': 'нет идентификатора',
+  'backup.rejectNoDate': 'нет даты записи',
+  'backup.rejectNoDuration': 'нет длительности',
+  'backup.rejectNoAudio': 'нет ссылки на аудио',
+  'backup.rejectSegments': 'повреждены фрагменты транскрипции',
+  'backup.rejectVersions': 'повреждена история версий',
+  'backup.rejectChunks': 'повреждены части расшифровки',
+  'backup.rejectDocuments': 'повреждены документы',
+  'backup.rejectSpeech': 'повреждена разметка речи',
+  'backup.rejectDuplicate': 'повторяется в архиве',
+  'backup.rejectMissingAudio': 'в архиве нет аудиофайла',
+  'backup.rejectDamagedAudio': 'аудиофайл поврежден',
+  'zip.errorNoDirectory': 'Архив поврежден или не является ZIP: не найдено оглавление.',
+  'zip.errorDirectory': 'Архив поврежден или не является ZIP: оглавление повреждено.',
+  'zip.errorEntry': 'Архив поврежден или не является ZIP: запись «{name}» повреждена.',
+  'zip.errorTruncated': 'Архив поврежден или не является ZIP: запись «{name}» обрезана.',
+  'zip.errorMethod': 'Архив поврежден или не является ZIP: метод сжатия {method} в «{name}» не поддерживается.',
+  'zip.errorChecksum': 'Архив поврежден или не является ZIP: контрольная сумма «{name}» не совпадает.',
+  'zip.errorTooManyFiles': 'Архив слишком велик для формата ZIP: {count} файлов при пределе {max}.',
+  'zip.errorTooLarge': 'Архив слишком велик для формата ZIP: данные превышают 4 ГБ, сохраните часть записей.',
+
+  'backup.copyName': '{name} (копия)',
+
+  'storage.errorQuota': 'Недостаточно места в хранилище браузера. Удалите ненужные записи, чтобы сохранить новые.',
+  'audio.errorUnreadable': 'Браузер не может прочитать этот файл: формат не поддерживается или файл поврежден.',
+  'audio.errorDuration': 'Не удалось прочитать длительность файла.',
+  'import.errorEmpty': 'Пустой файл.',
+  'import.errorNotAudio': 'Не аудиофайл ({type}).',
+  'import.unknownType': 'неизвестный тип',
+  'import.errorUnsupported': 'Неподдерживаемый формат или поврежденный файл.',
+  'import.errorSilent': 'Файл не содержит звука.',
+  'import.errorRead': 'Не удалось прочитать файл.',
+  'vault.errorPassphrase': 'Неверный пароль.',
+  'vault.errorNotCreated': 'Хранилище не создано.',
+  'vault.errorLocked': 'Хранилище заблокировано.',
+  'vault.errorUnknownKey': 'Данные зашифрованы неизвестным ключом.',
+  'transcript.errorNotJson': 'Модель вернула транскрипцию в неверном формате: ответ не является JSON.',
+  'transcript.errorNoSegments': 'Модель вернула транскрипцию в неверном формате: отсутствует список фрагментов.',
+  'transcript.errorSegment': 'Модель вернула транскрипцию в неверном формате: фрагмент {index} некорректен.',
+  'transcript.errorNoText': 'Модель вернула транскрипцию в неверном формате: отсутствует текст.',
+  'transcript.errorChunks': 'Не удалось расшифровать {failed} из {total} фрагментов.',
+  'gemini.errorService': 'Ошибка Gemini: {detail}',
+  'gemini.errorTranscribe': 'Не удалось транскрибировать аудио.',
+  'gemini.errorDocumentFormat': 'Модель вернула документ в неожиданном формате.',
+  'gemini.errorDocument': 'Не удалось составить документ.',
+  'gemini.errorNamesFormat': 'Модель вернула список имён в неожиданном формате.',
+  'gemini.errorNames': 'Не удалось найти имена.',
+  'whisper.errorUnreachable': 'Сервер распознавания недоступен: {url}',
+  'whisper.errorStatus': 'Сервер распознавания вернул ошибку {status}: {detail}',
+  'glossary.errorNoName': 'Файл глоссария некорректен: глоссарий {index} без названия.',
+  'glossary.errorTerm': 'Файл глоссария некорректен: термин {index} в «{name}» без написания.',
+  'glossary.errorRule': 'Файл глоссария некорректен: правило {index} в «{name}» некорректно.',
+  'glossary.errorJson': 'Файл глоссария некорректен: это не JSON.',
+  'glossary.errorFormat': 'Файл глоссария некорректен: неизвестный формат.',
+  'glossary.errorVersion': 'Файл глоссария некорректен: версия {version} не поддерживается.',
+
+  'provider.gemini': 'Gemini',
+  'provider.whisper': 'Whisper (локальный сервер)',
+  'provider.mock': 'Тестовый (офлайн)',
+
+  'glossary.defaultName': 'Общий',
+  'glossary.title': 'Глоссарии',
+  'glossary.newName': 'Новый глоссарий',
+  'glossary.deleteConfirm': 'Удалить глоссарий «{name}»?',
+  'glossary.import': 'Импорт',
+  'glossary.importHint': 'Импорт из JSON',
+  'glossary.export': 'Экспорт',
+  'glossary.exportHint': 'Экспорт всех глоссариев в JSON',
+  'glossary.importFailed': 'Не удалось прочитать файл глоссария.',
+  'glossary.add': 'Глоссарий',
+  'glossary.name': 'Название',
+  'glossary.matter': 'Дело («Без дела» — общий глоссарий)',
+  'glossary.enabled': 'Применять при расшифровке',
+  'glossary.legalNumbers': '«статья сто пятьдесят девять» → «ст. 159»',
+  'glossary.terms': 'Термины и имена',
+  'glossary.termPlaceholder': 'Написание',
+  'glossary.variantsPlaceholder': 'Как ошибается модель, через запятую',
+  'glossary.notePlaceholder': 'Пояснение',
+  'glossary.deleteTerm': 'Удалить термин',
+  'glossary.addTerm': 'Термин',
+  'glossary.rules': 'Правила замены',
+  'glossary.patternPlaceholder': 'Что заменить',
+  'glossary.invalidRegex': 'Некорректное регулярное выражение',
+  'glossary.replacementPlaceholder': 'На что',
+  'glossary.regexHint': 'Регулярное выражение',
+  'glossary.deleteRule': 'Удалить правило',
+  'glossary.addRule': 'Правило',
+  'glossary.delete': 'Удалить глоссарий',
+
+  'import.progress': 'Импорт: {name}',
+  'import.finishing': 'завершение...',
+  'import.imported': 'Импортировано файлов: {count}',
+  'import.rejected': ', отклонено: {count}',
+  'import.dismiss': 'Скрыть',
+
+  'search.statusIdle': 'Без транскрипции',
+  'search.statusLoading': 'В обработке',
+  'search.statusSuccess': 'Расшифрованы',
+  'search.statusError': 'С ошибкой',
+  'search.sortRelevance': 'По релевантности',
+  'search.sortNewest': 'Сначала новые',
+  'search.sortOldest': 'Сначала старые',
+  'search.sortLongest': 'Сначала длинные',
+  'search.sortShortest': 'Сначала короткие',
+  'search.sortName': 'По названию',
+  'search.placeholder': 'Поиск по названиям и транскрипциям',
+  'search.filters': 'Фильтры и сортировка',
+  'search.reset': 'Сбросить поиск и фильтры',
+  'search.dateFrom': 'С даты',
+  'search.dateTo': 'По дату',
+  'search.status': 'Статус',
+  'search.all': 'Все',
+  'search.minMinutes': 'Длительность от, мин',
+  'search.maxMinutes': 'до, мин',
+  'search.tag': 'Тег',
+  'search.matter': 'Дело',
+  'search.sort': 'Сортировка',
+  'search.resultCount': 'Найдено записей: {count}',
+
+  'matter.noClient': 'Без клиента',
+  'matter.title': 'Дела и клиенты',
+  'matter.newMatter': 'Новое дело',
+  'matter.namePlaceholder': 'Например, А40-12345/2026 — взыскание долга',
+  'matter.client': 'Клиент',
+  'matter.clientUnset': 'Не указан',
+  'matter.newClientOption': 'Новый клиент...',
+  'matter.newClientName': 'Новый клиент',
+  'matter.clientName': 'Имя клиента',
+  'matter.create': 'Создать',
+  'matter.matters': 'Дела',
+  'matter.showArchived': 'Показать архив ({count})',
+  'matter.noMatters': 'Дел пока нет.',
+  'matter.recordingCount': 'записей: {count}',
+  'matter.unarchive': 'Вернуть из архива',
+  'matter.archive': 'В архив',
+  'matter.clients': 'Клиенты',
+  'matter.addClient': 'Клиент',
+  'matter.noClients': 'Клиентов пока нет.',
+  'matter.matterCount': 'дел: {count}',
+
+  'template.newName': 'Новый шаблон',
+  'template.copyName': '{name} (копия)',
+  'template.deleteConfirm': 'Удалить шаблон «{name}»? Уже составленные документы останутся.',
+  'template.title': 'Шаблоны документов',
+  'template.untitled': 'Без названия',
+  'template.add': 'Шаблон',
+  'template.builtIn': 'Встроенный шаблон нельзя изменить, но можно сделать его копию.',
+  'template.duplicate': 'Копия',
+  'template.name': 'Название',
+  'template.description': 'Назначение и стиль документа',
+  'template.sections': 'Разделы',
+  'template.sectionTitle': 'Заголовок',
+  'template.sectionInstructions': 'Что должно быть в разделе',
+  'template.moveUp': 'Выше',
+  'template.moveDown': 'Ниже',
+  'template.deleteSection': 'Удалить раздел',
+  'template.addSection': 'Раздел',
+  'template.delete': 'Удалить шаблон',
+
+  'vault.passphraseTooShort': 'Пароль должен быть не короче {min} символов.',
+  'vault.passphraseMismatch': 'Пароли не совпадают.',
+  'vault.setupFailed': 'Не удалось зашифровать данные. Попробуйте еще раз.',
+  'vault.unlockFailed': 'Не удалось открыть хранилище.',
+  'vault.resetConfirm': 'Без пароля записи восстановить нельзя. Удалить все записи и создать новое хранилище?',
+  'vault.resealing': 'Шифрование записей...',
+  'vault.resealingProgress': 'Шифрование записей: {done} из {total}',
+  'vault.setupIntro': 'Записи и расшифровки хранятся в браузере в зашифрованном виде. Придумайте пароль — без него их не прочитать. Восстановить забытый пароль невозможно.',
+  'vault.lockedIntro': 'Хранилище заблокировано. Введите пароль, чтобы открыть записи.',
+  'vault.passphrase': 'Пароль',
+  'vault.repeatPassphrase': 'Повторите пароль',
+  'vault.create': 'Создать хранилище',
+  'vault.open': 'Открыть',
+  'vault.forgot': 'Забыли пароль? Удалить все данные',
+  'vault.newPassphraseTooShort': 'Новый пароль должен быть не короче {min} символов.',
+  'vault.changed': 'Пароль изменен, записи зашифрованы заново.',
+  'vault.wrongCurrent': 'Текущий пароль введен неверно.',
+  'vault.resealFailed': 'Не удалось зашифровать записи заново. Они будут дошифрованы при следующем входе.',
+  'vault.settingsTitle': 'Защита данных',
+  'vault.settingsIntro': 'Записи, расшифровки и документы хранятся зашифрованными (AES-GCM); ключ открывается только вашим паролем.',
+  'vault.autoLock': 'Блокировать после бездействия',
+  'vault.minutes': '{count} мин',
+  'vault.lock': 'Заблокировать',
+  'vault.changeTitle': 'Смена пароля',
+  'vault.currentPassphrase': 'Текущий пароль',
+  'vault.newPassphrase': 'Новый пароль',
+  'vault.repeatNewPassphrase': 'Повторите новый пароль',
+  'vault.change': 'Сменить пароль',
+
+  'vad.hint': 'Обработка перед отправкой на расшифровку; сама запись не меняется',
+  'vad.silence': 'Тишина:',
+  'vad.trimSilence': 'обрезать в начале и конце',
+  'vad.removePauses': 'убирать паузы длиннее',
+  'vad.seconds': 'с',
+  'vad.autoStopHint': 'Для записи, включаемой голосом',
+  'vad.autoStop': 'автостоп после',
+  'vad.autoStopUnit': 'с тишины',
+  'provider.label': 'Распознавание:',
+  'provider.concurrencyHint': 'Сколько записей расшифровывается одновременно',
+  'provider.concurrency': 'Параллельно:',
+  'provider.localHint': 'Аудио не отправляется во внешние сервисы',
+  'provider.local': 'Аудио не покидает вашу сеть',
+  'provider.whisperUrl': 'Адрес сервера, например http://localhost:8000',
+  'provider.whisperModel': 'Модель',
+  'provider.whisperApiKey': 'Ключ API (необязательно)',
+
+  'preprocessing.normalize': 'выравнивать громкость',
+  'preprocessing.normalizeHint': 'Поднимает тихую речь до стандартного уровня',
+  'preprocessing.highPass': 'срезать гул',
+  'preprocessing.highPassHint': 'Фильтр ниже 80 Гц: гул, вибрация, удары по микрофону',
+  'preprocessing.noiseGate': 'приглушать фон',
+  'preprocessing.noiseGateHint': 'Ослабляет участки, где звучит только фоновый шум',
+  'preprocessing.hint': 'Перед отправкой аудио сводится в моно 16 кГц и сжимается; сама запись не меняется',
+  'preprocessing.enabled': 'Обработка перед отправкой:',
+
+  'document.sendConfirm': 'Текст транскрипции будет отправлен в Gemini. Продолжить?',
+  'document.failed': 'Не удалось составить документ.',
+  'document.sendHint': 'Текст транскрипции будет отправлен в Gemini',
+  'document.generate': 'Составить',
+  'document.localProvider': 'Документы составляет Gemini, а выбран локальный провайдер: текст транскрипции не покидает устройство.',
+  'document.none': 'Документов пока нет.',
+  'document.noneHint': ' Выберите шаблон и нажмите «Составить».',
+  'document.copy': 'Копировать в буфер',
+  'document.download': 'Скачать (Markdown)',
+  'document.delete': 'Удалить документ',
+  'version.model': 'Модель',
+  'version.user': 'Правка',
+  'version.label': '{index}. {source}, {date}',
+  'version.current': ' (текущая)',
+  'version.revertHint': 'Сделать эту версию текущей',
+  'version.revert': 'Вернуть',
+  'version.compare': 'Сравнить',
+  'version.compareWith': 'с',
+  'version.revertNote': 'Возврат к версии {index}',
+  'version.editNote': 'Аудио отредактировано',
+  'version.splitNote': 'Запись разделена',
+  'edit.partName': '{name} (часть {index})',
+  'edit.untitled': 'Запись',
+
+  'tags.remove': 'Убрать тег',
+  'tags.placeholder': 'Новый тег',
+  'tags.add': 'Добавить тег',
+  'tags.addShort': 'Тег',
+  'speech.range': 'Речь {start}–{end}',
+  'speech.shareHint': 'Доля речи в записи',
+  'speech.share': 'Речь {share}%',
+  'export.title': 'Экспорт',
+  'export.needsTimestamps': 'Нужна транскрипция с временными метками',
+  'export.txt': 'Текст (TXT)',
+  'export.md': 'Markdown (MD)',
+  'export.docx': 'Word (DOCX)',
+  'export.srt': 'Субтитры (SRT)',
+  'export.vtt': 'Субтитры (WebVTT)',
+  'live.waiting': 'Говорите — текст появится через несколько секунд...',
+  'live.failedWindow': '[фрагмент не распознан] ',
+
+  'editor.decodeFailed': 'Не удалось декодировать аудио этого формата.',
+  'editor.splitConfirm': 'Запись будет заменена двумя новыми, исходное аудио будет удалено. Части будут сохранены в формате {format}, вместе около {size}. История версий, документы и текст без отметок времени останутся у первой части. Продолжить?',
+  'editor.applyConfirm': 'Исходное аудио будет заменено отредактированным ({format}, около {size}). Продолжить?',
+  'editor.formatOpus': 'Opus, моно 16 кГц',
+  'editor.formatWav': 'WAV без сжатия: браузер не умеет сжимать в Opus',
+  'editor.saving': 'Сохранение...',
+  'editor.saveFailed': 'Не удалось сохранить отредактированное аудио.',
+  'editor.decoding': 'Декодирование аудио...',
+  'editor.cursor': 'Курсор {time}',
+  'editor.playHint': 'Прослушать выделенное или с курсора',
+  'editor.play': 'Слушать',
+  'editor.stop': 'Стоп',
+  'editor.keepHint': 'Обрезать всё, кроме выделенного',
+  'editor.keep': 'Оставить',
+  'editor.deleteHint': 'Удалить выделенный фрагмент',
+  'editor.delete': 'Вырезать',
+  'editor.splitHint': 'Разделить на две записи по курсору или началу выделения',
+  'editor.split': 'Разделить',
+  'editor.undoHint': 'Отменить последнее действие',
+  'editor.undo': 'Отменить',
+  'editor.apply': 'Применить',
+
+  'transcript.speaker': 'Говорящий {speaker}',
+  'transcript.speakerPlaceholder': 'Имя говорящего',
+  'transcript.renameSpeaker': 'Переименовать во всей записи',
+  'transcript.seek': 'Перейти к этому месту',
+  'transcript.seekBookmark': 'Перейти к отметке',
+  'transcript.cancel': 'Отмена',
+  'transcript.save': 'Сохранить правки',
+};
+
+export default ru;
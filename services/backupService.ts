@@ -0,0 +1,383 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Bookmark,
+  GeneratedDocument,
+  Recording,
+  TimeRange,
+  TranscriptionChunk,
+  TranscriptionStatus,
+  TranscriptSegment,
+  TranscriptVersion,
+} from "../types";
+import { formatTimestamp } from "../utils/audioUtils";
+import { CONTAINER_MIME_TYPES } from "../utils/audioMetadata";
+import { createZip, readZip, ZipEntry } from "../utils/zipUtils";
+import { LocalizedError, MessageKey, MessageParams, translate } from "./i18nService";
+import { MatterLibrary, parseMatterLibrary } from "./matterService";
+
+// A backup is a ZIP with manifest.json and one file per recording under
+// audio/. The manifest carries everything but the audio: transcripts,
+// versions, documents, tags, bookmarks, and the matters and clients they refer to.
+
+const BACKUP_FORMAT = 'dictofon-backup';
+const BACKUP_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+
+export class BackupFormatError extends LocalizedError {
+  constructor(key: MessageKey, params?: MessageParams) {
+    super(key, params);
+    this.name = 'BackupFormatError';
+  }
+}
+
+interface BackupAudio {
+  file: string; // path inside the archive
+  type: string;
+  size: number;
+  sha256: string;
+}
+
+type BackupRecording = Omit<Recording, 'blob' | 'url'> & { audio: BackupAudio };
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  recordings: BackupRecording[];
+  matters: MatterLibrary;
+}
+
+export type DuplicateResolution = 'skip' | 'overwrite' | 'keep-both';
+
+export interface RestoreItem {
+  recording: Omit<Recording, 'url'>;
+  hash: string;
+  duplicateOf?: {
+    id: string; // the recording already in the library
+    reason: 'id' | 'content';
+  };
+}
+
+export interface RestoreRejection {
+  name: string;
+  reason: MessageKey;
+}
+
+export interface RestorePlan {
+  createdAt: number; // when the backup was made
+  items: RestoreItem[];
+  rejected: RestoreRejection[];
+  matters: MatterLibrary;
+}
+
+export interface RestoreReportItem {
+  id: string;
+  title: string;
+}
+
+export interface RestoreReport {
+  added: RestoreReportItem[];
+  overwritten: RestoreReportItem[];
+  copied: RestoreReportItem[]; // kept next to an existing duplicate
+  skipped: RestoreReportItem[];
+  rejected: RestoreRejection[];
+  mattersAdded: number;
+  clientsAdded: number;
+}
+
+// Container names double as file extensions
+const audioExtension = (type: string): string =>
+  Object.entries(CONTAINER_MIME_TYPES).find(([, mime]) => mime === type.split(';')[0])?.[0] ?? 'bin';
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: BufferSource): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', data));
+
+// Hashing the whole library again for every restore would be slow
+const blobHashes = new WeakMap<Blob, Promise<string>>();
+
+const hashBlob = (blob: Blob): Promise<string> => {
+  let hash = blobHashes.get(blob);
+  if (!hash) {
+    hash = blob.arrayBuffer().then(sha256);
+    blobHashes.set(blob, hash);
+  }
+  return hash;
+};
+
+const getTitle = (recording: Pick<Recording, 'name' | 'timestamp'>): string =>
+  recording.name || translate('backup.untitled', { date: formatTimestamp(recording.timestamp) });
+
+// Only the matters the recordings belong to, unless the whole library goes
+const pickMatters = (library: MatterLibrary, recordings: Recording[]): MatterLibrary => {
+  const matterIds = new Set(recordings.map(r => r.matterId));
+  const matters = library.matters.filter(m => matterIds.has(m.id));
+  const clientIds = new Set([...matters.map(m => m.clientId), ...recordings.map(r => r.clientId)]);
+  return { matters, clients: library.clients.filter(c => clientIds.has(c.id)) };
+};
+
+export const createBackup = async (
+  recordings: Recording[],
+  library: MatterLibrary,
+  includeAllMatters: boolean
+): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const manifestRecordings: BackupRecording[] = [];
+
+  for (const { blob, url, ...recording } of recordings) {
+    const data = new Uint8Array(await blob.arrayBuffer());
+    const file = `audio/${recording.id}.${audioExtension(blob.type)}`;
+    entries.push({ name: file, data });
+    manifestRecordings.push({
+      ...recording,
+      audio: { file, type: blob.type, size: blob.size, sha256: await sha256(data) },
+    });
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    recordings: manifestRecordings,
+    matters: includeAllMatters ? library : pickMatters(library, recordings),
+  };
+  return createZip([{ name: MANIFEST_NAME, data: JSON.stringify(manifest, null, 2) }, ...entries]);
+};
+
+export const getBackupFileName = (date = new Date()): string =>
+  `dictofon-backup-${date.toISOString().slice(0, 10)}.zip`;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+const isOptional = <T>(value: unknown, check: (value: unknown) => value is T): boolean =>
+  value === undefined || check(value);
+const isStatus = (value: unknown): value is TranscriptionStatus =>
+  Object.values(TranscriptionStatus).includes(value as TranscriptionStatus);
+
+// Undefined when absent, null when the value or any element has the wrong shape
+const listOf = <T>(value: unknown, check: (item: unknown) => item is T): T[] | undefined | null => {
+  if (value === undefined) return undefined;
+  return Array.isArray(value) && value.every(check) ? value : null;
+};
+
+const isSegment = (value: unknown): value is TranscriptSegment =>
+  isObject(value) && isNumber(value.start) && isNumber(value.end) && isString(value.text)
+  && isOptional(value.speaker, isString);
+
+const isSegmentList = (value: unknown): value is TranscriptSegment[] =>
+  Array.isArray(value) && value.every(isSegment);
+
+const isRange = (value: unknown): value is TimeRange =>
+  isObject(value) && isNumber(value.start) && isNumber(value.end);
+
+const isVersion = (value: unknown): value is TranscriptVersion =>
+  isObject(value) && isString(value.id) && isNumber(value.createdAt) && isString(value.text)
+  && (value.source === 'model' || value.source === 'user')
+  && isOptional(value.segments, isSegmentList) && isOptional(value.note, isString);
+
+const isChunk = (value: unknown): value is TranscriptionChunk =>
+  isObject(value) && isNumber(value.index) && isNumber(value.start) && isNumber(value.end) && isStatus(value.status)
+  && isOptional(value.segments, isSegmentList) && isOptional(value.error, isString);
+
+const isDocument = (value: unknown): value is GeneratedDocument =>
+  isObject(value) && isString(value.id) && isString(value.templateId) && isString(value.templateName)
+  && isNumber(value.createdAt) && Array.isArray(value.sections)
+  && value.sections.every(s => isObject(s) && isString(s.title) && isString(s.content));
+
+const isBookmark = (value: unknown): value is Bookmark =>
+  isObject(value) && isString(value.id) && isNumber(value.time) && isString(value.note);
+
+const isSpeakerNames = (value: unknown): value is Record<string, string> =>
+  isObject(value) && Object.values(value).every(isString);
+
+// Checks the fields the app relies on. Optional lists must be intact, since
+// playback, versions and documents read every element; simple fields are
+// kept only if they have the right shape.
+const validateRecording = (raw: unknown): Omit<Recording, 'blob' | 'url'> | MessageKey => {
+  if (!isObject(raw)) return 'backup.rejectNotObject';
+  if (!isString(raw.id) || !raw.id) return 'backup.rejectNoId';
+  if (!isNumber(raw.timestamp)) return 'backup.rejectNoDate';
+  if (!isNumber(raw.duration) || raw.duration < 0) return 'backup.rejectNoDuration';
+  if (!isObject(raw.audio) || !isString(raw.audio.file)) return 'backup.rejectNoAudio';
+
+  const segments = listOf(raw.segments, isSegment);
+  if (segments === null) return 'backup.rejectSegments';
+  const versions = listOf(raw.versions, isVersion);
+  if (versions === null) return 'backup.rejectVersions';
+  const chunks = listOf(raw.chunks, isChunk);
+  if (chunks === null) return 'backup.rejectChunks';
+  const documents = listOf(raw.documents, isDocument);
+  if (documents === null) return 'backup.rejectDocuments';
+  const speech = listOf(raw.speech, isRange);
+  if (speech === null) return 'backup.rejectSpeech';
+
+  const status = isStatus(raw.status) ? raw.status : TranscriptionStatus.IDLE;
+  return {
+    id: raw.id,
+    timestamp: raw.timestamp,
+    duration: raw.duration,
+    transcript: isString(raw.transcript) ? raw.transcript : null,
+    // Nothing is transcribing this recording in the new library
+    status: status === TranscriptionStatus.LOADING ? TranscriptionStatus.IDLE : status,
+    error: isString(raw.error) ? raw.error : undefined,
+    name: isString(raw.name) ? raw.name : undefined,
+    segments,
+    diarize: typeof raw.diarize === 'boolean' ? raw.diarize : undefined,
+    speakerNames: isSpeakerNames(raw.speakerNames) ? raw.speakerNames : undefined,
+    versions,
+    tags: Array.isArray(raw.tags) ? raw.tags.filter(isString) : undefined,
+    chunks,
+    documents,
+    speech,
+    matterId: isString(raw.matterId) ? raw.matterId : undefined,
+    clientId: isString(raw.clientId) ? raw.clientId : undefined,
+    bookmarks: Array.isArray(raw.bookmarks) ? raw.bookmarks.filter(isBookmark) : undefined,
+  };
+};
+
+// The recordings are left unchecked here; each is validated on its own so
+// one damaged entry does not fail the whole restore
+interface RawManifest {
+  createdAt: unknown;
+  recordings: unknown[];
+  matters: unknown;
+}
+
+const parseManifest = (entries: ZipEntry[]): RawManifest => {
+  const entry = entries.find(e => e.name === MANIFEST_NAME);
+  if (!entry) throw new BackupFormatError('backup.errorNoManifest');
+  let data: unknown;
+  try {
+    data = JSON.parse(typeof entry.data === 'string' ? entry.data : new TextDecoder().decode(entry.data));
+  } catch {
+    throw new BackupFormatError('backup.errorManifestJson');
+  }
+  if (!isObject(data) || data.format !== BACKUP_FORMAT || !Array.isArray(data.recordings)) {
+    throw new BackupFormatError('backup.errorFormat');
+  }
+  if (!isNumber(data.version) || data.version > BACKUP_VERSION) {
+    throw new BackupFormatError('backup.errorVersion', { version: String(data.version) });
+  }
+  return { createdAt: data.createdAt, recordings: data.recordings, matters: data.matters };
+};
+
+// Reads the archive and matches it against the library without changing anything
+export const readBackup = async (file: Blob, existing: Recording[]): Promise<RestorePlan> => {
+  const entries = await readZip(file);
+  const manifest = parseManifest(entries);
+  const files = new Map(entries.map(e => [e.name, e.data]));
+
+  const existingIds = new Set(existing.map(r => r.id));
+  const existingHashes = new Map<string, string>();
+  for (const recording of existing) {
+    existingHashes.set(await hashBlob(recording.blob), recording.id);
+  }
+
+  const items: RestoreItem[] = [];
+  const rejected: RestoreRejection[] = [];
+  const seen = new Set<string>();
+
+  for (const [index, raw] of manifest.recordings.entries()) {
+    const fallbackName = isObject(raw) && isString(raw.name) ? raw.name : translate('backup.numbered', { index: index + 1 });
+    const recording = validateRecording(raw);
+    if (typeof recording === 'string') {
+      rejected.push({ name: fallbackName, reason: recording });
+      continue;
+    }
+    // validateRecording has checked that the reference exists
+    const audio = (raw as { audio: Record<string, unknown> }).audio;
+    const name = getTitle(recording);
+    if (seen.has(recording.id)) {
+      rejected.push({ name, reason: 'backup.rejectDuplicate' });
+      continue;
+    }
+    const data = files.get(audio.file as string);
+    if (!data || typeof data === 'string') {
+      rejected.push({ name, reason: 'backup.rejectMissingAudio' });
+      continue;
+    }
+    const hash = await sha256(data as Uint8Array<ArrayBuffer>);
+    if (isString(audio.sha256) && audio.sha256 !== hash) {
+      rejected.push({ name, reason: 'backup.rejectDamagedAudio' });
+      continue;
+    }
+    seen.add(recording.id);
+
+    const blob = new Blob([data as Uint8Array<ArrayBuffer>], { type: isString(audio.type) ? audio.type : '' });
+    const sameContent = existingHashes.get(hash);
+    items.push({
+      recording: { ...recording, blob },
+      hash,
+      duplicateOf: existingIds.has(recording.id)
+        ? { id: recording.id, reason: 'id' }
+        : sameContent ? { id: sameContent, reason: 'content' } : undefined,
+    });
+  }
+
+  return {
+    createdAt: isNumber(manifest.createdAt) ? manifest.createdAt : 0,
+    items,
+    rejected,
+    matters: parseMatterLibrary(manifest.matters),
+  };
+};
+
+const withUrl = (recording: Omit<Recording, 'url'>): Recording =>
+  ({ ...recording, url: URL.createObjectURL(recording.blob) });
+
+// The library after the restore. Overwritten recordings keep their place and
+// id in the library; matters and clients are only ever added.
+export const applyRestore = (
+  plan: RestorePlan,
+  resolutions: Record<string, DuplicateResolution>, // by restored recording id
+  existing: Recording[],
+  library: MatterLibrary
+): { recordings: Recording[]; replaced: Recording[]; library: MatterLibrary; report: RestoreReport } => {
+  const report: RestoreReport = {
+    added: [], overwritten: [], copied: [], skipped: [], rejected: plan.rejected, mattersAdded: 0, clientsAdded: 0,
+  };
+  const replacements = new Map<string, Recording>();
+  const added: Recording[] = [];
+  const takenIds = new Set(existing.map(r => r.id));
+
+  for (const { recording, duplicateOf } of plan.items) {
+    const title = getTitle(recording);
+    if (!duplicateOf) {
+      added.push(withUrl(recording));
+      report.added.push({ id: recording.id, title });
+      continue;
+    }
+    const resolution = resolutions[recording.id] ?? 'skip';
+    if (resolution === 'skip' || (resolution === 'overwrite' && replacements.has(duplicateOf.id))) {
+      report.skipped.push({ id: recording.id, title });
+    } else if (resolution === 'overwrite') {
+      replacements.set(duplicateOf.id, withUrl({ ...recording, id: duplicateOf.id }));
+      report.overwritten.push({ id: duplicateOf.id, title });
+    } else {
+      const id = takenIds.has(recording.id) ? uuidv4() : recording.id;
+      takenIds.add(id);
+      const copyName = translate('backup.copyName', { name: recording.name?.replace(/\.[^.]+$/, '') || title });
+      added.push(withUrl({ ...recording, id, name: copyName }));
+      report.copied.push({ id, title: copyName });
+    }
+  }
+
+  const matterIds = new Set(library.matters.map(m => m.id));
+  const clientIds = new Set(library.clients.map(c => c.id));
+  const newMatters = plan.matters.matters.filter(m => !matterIds.has(m.id));
+  const newClients = plan.matters.clients.filter(c => !clientIds.has(c.id));
+  report.mattersAdded = newMatters.length;
+  report.clientsAdded = newClients.length;
+
+  return {
+    recordings: [...existing.map(r => replacements.get(r.id) ?? r), ...added]
+      .sort((a, b) => b.timestamp - a.timestamp),
+    replaced: existing.filter(r => replacements.has(r.id)),
+    library: { matters: [...library.matters, ...newMatters], clients: [...library.clients, ...newClients] },
+    report,
+  };
+};
@@ -0,0 +1,188 @@
+import { TranscriptionChunk, TranscriptionResult, TranscriptionStatus, TranscriptSegment } from "../types";
+import { decodeAudioBlob, encodeWav, mixToMono } from "../utils/audioUtils";
+import { offsetSegments, segmentsToText } from "../utils/transcriptUtils";
+import { LocalizedError } from "./i18nService";
+import { isAbortError, SpeakerContext, TranscribeOptions, TranscriptionProvider } from "./transcriptionProvider";
+
+const SAMPLE_RATE = 16000;
+const TARGET_CHUNK_SECONDS = 240; // ~7.7 MB as 16 kHz mono WAV
+const SILENCE_SEARCH_SECONDS = 20;
+const OVERLAP_SECONDS = 2;
+const ANALYSIS_WINDOW_SECONDS = 0.05;
+const MAX_OVERLAP_WORDS = 30;
+const CONTEXT_SEGMENTS = 6; // lines of the previous part shown to the model in diarized mode
+
+export const needsChunking = (blob: Blob, provider: TranscriptionProvider): boolean =>
+  blob.size > provider.maxUploadBytes;
+
+const rms = (samples: Float32Array, from: number, to: number): number => {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / Math.max(1, to - from));
+};
+
+// Looks for the quietest analysis window around the target cut point so that
+// segments end in a pause rather than in the middle of a word. Expects 16 kHz samples.
+export const findQuietestPoint = (samples: Float32Array, target: number, radius: number): number => {
+  const window = Math.floor(ANALYSIS_WINDOW_SECONDS * SAMPLE_RATE);
+  const from = Math.max(0, target - radius);
+  const to = Math.min(samples.length - window, target + radius);
+
+  let best = target;
+  let bestLevel = Infinity;
+  for (let pos = from; pos <= to; pos += window) {
+    const level = rms(samples, pos, pos + window);
+    if (level < bestLevel) {
+      bestLevel = level;
+      best = pos + Math.floor(window / 2);
+    }
+  }
+  return best;
+};
+
+export const planChunks = (samples: Float32Array): TranscriptionChunk[] => {
+  const chunkLength = TARGET_CHUNK_SECONDS * SAMPLE_RATE;
+  const overlap = OVERLAP_SECONDS * SAMPLE_RATE;
+  const radius = SILENCE_SEARCH_SECONDS * SAMPLE_RATE;
+  const chunks: TranscriptionChunk[] = [];
+
+  let start = 0;
+  while (start < samples.length) {
+    let end = start + chunkLength;
+    // Do not leave a tiny tail segment; fold it into the last one instead
+    if (end + radius >= samples.length) {
+      end = samples.length;
+    } else {
+      end = findQuietestPoint(samples, end, radius);
+    }
+
+    chunks.push({
+      index: chunks.length,
+      start: start / SAMPLE_RATE,
+      end: end / SAMPLE_RATE,
+      status: TranscriptionStatus.IDLE,
+    });
+
+    if (end >= samples.length) break;
+    start = Math.max(0, end - overlap);
+  }
+
+  return chunks;
+};
+
+const normalizeWord = (word: string): string =>
+  word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Overlapping segments repeat a few words at each boundary. Returns `next`
+// without the longest run at its start that matches the end of `previous`.
+export const stripOverlap = (previous: string, next: string): string => {
+  const prevWords = previous.trim().split(/\s+/).filter(Boolean);
+  const nextWords = next.trim().split(/\s+/).filter(Boolean);
+  const limit = Math.min(MAX_OVERLAP_WORDS, prevWords.length, nextWords.length);
+
+  for (let size = limit; size >= 2; size--) {
+    const tail = prevWords.slice(-size).map(normalizeWord).join(' ');
+    const head = nextWords.slice(0, size).map(normalizeWord).join(' ');
+    if (tail === head) {
+      return nextWords.slice(size).join(' ');
+    }
+  }
+
+  return next.trim();
+};
+
+export const mergeChunks = (chunks: TranscriptionChunk[]): TranscriptionResult => {
+  const segments: TranscriptSegment[] = [];
+
+  chunks.forEach((chunk) => {
+    const chunkSegments = chunk.segments ?? [];
+    if (segments.length > 0 && chunkSegments.length > 0) {
+      const [first, ...rest] = chunkSegments;
+      const text = stripOverlap(segmentsToText(segments.slice(-3)), first.text);
+      segments.push(...(text ? [{ ...first, text }] : []), ...rest);
+    } else {
+      segments.push(...chunkSegments);
+    }
+  });
+
+  return { text: segmentsToText(segments), segments };
+};
+
+// Speakers of the parts finished before `index` and how the one right before it ended
+export const getSpeakerContext = (chunks: TranscriptionChunk[], index: number): SpeakerContext | undefined => {
+  const before = chunks.filter(c => c.index < index && c.status === TranscriptionStatus.SUCCESS);
+  const segments = before.flatMap(c => c.segments ?? []).filter(s => s.speaker);
+  if (segments.length === 0) return undefined;
+  return {
+    speakers: Array.from(new Set(segments.map(s => s.speaker!))),
+    tail: (before.find(c => c.index === index - 1)?.segments ?? []).slice(-CONTEXT_SEGMENTS),
+  };
+};
+
+export class ChunkedTranscriptionError extends LocalizedError {
+  constructor(public failed: number, public total: number) {
+    super('transcript.errorChunks', { failed, total });
+    this.name = 'ChunkedTranscriptionError';
+  }
+}
+
+interface ChunkedTranscriptionOptions {
+  // In diarized mode each segment is sent with the speakers found before it,
+  // so the same person keeps the same number throughout a long recording
+  transcribeOptions?: Omit<TranscribeOptions, 'duration'>;
+  chunks?: TranscriptionChunk[]; // previous plan, to resume or retry
+  only?: number[]; // limit the run to these chunk indices
+  onChunksChange: (chunks: TranscriptionChunk[]) => void;
+}
+
+// Transcribes a long recording segment by segment. Segments that already
+// succeeded are skipped, so the same call resumes a partial run or retries
+// individual failures. Resolves to the merged transcript once every segment is done.
+export const transcribeInChunks = async (
+  blob: Blob,
+  provider: TranscriptionProvider,
+  { transcribeOptions, chunks: existing, only, onChunksChange }: ChunkedTranscriptionOptions
+): Promise<TranscriptionResult> => {
+  const samples = mixToMono(await decodeAudioBlob(blob, SAMPLE_RATE));
+  let chunks = existing && existing.length > 0 ? existing : planChunks(samples);
+  onChunksChange(chunks);
+
+  const update = (index: number, patch: Partial<TranscriptionChunk>) => {
+    chunks = chunks.map(c => c.index === index ? { ...c, ...patch } : c);
+    onChunksChange(chunks);
+  };
+
+  for (const chunk of chunks) {
+    if (chunk.status === TranscriptionStatus.SUCCESS) continue;
+    if (only && !only.includes(chunk.index)) continue;
+
+    update(chunk.index, { status: TranscriptionStatus.LOADING, error: undefined });
+    try {
+      const from = Math.floor(chunk.start * SAMPLE_RATE);
+      const to = Math.floor(chunk.end * SAMPLE_RATE);
+      const result = await provider.transcribe(encodeWav(samples.subarray(from, to), SAMPLE_RATE), {
+        ...transcribeOptions,
+        duration: chunk.end - chunk.start,
+        continuation: transcribeOptions?.diarize ? getSpeakerContext(chunks, chunk.index) : undefined,
+      });
+      update(chunk.index, {
+        status: TranscriptionStatus.SUCCESS,
+        segments: offsetSegments(result.segments, chunk.start),
+      });
+    } catch (error: any) {
+      // A cancelled run stops here; finished segments are kept for resuming
+      if (isAbortError(error)) {
+        update(chunk.index, { status: TranscriptionStatus.IDLE });
+        throw error;
+      }
+      update(chunk.index, { status: TranscriptionStatus.ERROR, error: error.message });
+    }
+  }
+
+  const failed = chunks.filter(c => c.status !== TranscriptionStatus.SUCCESS).length;
+  if (failed > 0) {
+    throw new ChunkedTranscriptionError(failed, chunks.length);
+  }
+
+  return mergeChunks(chunks);
+};
@@ -0,0 +1,136 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DocumentSection, DocumentTemplate, GeneratedDocument, TemplateSection } from "../types";
+import { formatTimestamp } from "../utils/audioUtils";
+import { translate } from "./i18nService";
+
+const STORAGE_KEY = 'dictofon.templates';
+
+const section = (id: string, title: string, instructions: string): TemplateSection => ({ id, title, instructions });
+
+export const BUILT_IN_TEMPLATES: DocumentTemplate[] = [
+  {
+    id: 'builtin-client-meeting',
+    name: 'Протокол встречи с клиентом',
+    description: 'Протокол консультации или встречи юриста с клиентом. Деловой стиль, без оценок и домыслов.',
+    builtIn: true,
+    sections: [
+      section('participants', 'Участники', 'Кто присутствовал и в каком качестве.'),
+      section('facts', 'Обстоятельства дела', 'Изложение фактов со слов клиента в хронологическом порядке.'),
+      section('questions', 'Вопросы клиента', 'Вопросы, с которыми обратился клиент.'),
+      section('advice', 'Позиция и рекомендации', 'Правовая позиция и рекомендации, озвученные юристом, с упомянутыми нормами.'),
+      section('agreements', 'Договоренности', 'О чем договорились: сроки, стоимость, документы, следующая встреча.'),
+    ],
+  },
+  {
+    id: 'builtin-memo',
+    name: 'Служебная записка',
+    description: 'Служебная записка руководителю по итогам обсуждения. Кратко, официально-деловым стилем.',
+    builtIn: true,
+    sections: [
+      section('subject', 'Тема', 'Одна строка: о чем записка.'),
+      section('summary', 'Суть вопроса', 'Краткое изложение ситуации.'),
+      section('analysis', 'Анализ', 'Существенные обстоятельства, риски и применимые нормы.'),
+      section('proposals', 'Предложения', 'Что предлагается сделать и почему.'),
+    ],
+  },
+  {
+    id: 'builtin-tasks',
+    name: 'Список поручений',
+    description: 'Список поручений, данных в ходе разговора.',
+    builtIn: true,
+    sections: [
+      section('tasks', 'Поручения', 'Нумерованный список: что сделать, ответственный и срок, если они названы.'),
+      section('open', 'Открытые вопросы', 'Вопросы, оставшиеся без решения.'),
+    ],
+  },
+];
+
+export const createTemplate = (): DocumentTemplate => ({
+  id: uuidv4(),
+  name: translate('template.newName'),
+  description: '',
+  sections: [createSection()],
+});
+
+export const createSection = (): TemplateSection => ({ id: uuidv4(), title: '', instructions: '' });
+
+// Editable copy of any template, built-in or not
+export const duplicateTemplate = (template: DocumentTemplate): DocumentTemplate => ({
+  ...template,
+  id: uuidv4(),
+  name: translate('template.copyName', { name: template.name }),
+  builtIn: undefined,
+  sections: template.sections.map(s => ({ ...s, id: uuidv4() })),
+});
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const validateTemplate = (raw: any): DocumentTemplate | null => {
+  if (!raw || !isString(raw.id) || !isString(raw.name) || !Array.isArray(raw.sections)) return null;
+  return {
+    id: raw.id,
+    name: raw.name,
+    description: isString(raw.description) ? raw.description : '',
+    sections: raw.sections
+      .filter((s: any) => isString(s?.title))
+      .map((s: any) => ({
+        id: isString(s.id) ? s.id : uuidv4(),
+        title: s.title,
+        instructions: isString(s.instructions) ? s.instructions : '',
+      })),
+  };
+};
+
+// Built-in templates first, then the user's own
+export const loadTemplates = (): DocumentTemplate[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    const custom = Array.isArray(parsed)
+      ? parsed.map(validateTemplate).filter((t): t is DocumentTemplate => t !== null)
+      : [];
+    return [...BUILT_IN_TEMPLATES, ...custom];
+  } catch (error) {
+    console.error("Error loading templates:", error);
+    return BUILT_IN_TEMPLATES;
+  }
+};
+
+export const saveTemplates = (templates: DocumentTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates.filter(t => !t.builtIn)));
+};
+
+export const isTemplateUsable = (template: DocumentTemplate): boolean =>
+  template.name.trim() !== '' && template.sections.some(s => s.title.trim());
+
+const normalizeTitle = (title: string): string => title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+// Puts the model output into the template's sections, in the template's
+// order, so every document of a template has the same structure.
+export const toTemplateSections = (template: DocumentTemplate, generated: DocumentSection[]): DocumentSection[] =>
+  template.sections
+    .filter(s => s.title.trim())
+    .map((s, index) => {
+      const match = generated.find(g => normalizeTitle(g.title) === normalizeTitle(s.title)) ?? generated[index];
+      return { title: s.title.trim(), content: match?.content.trim() ?? '' };
+    });
+
+export const createDocument = (template: DocumentTemplate, sections: DocumentSection[]): GeneratedDocument => ({
+  id: uuidv4(),
+  templateId: template.id,
+  templateName: template.name,
+  createdAt: Date.now(),
+  sections: toTemplateSections(template, sections),
+});
+
+export const documentToMarkdown = (document: GeneratedDocument): string =>
+  [
+    `# ${document.templateName}`,
+    `_${formatTimestamp(document.createdAt)}_`,
+    ...document.sections.map(s => `## ${s.title}\n\n${s.content || '—'}`),
+  ].join('\n\n') + '\n';
+
+export const documentToText = (document: GeneratedDocument): string =>
+  [
+    document.templateName.toUpperCase(),
+    ...document.sections.map(s => `${s.title}\n${s.content || '—'}`),
+  ].join('\n\n');
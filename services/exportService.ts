@@ -0,0 +1,253 @@
+import { Bookmark, Recording } from "../types";
+import { formatDuration, formatTimestamp } from "../utils/audioUtils";
+import { getSpeakerName, transcriptToText } from "../utils/transcriptUtils";
+import { formatBookmark, sortBookmarks } from "../utils/bookmarkUtils";
+import { createZip } from "../utils/zipUtils";
+import { MessageKey } from "./i18nService";
+
+export type ExportFormat = 'txt' | 'md' | 'srt' | 'vtt' | 'docx';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: MessageKey; needsTimestamps: boolean }[] = [
+  { id: 'txt', label: 'export.txt', needsTimestamps: false },
+  { id: 'md', label: 'export.md', needsTimestamps: false },
+  { id: 'docx', label: 'export.docx', needsTimestamps: false },
+  { id: 'srt', label: 'export.srt', needsTimestamps: true },
+  { id: 'vtt', label: 'export.vtt', needsTimestamps: true },
+];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  txt: 'text/plain;charset=utf-8',
+  md: 'text/markdown;charset=utf-8',
+  srt: 'application/x-subrip;charset=utf-8',
+  vtt: 'text/vtt;charset=utf-8',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+export const canExport = (recording: Recording, format: ExportFormat): boolean => {
+  if (!recording.transcript) return false;
+  const needsTimestamps = EXPORT_FORMATS.find(f => f.id === format)?.needsTimestamps;
+  return !needsTimestamps || (recording.segments?.length ?? 0) > 0;
+};
+
+const getTitle = (recording: Recording): string =>
+  recording.name || `Запись ${formatTimestamp(recording.timestamp)}`;
+
+// File-system safe name; the extension is added by the caller
+export const getExportBaseName = (recording: Recording): string => {
+  const base = recording.name
+    ? recording.name.replace(/\.[^.]+$/, '')
+    : `Запись ${new Date(recording.timestamp).toISOString().slice(0, 16).replace('T', ' ').replace(':', '-')}`;
+  return base.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'Запись';
+};
+
+// 00:01:02,345 for SRT, 00:01:02.345 for WebVTT
+const formatTimecode = (seconds: number, separator: ',' | '.'): string => {
+  const ms = Math.round(seconds * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, size = 2) => n.toString().padStart(size, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+const speakerPrefix = (recording: Recording, speaker?: string): string =>
+  speaker ? `${getSpeakerName(recording, speaker)}: ` : '';
+
+const getBookmarks = (recording: Recording) => sortBookmarks(recording.bookmarks ?? []);
+
+export const renderText = (recording: Recording): string => {
+  const bookmarks = getBookmarks(recording);
+  const notes = bookmarks.length > 0 ? `\n\nОтметки:\n${bookmarks.map(formatBookmark).join('\n')}` : '';
+  return `${transcriptToText(recording)}${notes}\n`;
+};
+
+export const renderMarkdown = (recording: Recording): string => {
+  const lines = [
+    `# ${getTitle(recording)}`,
+    '',
+    `- **Дата:** ${formatTimestamp(recording.timestamp)}`,
+    `- **Длительность:** ${formatDuration(recording.duration)}`,
+    '',
+    '## Транскрипция',
+    '',
+  ];
+
+  const segments = recording.segments ?? [];
+  if (segments.length > 0) {
+    segments.forEach((segment) => {
+      const speaker = segment.speaker ? `**${getSpeakerName(recording, segment.speaker)}:** ` : '';
+      lines.push(`\`${formatDuration(segment.start)}\` ${speaker}${segment.text}`, '');
+    });
+  } else {
+    lines.push(recording.transcript ?? '', '');
+  }
+
+  const bookmarks = getBookmarks(recording);
+  if (bookmarks.length > 0) {
+    lines.push('## Отметки', '');
+    bookmarks.forEach((bookmark) => {
+      lines.push(`- \`${formatDuration(bookmark.time)}\`${bookmark.note ? ` ${bookmark.note}` : ''}`);
+    });
+    lines.push('');
+  }
+
+  return lines.join('\n');
+};
+
+// SRT has no comment syntax, so bookmarks are left out rather than shown as subtitles
+export const renderSrt = (recording: Recording): string =>
+  (recording.segments ?? [])
+    .map((segment, i) => [
+      i + 1,
+      `${formatTimecode(segment.start, ',')} --> ${formatTimecode(segment.end, ',')}`,
+      `${speakerPrefix(recording, segment.speaker)}${segment.text}`,
+      '',
+    ].join('\n'))
+    .join('\n');
+
+// A NOTE block may not contain "-->", or players would take it for a cue
+const vttNote = (bookmark: Bookmark): string =>
+  `NOTE Отметка ${formatTimecode(bookmark.time, '.')}${bookmark.note ? ` ${bookmark.note.replace(/-->/g, '→')}` : ''}\n`;
+
+// Bookmarks go in as NOTE blocks before the cue they fall into
+export const renderVtt = (recording: Recording): string => {
+  const bookmarks = getBookmarks(recording);
+  const segments = recording.segments ?? [];
+  const blocks = segments.map((segment, i) => {
+    const isLast = i === segments.length - 1;
+    const notes = bookmarks.filter(b => (i === 0 || b.time >= segment.start) && (isLast || b.time < segments[i + 1].start));
+    return [
+      ...notes.map(vttNote),
+      [
+        `${formatTimecode(segment.start, '.')} --> ${formatTimecode(segment.end, '.')}`,
+        segment.speaker
+          ? `<v ${getSpeakerName(recording, segment.speaker)}>${segment.text}`
+          : segment.text,
+        '',
+      ].join('\n'),
+    ].join('\n');
+  });
+  return ['WEBVTT', '', ...blocks].join('\n');
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+interface DocxRun {
+  text: string;
+  bold?: boolean;
+  size?: number; // in points
+  color?: string;
+}
+
+const docxParagraph = (runs: DocxRun[], spacingAfter = 120): string => {
+  const body = runs.map(({ text, bold, size, color }) => {
+    const props = [
+      bold ? '<w:b/>' : '',
+      color ? `<w:color w:val="${color}"/>` : '',
+      size ? `<w:sz w:val="${size * 2}"/>` : '',
+    ].join('');
+    return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+  }).join('');
+  return `<w:p><w:pPr><w:spacing w:after="${spacingAfter}"/></w:pPr>${body}</w:p>`;
+};
+
+const DOCX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>`;
+
+const DOCX_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`;
+
+// Builds a minimal WordprocessingML package entirely in the browser
+export const renderDocx = (recording: Recording): Blob => {
+  const paragraphs = [
+    docxParagraph([{ text: getTitle(recording), bold: true, size: 16 }], 240),
+    docxParagraph([{ text: 'Дата: ', bold: true }, { text: formatTimestamp(recording.timestamp) }], 0),
+    docxParagraph([{ text: 'Длительность: ', bold: true }, { text: formatDuration(recording.duration) }], 240),
+  ];
+
+  const segments = recording.segments ?? [];
+  if (segments.length > 0) {
+    segments.forEach((segment) => {
+      paragraphs.push(docxParagraph([
+        { text: `[${formatDuration(segment.start)}] `, color: '6366F1' },
+        ...(segment.speaker ? [{ text: speakerPrefix(recording, segment.speaker), bold: true }] : []),
+        { text: segment.text },
+      ]));
+    });
+  } else {
+    (recording.transcript ?? '').split(/\n{2,}/).forEach((text) => {
+      paragraphs.push(docxParagraph([{ text: text.replace(/\n/g, ' ') }]));
+    });
+  }
+
+  const bookmarks = getBookmarks(recording);
+  if (bookmarks.length > 0) {
+    paragraphs.push(docxParagraph([{ text: 'Отметки', bold: true, size: 13 }], 120));
+    bookmarks.forEach((bookmark) => {
+      paragraphs.push(docxParagraph([
+        { text: `[${formatDuration(bookmark.time)}] `, color: 'D97706' },
+        { text: bookmark.note },
+      ], 60));
+    });
+  }
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${paragraphs.join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="850" w:bottom="1134" w:left="1701" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: DOCX_CONTENT_TYPES },
+    { name: '_rels/.rels', data: DOCX_RELS },
+    { name: 'word/document.xml', data: document },
+  ], MIME_TYPES.docx);
+};
+
+export const renderRecording = (recording: Recording, format: ExportFormat): Blob => {
+  switch (format) {
+    case 'txt': return new Blob([renderText(recording)], { type: MIME_TYPES.txt });
+    case 'md': return new Blob([renderMarkdown(recording)], { type: MIME_TYPES.md });
+    case 'srt': return new Blob([renderSrt(recording)], { type: MIME_TYPES.srt });
+    case 'vtt': return new Blob([renderVtt(recording)], { type: MIME_TYPES.vtt });
+    case 'docx': return renderDocx(recording);
+  }
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const exportRecording = (recording: Recording, format: ExportFormat) => {
+  downloadBlob(renderRecording(recording, format), `${getExportBaseName(recording)}.${format}`);
+};
+
+// Several recordings go into one ZIP archive, one file per recording.
+// Returns how many recordings were skipped for lack of a suitable transcript.
+export const exportRecordings = async (recordings: Recording[], format: ExportFormat): Promise<number> => {
+  const exportable = recordings.filter(r => canExport(r, format));
+  if (exportable.length === 1) {
+    exportRecording(exportable[0], format);
+  } else if (exportable.length > 1) {
+    const usedNames = new Set<string>();
+    const entries = await Promise.all(exportable.map(async (recording) => {
+      let name = getExportBaseName(recording);
+      for (let n = 2; usedNames.has(name); n++) name = `${getExportBaseName(recording)} (${n})`;
+      usedNames.add(name);
+      const data = new Uint8Array(await renderRecording(recording, format).arrayBuffer());
+      return { name: `${name}.${format}`, data };
+    }));
+    downloadBlob(createZip(entries), `Расшифровки.zip`);
+  }
+  return recordings.length - exportable.length;
+};
@@ -1,21 +1,94 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, Type } from "@google/genai";
+import { DocumentSection, DocumentTemplate, TranscriptionResult } from "../types";
 import { blobToBase64 } from "../utils/audioUtils";
+import { parseSegments, segmentsToText } from "../utils/transcriptUtils";
+import { LocalizedError, MessageKey } from "./i18nService";
+import { isAbortError, SpeakerContext, TranscribeOptions, TranscriptionProvider, TranscriptionRequestError } from "./transcriptionProvider";
 
 const API_KEY = process.env.API_KEY;
 
-if (!API_KEY) {
-  console.error("API_KEY is missing from environment variables.");
+let ai: GoogleGenAI | null = null;
+
+// Created on first use so that picking another provider never touches the SDK
+const getClient = (): GoogleGenAI => {
+  if (!ai) {
+    if (!API_KEY) {
+      console.error("API_KEY is missing from environment variables.");
+    }
+    ai = new GoogleGenAI({ apiKey: API_KEY });
+  }
+  return ai;
+};
+
+const buildTranscriptSchema = (diarize: boolean) => ({
+  type: Type.OBJECT,
+  properties: {
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.STRING, description: "Начало фрагмента от начала записи, MM:SS" },
+          end: { type: Type.STRING, description: "Конец фрагмента от начала записи, MM:SS" },
+          text: { type: Type.STRING },
+          ...(diarize && {
+            speaker: { type: Type.STRING, description: "Номер говорящего: 1, 2, 3..." },
+          }),
+        },
+        required: diarize ? ["start", "end", "speaker", "text"] : ["start", "end", "text"],
+        propertyOrdering: diarize ? ["start", "end", "speaker", "text"] : ["start", "end", "text"],
+      },
+    },
+  },
+  required: ["segments"],
+});
+
+export interface GeminiConfig {
+  model: string;
+  temperature: number;
+  language: string; // ISO 639-1 code of the speech, '' to let the model detect it
+  prompt: string; // the chosen preset; the response format is described separately
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+const SEGMENT_PROMPT = "Раздели текст на фрагменты по естественным паузам (одна-три фразы в каждом) и укажи для каждого время начала и конца от начала записи в формате MM:SS.";
 
-export const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
-  try {
-    const base64Audio = await blobToBase64(audioBlob);
-    const mimeType = audioBlob.type || 'audio/webm';
+const DIARIZE_PROMPT = "В записи участвуют несколько человек. Определи, кто говорит, и укажи для каждого фрагмента номер говорящего (1, 2, 3...) в порядке их первого появления. Начинай новый фрагмент при каждой смене говорящего.";
+
+const languageNames = new Intl.DisplayNames(['ru'], { type: 'language' });
+
+// The model numbers speakers afresh in every request, so a part of a long
+// recording is told who was speaking just before it
+const buildContinuationPrompt = ({ speakers, tail }: SpeakerContext): string => {
+  const lines = tail.map(s => `Говорящий ${s.speaker ?? '?'}: ${s.text}`).join(' / ');
+  const next = speakers.length + 1;
+  return `Это продолжение записи, в которой уже звучали говорящие ${speakers.join(', ')}. Предыдущая часть закончилась так: «${lines}». Сохрани прежние номера за теми же голосами, новым участникам давай номера начиная с ${next}.`;
+};
+
+const buildPrompt = (config: GeminiConfig, diarize: boolean, vocabulary: string[], continuation?: SpeakerContext): string => {
+  const parts = [config.prompt, SEGMENT_PROMPT];
+  parts.push(config.language
+    ? `Речь в записи на языке: ${languageNames.of(config.language)}. Записывай ее на этом же языке.`
+    : "Определи язык речи сам и записывай ее на языке оригинала, без перевода.");
+  if (diarize) parts.push(DIARIZE_PROMPT);
+  if (diarize && continuation && continuation.speakers.length > 0) parts.push(buildContinuationPrompt(continuation));
+  if (vocabulary.length > 0) {
+    parts.push(`В записи могут встречаться следующие термины, имена и обозначения. Используй именно такое написание: ${vocabulary.join('; ')}.`);
+  }
+  return parts.join(' ');
+};
+
+const transcribeAudio = async (
+  config: GeminiConfig,
+  audioBlob: Blob,
+  { duration, diarize = false, vocabulary = [], signal, continuation }: TranscribeOptions = {}
+): Promise<TranscriptionResult> => {
+  const base64Audio = await blobToBase64(audioBlob);
+  const mimeType = audioBlob.type || 'audio/webm';
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+  let response;
+  try {
+    response = await getClient().models.generateContent({
+      model: config.model,
       contents: {
         parts: [
           {
@@ -25,18 +98,144 @@ export const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
             }
           },
           {
-            text: "Пожалуйста, сделай точную транскрипцию этой аудиозаписи. Отформатируй вывод с четкими разрывами абзацев там, где есть естественные паузы. Не добавляй никаких вводных или заключительных замечаний, только текст транскрипции."
+            text: buildPrompt(config, diarize, vocabulary, continuation)
           }
         ]
       },
       config: {
-        temperature: 0.2, // Low temperature for more accurate transcription
+        temperature: config.temperature,
+        responseMimeType: "application/json",
+        responseSchema: buildTranscriptSchema(diarize),
+        abortSignal: signal,
       }
     });
-
-    return response.text || "Транскрипция не создана.";
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     console.error("Transcription error:", error);
-    throw new Error(error.message || "Не удалось транскрибировать аудио.");
+    // The SDK's ApiError carries the HTTP status; network failures have none
+    throw new TranscriptionRequestError(
+      error.message ? 'gemini.errorService' : 'gemini.errorTranscribe',
+      { detail: error.message },
+      typeof error.status === 'number' ? error.status : undefined
+    );
+  }
+
+  const segments = parseSegments(response.text || '{"segments": []}', duration);
+  return { text: segmentsToText(segments), segments };
+};
+
+const documentSchema = {
+  type: Type.OBJECT,
+  properties: {
+    sections: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          content: { type: Type.STRING },
+        },
+        required: ["title", "content"],
+        propertyOrdering: ["title", "content"],
+      },
+    },
+  },
+  required: ["sections"],
+};
+
+const buildDocumentPrompt = (template: DocumentTemplate, transcript: string): string => {
+  const sections = template.sections
+    .filter(s => s.title.trim())
+    .map((s, i) => `${i + 1}. «${s.title.trim()}»${s.instructions.trim() ? ` — ${s.instructions.trim()}` : ''}`)
+    .join('\n');
+  return [
+    `Составь документ «${template.name}» по транскрипции аудиозаписи ниже.`,
+    template.description.trim(),
+    `Документ должен состоять ровно из следующих разделов, в этом порядке и с этими заголовками:\n${sections}`,
+    "Используй только сведения из транскрипции, ничего не придумывай. Если для раздела сведений нет, напиши «Не обсуждалось». Пиши на русском языке, без Markdown-разметки.",
+    `Транскрипция:\n${transcript}`,
+  ].filter(Boolean).join('\n\n');
+};
+
+export const generateDocument = async (
+  transcript: string,
+  template: DocumentTemplate,
+  { model, temperature }: Pick<GeminiConfig, 'model' | 'temperature'>
+): Promise<DocumentSection[]> => {
+  try {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: buildDocumentPrompt(template, transcript),
+      config: {
+        temperature,
+        responseMimeType: "application/json",
+        responseSchema: documentSchema,
+      }
+    });
+
+    const data = JSON.parse(response.text || '{"sections": []}');
+    if (!Array.isArray(data?.sections)) {
+      throw new LocalizedError('gemini.errorDocumentFormat');
+    }
+    return data.sections
+      .filter((s: any) => typeof s?.title === 'string' && typeof s?.content === 'string')
+      .map((s: any) => ({ title: s.title, content: s.content }));
+  } catch (error: any) {
+    console.error("Document generation error:", error);
+    if (error instanceof LocalizedError) throw error;
+    throw new LocalizedError(error.message ? 'gemini.errorService' : 'gemini.errorDocument', { detail: error.message });
+  }
+};
+
+const namesSchema = {
+  type: Type.OBJECT,
+  properties: {
+    names: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["names"],
+};
+
+// Mentions of people as they are written in the text, in any grammatical case;
+// used to find names the redaction patterns miss, such as a bare surname
+export const findPersonNames = async (
+  text: string,
+  { model }: Pick<GeminiConfig, 'model'>
+): Promise<string[]> => {
+  try {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: [
+        "Найди в тексте все упоминания конкретных людей: фамилии, имена, отчества, инициалы и их сочетания, в любом падеже.",
+        "Выпиши каждое упоминание ровно так, как оно написано в тексте, без изменений и без повторов. Не включай должности, названия организаций, улиц и городов.",
+        `Текст:\n${text}`,
+      ].join('\n\n'),
+      config: {
+        temperature: 0,
+        responseMimeType: "application/json",
+        responseSchema: namesSchema,
+      }
+    });
+
+    const data = JSON.parse(response.text || '{"names": []}');
+    if (!Array.isArray(data?.names)) {
+      throw new LocalizedError('gemini.errorNamesFormat');
+    }
+    return data.names.filter((name: unknown): name is string => typeof name === 'string');
+  } catch (error: any) {
+    console.error("Name detection error:", error);
+    if (error instanceof LocalizedError) throw error;
+    throw new LocalizedError(error.message ? 'gemini.errorService' : 'gemini.errorNames', { detail: error.message });
   }
-};
\ No newline at end of file
+};
+
+export const GEMINI_LABEL: MessageKey = 'provider.gemini';
+
+export const createGeminiProvider = (config: GeminiConfig): TranscriptionProvider => ({
+  id: 'gemini',
+  label: GEMINI_LABEL,
+  supportsDiarization: true,
+  // Inline request payloads are capped at 20 MB and base64 inflates data by a third
+  maxUploadBytes: 14 * 1024 * 1024,
+  isLocal: false,
+  transcribe: (audioBlob, options) => transcribeAudio(config, audioBlob, options),
+});
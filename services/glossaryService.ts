@@ -0,0 +1,254 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Glossary, GlossaryEntry, Matter, Recording, ReplacementRule, TranscriptionResult } from "../types";
+import { parseNumberWords } from "../utils/numberWords";
+import { segmentsToText } from "../utils/transcriptUtils";
+import { LocalizedError, MessageKey, MessageParams, translate } from "./i18nService";
+
+const STORAGE_KEY = 'dictofon.glossaries';
+const FILE_FORMAT = 'dictofon-glossary';
+const FILE_VERSION = 1;
+
+export class GlossaryFormatError extends LocalizedError {
+  constructor(key: MessageKey, params?: MessageParams) {
+    super(key, params);
+    this.name = 'GlossaryFormatError';
+  }
+}
+
+const createDefaultGlossary = (): Glossary => ({
+  id: uuidv4(),
+  name: translate('glossary.defaultName'),
+  enabled: true,
+  convertLegalNumbers: true,
+  entries: [
+    { id: uuidv4(), term: 'УК РФ', variants: ['уголовного кодекса российской федерации', 'уголовный кодекс российской федерации'] },
+    { id: uuidv4(), term: 'ГК РФ', variants: ['гражданского кодекса российской федерации', 'гражданский кодекс российской федерации'] },
+    { id: uuidv4(), term: 'АПК РФ', variants: ['арбитражного процессуального кодекса'] },
+    { id: uuidv4(), term: 'ГПК РФ', variants: ['гражданского процессуального кодекса'] },
+  ],
+  rules: [],
+});
+
+export const createGlossary = (name: string): Glossary => ({
+  id: uuidv4(),
+  name,
+  enabled: true,
+  convertLegalNumbers: false,
+  entries: [],
+  rules: [],
+});
+
+export const createEntry = (): GlossaryEntry => ({ id: uuidv4(), term: '', variants: [] });
+
+export const createRule = (): ReplacementRule => ({ id: uuidv4(), pattern: '', replacement: '', isRegex: false });
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+// Accepts both stored data and user-supplied files, so every field is checked
+const validateGlossary = (raw: unknown, index: number): Glossary => {
+  if (!isObject(raw) || !isString(raw.name)) {
+    throw new GlossaryFormatError('glossary.errorNoName', { index: index + 1 });
+  }
+  const name = raw.name;
+  const entries: unknown[] = Array.isArray(raw.entries) ? raw.entries : [];
+  const rules: unknown[] = Array.isArray(raw.rules) ? raw.rules : [];
+
+  return {
+    id: isString(raw.id) ? raw.id : uuidv4(),
+    name,
+    matterId: isString(raw.matterId) && raw.matterId ? raw.matterId : undefined,
+    enabled: raw.enabled !== false,
+    convertLegalNumbers: raw.convertLegalNumbers === true,
+    entries: entries.map((e, i): GlossaryEntry => {
+      if (!isObject(e) || !isString(e.term)) throw new GlossaryFormatError('glossary.errorTerm', { index: i + 1, name });
+      return {
+        id: isString(e.id) ? e.id : uuidv4(),
+        term: e.term,
+        variants: Array.isArray(e.variants) ? e.variants.filter(isString) : [],
+        note: isString(e.note) && e.note ? e.note : undefined,
+      };
+    }),
+    rules: rules.map((r, i): ReplacementRule => {
+      if (!isObject(r) || !isString(r.pattern) || !isString(r.replacement)) {
+        throw new GlossaryFormatError('glossary.errorRule', { index: i + 1, name });
+      }
+      return {
+        id: isString(r.id) ? r.id : uuidv4(),
+        pattern: r.pattern,
+        replacement: r.replacement,
+        isRegex: r.isRegex === true,
+      };
+    }),
+  };
+};
+
+// Glossaries used to name their matter in free text. The name is matched to a
+// matter where possible; otherwise the glossary becomes general and keeps the
+// name in its title so the user can link it again.
+const migrateMatterName = (raw: unknown, glossary: Glossary, matters: Matter[]): Glossary => {
+  if (glossary.matterId || !isObject(raw) || !isString(raw.matter) || !raw.matter.trim()) return glossary;
+  const name = raw.matter.trim();
+  const matter = matters.find(m => m.name.trim().toLowerCase() === name.toLowerCase());
+  return matter
+    ? { ...glossary, matterId: matter.id }
+    : { ...glossary, name: `${glossary.name} (${name})` };
+};
+
+export const loadGlossaries = (matters: Matter[]): Glossary[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === null) return [createDefaultGlossary()];
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed)
+      ? parsed.map((raw, index) => migrateMatterName(raw, validateGlossary(raw, index), matters))
+      : [createDefaultGlossary()];
+  } catch (error) {
+    console.error("Error loading glossaries:", error);
+    return [createDefaultGlossary()];
+  }
+};
+
+export const saveGlossaries = (glossaries: Glossary[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(glossaries));
+};
+
+// General glossaries apply everywhere, a matter's glossary only to its recordings
+export const getActiveGlossaries = (glossaries: Glossary[], recording: Pick<Recording, 'matterId'>): Glossary[] =>
+  glossaries.filter(g => g.enabled && (!g.matterId || g.matterId === recording.matterId));
+
+// Terms passed to the model as context, with notes where the user gave them
+export const buildVocabulary = (glossaries: Glossary[]): string[] =>
+  Array.from(new Set(glossaries.flatMap(g =>
+    g.entries
+      .filter(e => e.term.trim())
+      .map(e => (e.note ? `${e.term.trim()} (${e.note})` : e.term.trim()))
+  )));
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match that also works for Cyrillic, where \b does not
+const wholeWord = (pattern: string): RegExp =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${pattern}(?![\\p{L}\\p{N}])`, 'giu');
+
+export const compileRule = (rule: ReplacementRule): RegExp | null => {
+  if (!rule.pattern.trim()) return null;
+  try {
+    return rule.isRegex
+      ? new RegExp(rule.pattern, 'giu')
+      : wholeWord(escapeRegExp(rule.pattern.trim()).replace(/\s+/g, '\\s+'));
+  } catch {
+    return null;
+  }
+};
+
+const LEGAL_UNITS: [RegExp, string][] = [
+  [/^стать(я|и|е|ю|ей|ям|ях|ями)$/i, 'ст.'],
+  [/^част(ь|и|ью|ям|ях|ями)$/i, 'ч.'],
+  [/^пункт(а|е|у|ом|ы|ов|ам|ах|ами)?$/i, 'п.'],
+];
+
+// "статья сто пятьдесят девять" → "ст. 159", "части второй" → "ч. 2"
+export const convertLegalNumbers = (text: string): string => {
+  const words = Array.from(text.matchAll(/[\p{L}\p{N}]+/gu));
+  let result = '';
+  let cursor = 0;
+
+  for (let i = 0; i < words.length; i++) {
+    const unit = LEGAL_UNITS.find(([pattern]) => pattern.test(words[i][0]));
+    if (!unit) continue;
+
+    // Number words must directly follow the unit, separated only by spaces
+    const following: string[] = [];
+    for (let j = i + 1; j < words.length; j++) {
+      const previous = words[j - 1];
+      const gap = text.slice((previous.index ?? 0) + previous[0].length, words[j].index);
+      if (!/^\s+$/.test(gap)) break;
+      following.push(words[j][0]);
+    }
+
+    const parsed = parseNumberWords(following);
+    if (!parsed) continue;
+
+    const start = words[i].index ?? 0;
+    const lastWord = words[i + parsed.wordCount];
+    const abbreviation = /^\p{Lu}/u.test(words[i][0])
+      ? unit[1][0].toUpperCase() + unit[1].slice(1)
+      : unit[1];
+
+    result += text.slice(cursor, start) + `${abbreviation} ${parsed.value}`;
+    cursor = (lastWord.index ?? 0) + lastWord[0].length;
+    i += parsed.wordCount;
+  }
+
+  return result + text.slice(cursor);
+};
+
+// Deterministic post-processing applied after every transcription: user rules
+// first, then legal number conversion, then glossary spellings.
+export const applyGlossaries = (text: string, glossaries: Glossary[]): string =>
+  glossaries.reduce((current, glossary) => {
+    let next = current;
+
+    glossary.rules.forEach((rule) => {
+      const regex = compileRule(rule);
+      if (!regex) return;
+      next = rule.isRegex
+        ? next.replace(regex, rule.replacement)
+        : next.replace(regex, () => rule.replacement);
+    });
+
+    if (glossary.convertLegalNumbers) {
+      next = convertLegalNumbers(next);
+    }
+
+    glossary.entries.forEach((entry) => {
+      const term = entry.term.trim();
+      if (!term) return;
+      entry.variants.forEach((variant) => {
+        const regex = compileRule({ id: entry.id, pattern: variant, replacement: term, isRegex: false });
+        if (regex) next = next.replace(regex, () => term);
+      });
+    });
+
+    return next;
+  }, text);
+
+export const applyGlossariesToResult = (result: TranscriptionResult, glossaries: Glossary[]): TranscriptionResult => {
+  if (glossaries.length === 0) return result;
+  if (result.segments.length === 0) {
+    return { ...result, text: applyGlossaries(result.text, glossaries) };
+  }
+  const segments = result.segments.map(s => ({ ...s, text: applyGlossaries(s.text, glossaries) }));
+  return { text: segmentsToText(segments), segments };
+};
+
+export const exportGlossariesFile = (glossaries: Glossary[]): Blob =>
+  new Blob(
+    [JSON.stringify({ format: FILE_FORMAT, version: FILE_VERSION, glossaries }, null, 2)],
+    { type: 'application/json' }
+  );
+
+// Imported glossaries always get fresh ids so they never overwrite existing ones
+export const parseGlossariesFile = (json: string): Glossary[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new GlossaryFormatError('glossary.errorJson');
+  }
+  if (!isObject(data) || data.format !== FILE_FORMAT || !Array.isArray(data.glossaries)) {
+    throw new GlossaryFormatError('glossary.errorFormat');
+  }
+  if (typeof data.version === 'number' && data.version > FILE_VERSION) {
+    throw new GlossaryFormatError('glossary.errorVersion', { version: String(data.version) });
+  }
+  return data.glossaries.map(validateGlossary).map(g => ({
+    ...g,
+    id: uuidv4(),
+    entries: g.entries.map(e => ({ ...e, id: uuidv4() })),
+    rules: g.rules.map(r => ({ ...r, id: uuidv4() })),
+  }));
+};
@@ -0,0 +1,98 @@
+import ru from "../locales/ru";
+import en from "../locales/en";
+
+const STORAGE_KEY = 'dictofon.locale';
+
+// Interface language only; the speech language is a transcription setting
+export type Locale = 'ru' | 'en';
+
+// Forms are picked with Intl.PluralRules: ru uses one/few/many, en one/other
+export interface PluralMessage {
+  one?: string;
+  few?: string;
+  many?: string;
+  other: string;
+}
+
+export type Message = string | PluralMessage;
+export type MessageKey = keyof typeof ru;
+export type Catalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+export const LOCALE_OPTIONS: { code: Locale; label: string }[] = [
+  { code: 'ru', label: 'Русский' },
+  { code: 'en', label: 'English' },
+];
+
+const CATALOGS: Record<Locale, Catalog> = { ru, en };
+
+const INTL_LOCALES: Record<Locale, string> = { ru: 'ru-RU', en: 'en-GB' };
+
+const isLocale = (value: unknown): value is Locale => value === 'ru' || value === 'en';
+
+// Without a stored choice, Russian-speaking browsers get Russian and everyone else English
+const detectLocale = (): Locale => {
+  const languages = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  const preferred = languages.find(language => /^(ru|en)\b/i.test(language));
+  return preferred?.toLowerCase().startsWith('en') ? 'en' : preferred ? 'ru' : 'en';
+};
+
+const loadLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isLocale(stored) ? stored : detectLocale();
+  } catch (error) {
+    console.error("Error loading interface language:", error);
+    return 'ru';
+  }
+};
+
+let currentLocale: Locale = loadLocale();
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+export const getLocale = (): Locale => currentLocale;
+
+// BCP 47 tag for Intl formatters
+export const getIntlLocale = (): string => INTL_LOCALES[currentLocale];
+
+export const setLocale = (locale: Locale) => {
+  currentLocale = locale;
+  localStorage.setItem(STORAGE_KEY, locale);
+};
+
+const selectPlural = (message: PluralMessage, count: number): string => {
+  let rules = pluralRules.get(currentLocale);
+  if (!rules) {
+    rules = new Intl.PluralRules(INTL_LOCALES[currentLocale]);
+    pluralRules.set(currentLocale, rules);
+  }
+  const form = rules.select(count) as keyof PluralMessage;
+  return message[form] ?? message.other;
+};
+
+// Plural messages need a numeric `count` parameter; `{name}` placeholders are filled from params
+export const translate = (key: MessageKey, params: MessageParams = {}): string => {
+  const message = CATALOGS[currentLocale][key] ?? ru[key];
+  const text = typeof message === 'string'
+    ? message
+    : selectPlural(message, typeof params.count === 'number' ? params.count : 0);
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+};
+
+// An error meant for the user. It carries a catalog key instead of text, so the
+// interface shows it in the current language; `message` is only for the log.
+export class LocalizedError extends Error {
+  constructor(public key: MessageKey, public params: MessageParams = {}) {
+    super(translate(key, params));
+    this.name = 'LocalizedError';
+  }
+}
+
+// What the interface shows for a caught error: localized errors in the current
+// language, anything else by its own message or the fallback
+export const describeError = (error: unknown, fallback: MessageKey): string => {
+  if (error instanceof LocalizedError) return translate(error.key, error.params);
+  return error instanceof Error && error.message ? error.message : translate(fallback);
+};
@@ -0,0 +1,144 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Recording, TranscriptionStatus } from "../types";
+import { AudioFormatError, getAudioDuration } from "../utils/audioUtils";
+import { LocalizedError, MessageKey, MessageParams, translate } from "./i18nService";
+import { CONTAINER_MIME_TYPES, parseFileNameDate, readAudioMetadata } from "../utils/audioMetadata";
+
+export const ACCEPTED_AUDIO = 'audio/*,.mp3,.m4a,.mp4,.aac,.ogg,.oga,.opus,.wav,.webm,.flac';
+
+const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'mp4', 'aac', 'ogg', 'oga', 'opus', 'wav', 'webm', 'flac'];
+// Voice messages and screen recordings often come with a video type but audio inside
+const AUDIO_LIKE_TYPES = ['video/mp4', 'video/webm', 'video/ogg', 'application/ogg'];
+
+export interface ImportRejection {
+  name: string;
+  reason: MessageKey;
+  params?: MessageParams;
+}
+
+export interface ImportProgress {
+  total: number;
+  done: number;
+  current?: string; // name of the file being read
+}
+
+export interface ImportReport {
+  imported: Recording[];
+  rejected: ImportRejection[];
+}
+
+class ImportRejectedError extends LocalizedError {
+  constructor(key: MessageKey, params?: MessageParams) {
+    super(key, params);
+    this.name = 'ImportRejectedError';
+  }
+}
+
+const extensionOf = (name: string): string => name.split('.').pop()?.toLowerCase() ?? '';
+
+const checkType = (file: File) => {
+  if (file.size === 0) throw new ImportRejectedError('import.errorEmpty');
+  const type = file.type.toLowerCase();
+  const looksLikeAudio = type
+    ? type.startsWith('audio/') || AUDIO_LIKE_TYPES.includes(type)
+    : AUDIO_EXTENSIONS.includes(extensionOf(file.name));
+  if (!looksLikeAudio) {
+    throw new ImportRejectedError('import.errorNotAudio', { type: type || extensionOf(file.name) || translate('import.unknownType') });
+  }
+};
+
+// Reads and validates one file. The timestamp comes from the container's own
+// tags, then from a date in the file name, then from the file's modification time.
+export const importAudioFile = async (file: File): Promise<Recording> => {
+  checkType(file);
+
+  const metadata = await readAudioMetadata(file);
+  if (!metadata) throw new ImportRejectedError('import.errorUnsupported');
+
+  // Store the blob under the sniffed type; extensions and OS-reported types lie
+  const blob = new Blob([file], { type: CONTAINER_MIME_TYPES[metadata.container] });
+
+  let duration: number;
+  try {
+    duration = await getAudioDuration(blob);
+  } catch (error) {
+    if (error instanceof AudioFormatError) throw new ImportRejectedError(error.key, error.params);
+    throw error;
+  }
+  if (duration <= 0) throw new ImportRejectedError('import.errorSilent');
+
+  return {
+    id: uuidv4(),
+    blob,
+    url: URL.createObjectURL(blob),
+    timestamp: metadata.recordedAt ?? parseFileNameDate(file.name) ?? (file.lastModified || Date.now()),
+    duration,
+    transcript: null,
+    status: TranscriptionStatus.IDLE,
+    name: file.name,
+  };
+};
+
+// Files are read one at a time: each one is decoded by an <audio> element and
+// a day of recordings can be several gigabytes.
+export const importFiles = async (
+  files: File[],
+  onProgress: (progress: ImportProgress) => void
+): Promise<ImportReport> => {
+  const imported: Recording[] = [];
+  const rejected: ImportRejection[] = [];
+
+  for (const [index, file] of files.entries()) {
+    onProgress({ total: files.length, done: index, current: file.name });
+    try {
+      imported.push(await importAudioFile(file));
+    } catch (error: any) {
+      if (!(error instanceof ImportRejectedError)) console.error("Error importing file:", error);
+      rejected.push(error instanceof ImportRejectedError
+        ? { name: file.name, reason: error.key, params: error.params }
+        : { name: file.name, reason: 'import.errorRead' });
+    }
+  }
+
+  onProgress({ total: files.length, done: files.length });
+  return { imported, rejected };
+};
+
+const readAllEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns at most 100 entries per call
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const collectEntry = async (entry: FileSystemEntry, files: File[]) => {
+  // Skip .DS_Store and similar
+  if (entry.name.startsWith('.')) return;
+  if (entry.isFile) {
+    files.push(await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject)));
+  } else if (entry.isDirectory) {
+    for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+      await collectEntry(child, files);
+    }
+  }
+};
+
+// Flattens dropped files and folders (recursively) into a list of files
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Entries must be taken synchronously, before the drop event handler returns
+  const items = Array.from(dataTransfer.items).filter(item => item.kind === 'file');
+  const entries = items.map(item => item.webkitGetAsEntry?.() ?? null);
+  if (entries.length === 0 || entries.some(entry => !entry)) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    await collectEntry(entry!, files);
+  }
+  return files;
+};
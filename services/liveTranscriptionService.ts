@@ -0,0 +1,222 @@
+import { TranscriptionChunk, TranscriptionResult, TranscriptionStatus } from "../types";
+import { decodeAudioBlob, encodeWav, mixToMono } from "../utils/audioUtils";
+import { offsetSegments, segmentsToText } from "../utils/transcriptUtils";
+import { ChunkedTranscriptionError, findQuietestPoint } from "./chunkedTranscriptionService";
+import { TranscribeOptions, TranscriptionProvider } from "./transcriptionProvider";
+
+const SAMPLE_RATE = 16000;
+const WINDOW_SECONDS = 20;
+const SILENCE_SEARCH_SECONDS = 3;
+const PROVISIONAL_INTERVAL_MS = 4000;
+const MIN_WINDOW_SECONDS = 0.5;
+const PROCESSOR_BUFFER_SIZE = 4096;
+
+// A confirmed window, plus the provisional text shown until its final text arrives
+export interface LiveWindow extends TranscriptionChunk {
+  provisional?: string;
+}
+
+export interface LiveTranscriptState {
+  windows: LiveWindow[];
+  provisional: string; // text of the window still being recorded
+}
+
+export interface LiveTranscriber {
+  pause: () => void;
+  resume: () => void;
+  // Transcribes what is left and resolves once every window is final
+  finish: () => Promise<TranscriptionResult>;
+  cancel: () => void;
+}
+
+// Box-filter downsampler from the context rate to 16 kHz; keeps its phase
+// between calls so consecutive audio blocks join up without gaps.
+const createDownsampler = (inputRate: number) => {
+  const ratio = inputRate / SAMPLE_RATE;
+  let phase = 0;
+  let sum = 0;
+  let count = 0;
+  return (input: Float32Array): Float32Array => {
+    const output = new Float32Array(Math.ceil(input.length / ratio) + 1);
+    let written = 0;
+    for (let i = 0; i < input.length; i++) {
+      sum += input[i];
+      count++;
+      phase += 1;
+      if (phase >= ratio) {
+        output[written++] = sum / count;
+        sum = 0;
+        count = 0;
+        phase -= ratio;
+      }
+    }
+    return output.subarray(0, written);
+  };
+};
+
+const concat = (parts: Float32Array[], length: number): Float32Array => {
+  const result = new Float32Array(length);
+  let offset = 0;
+  parts.forEach((part) => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+// Taps the microphone stream and sends it to the provider in rolling windows
+// cut at pauses. The open window is re-sent every few seconds for provisional
+// text; closed windows are transcribed one at a time, in order.
+export const startLiveTranscription = (
+  stream: MediaStream,
+  provider: TranscriptionProvider,
+  options: Omit<TranscribeOptions, 'duration' | 'diarize'>,
+  onUpdate: (state: LiveTranscriptState) => void,
+  offset = 0, // seconds of the recording made before the stream is tapped
+  lead?: Promise<Blob> // those seconds as recorded, to open the first window with
+): LiveTranscriber => {
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  const source = context.createMediaStreamSource(stream);
+  // ScriptProcessor is deprecated but needs no separate worklet module and is
+  // supported everywhere MediaRecorder is
+  const processor = context.createScriptProcessor(PROCESSOR_BUFFER_SIZE, 1, 1);
+  const downsample = createDownsampler(context.sampleRate);
+
+  const windows: LiveWindow[] = [];
+  let parts: Float32Array[] = [];
+  let length = 0;
+  let windowStart = offset; // seconds of recording before the open window
+  let provisional = '';
+  let generation = 0; // bumped whenever the open window is closed
+  let isPaused = false;
+  let isProvisionalPending = false;
+  let isStopped = false;
+  let queue: Promise<void> = Promise.resolve();
+
+  const emit = () => {
+    if (!isStopped) onUpdate({ windows: windows.map(w => ({ ...w })), provisional });
+  };
+
+  const transcribe = (samples: Float32Array) =>
+    provider.transcribe(encodeWav(samples, SAMPLE_RATE), { ...options, duration: samples.length / SAMPLE_RATE });
+
+  const closeWindow = (cut: number) => {
+    const all = concat(parts, length);
+    const samples = all.subarray(0, cut);
+    const rest = all.slice(cut);
+
+    const closed: LiveWindow = {
+      index: windows.length,
+      start: windowStart,
+      end: windowStart + cut / SAMPLE_RATE,
+      status: TranscriptionStatus.LOADING,
+      provisional,
+    };
+    windows.push(closed);
+    windowStart = closed.end;
+    parts = rest.length > 0 ? [rest] : [];
+    length = rest.length;
+    provisional = '';
+    generation++;
+    emit();
+
+    queue = queue.then(async () => {
+      try {
+        const result = await transcribe(samples);
+        closed.segments = offsetSegments(result.segments, closed.start);
+        closed.status = TranscriptionStatus.SUCCESS;
+      } catch (error: any) {
+        console.error("Live transcription error:", error);
+        closed.status = TranscriptionStatus.ERROR;
+        closed.error = error.message;
+      }
+      emit();
+    });
+  };
+
+  processor.onaudioprocess = (event) => {
+    if (isPaused || isStopped) return;
+    const chunk = downsample(event.inputBuffer.getChannelData(0));
+    parts.push(chunk);
+    length += chunk.length;
+
+    if (length >= WINDOW_SECONDS * SAMPLE_RATE) {
+      const radius = SILENCE_SEARCH_SECONDS * SAMPLE_RATE;
+      closeWindow(findQuietestPoint(concat(parts, length), length - radius, radius));
+    }
+  };
+
+  // The lead goes in front of whatever has been tapped while it decoded,
+  // padded with silence if it ends short of the tap
+  lead
+    ?.then(blob => decodeAudioBlob(blob, SAMPLE_RATE))
+    .then((buffer) => {
+      // Too late once the first window has been closed without it
+      if (isStopped || windows.length > 0) return;
+      const samples = mixToMono(buffer);
+      const gap = new Float32Array(Math.max(0, Math.round(offset * SAMPLE_RATE) - samples.length));
+      parts = [samples, gap, ...parts];
+      length += samples.length + gap.length;
+      windowStart = Math.max(0, offset - (samples.length + gap.length) / SAMPLE_RATE);
+    })
+    .catch((error) => {
+      // The live transcript then starts at activation; the recording itself is complete
+      console.warn("Could not decode the pre-roll for live transcription:", error);
+    });
+
+  source.connect(processor);
+  // Chrome only runs the processor while it is connected to an output
+  processor.connect(context.destination);
+
+  const timer = window.setInterval(async () => {
+    if (isPaused || isProvisionalPending || length < MIN_WINDOW_SECONDS * SAMPLE_RATE) return;
+    const requested = generation;
+    isProvisionalPending = true;
+    try {
+      const result = await transcribe(concat(parts, length));
+      // Drop answers for a window that has been closed in the meantime
+      if (requested === generation) {
+        provisional = result.text;
+        emit();
+      }
+    } catch (error) {
+      // The final pass reports errors; a missed provisional update is harmless
+      console.warn("Provisional transcription failed:", error);
+    } finally {
+      isProvisionalPending = false;
+    }
+  }, PROVISIONAL_INTERVAL_MS);
+
+  const release = () => {
+    window.clearInterval(timer);
+    processor.onaudioprocess = null;
+    source.disconnect();
+    processor.disconnect();
+    context.close();
+  };
+
+  return {
+    pause: () => {
+      isPaused = true;
+    },
+    resume: () => {
+      isPaused = false;
+    },
+    finish: async () => {
+      release();
+      if (length >= MIN_WINDOW_SECONDS * SAMPLE_RATE) closeWindow(length);
+      await queue;
+      isStopped = true;
+
+      const failed = windows.filter(w => w.status === TranscriptionStatus.ERROR).length;
+      if (failed > 0) throw new ChunkedTranscriptionError(failed, windows.length);
+
+      const segments = windows.flatMap(w => w.segments ?? []);
+      return { text: segmentsToText(segments), segments };
+    },
+    cancel: () => {
+      isStopped = true;
+      release();
+    },
+  };
+};
@@ -0,0 +1,110 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Client, Matter, Recording } from "../types";
+import { getIntlLocale } from "./i18nService";
+
+const STORAGE_KEY = 'dictofon.matters';
+
+export interface MatterLibrary {
+  matters: Matter[];
+  clients: Client[];
+}
+
+export const EMPTY_MATTER_LIBRARY: MatterLibrary = { matters: [], clients: [] };
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const validateClient = (raw: unknown): Client | null =>
+  isObject(raw) && isString(raw.id) && isString(raw.name) ? { id: raw.id, name: raw.name } : null;
+
+const validateMatter = (raw: unknown): Matter | null => {
+  if (!isObject(raw) || !isString(raw.id) || !isString(raw.name)) return null;
+  return {
+    id: raw.id,
+    name: raw.name,
+    clientId: isString(raw.clientId) ? raw.clientId : undefined,
+    archived: raw.archived === true,
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : Date.now(),
+  };
+};
+
+const validateList = <T>(raw: unknown, validate: (item: unknown) => T | null): T[] =>
+  Array.isArray(raw) ? raw.map(validate).filter((item): item is T => item !== null) : [];
+
+export const parseMatterLibrary = (raw: unknown): MatterLibrary => ({
+  matters: validateList(isObject(raw) ? raw.matters : undefined, validateMatter),
+  clients: validateList(isObject(raw) ? raw.clients : undefined, validateClient),
+});
+
+export const loadMatterLibrary = (): MatterLibrary => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseMatterLibrary(JSON.parse(stored)) : EMPTY_MATTER_LIBRARY;
+  } catch (error) {
+    console.error("Error loading matters:", error);
+    return EMPTY_MATTER_LIBRARY;
+  }
+};
+
+export const saveMatterLibrary = (library: MatterLibrary) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+};
+
+export const createMatter = (name: string, clientId?: string): Matter => ({
+  id: uuidv4(),
+  name,
+  clientId,
+  archived: false,
+  createdAt: Date.now(),
+});
+
+export const createClient = (name: string): Client => ({ id: uuidv4(), name });
+
+// Active matters first, then archived, each alphabetically
+export const sortMatters = (matters: Matter[]): Matter[] =>
+  [...matters].sort((a, b) => Number(a.archived) - Number(b.archived) || a.name.localeCompare(b.name, getIntlLocale()));
+
+// Fields to set on a recording moved to another matter (or out of any).
+// A client that came with the previous matter leaves with it; one assigned
+// to the recording directly stays unless the new matter has its own.
+export const assignMatter = (recording: Recording, matter: Matter | null, previous: Matter | null): Partial<Recording> => {
+  const inherited = !!previous?.clientId && recording.clientId === previous.clientId;
+  return {
+    matterId: matter?.id,
+    clientId: matter?.clientId ?? (inherited ? undefined : recording.clientId),
+  };
+};
+
+export interface MatterGroup<T> {
+  matter: Matter | null; // null for recordings outside any known matter
+  items: T[];
+  duration: number; // in seconds
+}
+
+// Groups items (in their existing order) by matter. Groups come in the order
+// of their first item, with recordings outside any matter at the end.
+export const groupByMatter = <T>(
+  items: T[],
+  getRecording: (item: T) => Recording,
+  matters: Matter[]
+): MatterGroup<T>[] => {
+  const byId = new Map(matters.map(m => [m.id, m]));
+  const groups = new Map<string, MatterGroup<T>>();
+  const unassigned: MatterGroup<T> = { matter: null, items: [], duration: 0 };
+
+  for (const item of items) {
+    const recording = getRecording(item);
+    const matter = recording.matterId ? byId.get(recording.matterId) : undefined;
+    let group = unassigned;
+    if (matter) {
+      group = groups.get(matter.id) ?? { matter, items: [], duration: 0 };
+      groups.set(matter.id, group);
+    }
+    group.items.push(item);
+    group.duration += recording.duration;
+  }
+
+  return unassigned.items.length > 0 ? [...groups.values(), unassigned] : [...groups.values()];
+};
@@ -0,0 +1,55 @@
+import { TranscriptionResult, TranscriptSegment } from "../types";
+import { segmentsToText } from "../utils/transcriptUtils";
+import { TranscribeOptions, TranscriptionProvider } from "./transcriptionProvider";
+
+const PHRASES = [
+  "Добрый день, давайте начнем встречу.",
+  "Речь идет о договоре поставки от пятнадцатого марта.",
+  "Контрагент нарушил сроки оплаты по второму этапу.",
+  "Необходимо направить претензию до конца месяца.",
+  "Прошу подготовить проект искового заявления.",
+  "Документы по сделке переданы в полном объеме.",
+  "Следующее заседание назначено на вторник.",
+  "Уточните, пожалуйста, реквизиты доверенности.",
+];
+
+const SEGMENT_SECONDS = 5;
+const LATENCY_MS = 600;
+
+// Offline stand-in for development and demos. The output depends only on the
+// blob size and options, so the same input always yields the same transcript.
+const transcribe = async (audioBlob: Blob, { duration, diarize, signal }: TranscribeOptions = {}): Promise<TranscriptionResult> => {
+  await new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException("Отменено", 'AbortError'));
+    const timer = setTimeout(resolve, LATENCY_MS);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException("Отменено", 'AbortError'));
+    }, { once: true });
+  });
+
+  const length = duration && duration > 0 ? duration : SEGMENT_SECONDS * 3;
+  const count = Math.max(1, Math.ceil(length / SEGMENT_SECONDS));
+  const seed = audioBlob.size;
+
+  const segments: TranscriptSegment[] = Array.from({ length: count }, (_, i) => {
+    const segment: TranscriptSegment = {
+      start: i * SEGMENT_SECONDS,
+      end: Math.min(length, (i + 1) * SEGMENT_SECONDS),
+      text: PHRASES[(seed + i) % PHRASES.length],
+    };
+    if (diarize) segment.speaker = String((i % 2) + 1);
+    return segment;
+  });
+
+  return { text: segmentsToText(segments), segments };
+};
+
+export const mockProvider: TranscriptionProvider = {
+  id: 'mock',
+  label: 'provider.mock',
+  supportsDiarization: true,
+  maxUploadBytes: Infinity,
+  isLocal: true,
+  transcribe,
+};
@@ -0,0 +1,123 @@
+import { decodeAudioBlob, frameLevels, mixToMono, percentile } from "../utils/audioUtils";
+import { encodeCompactAudio } from "../utils/oggOpus";
+
+const CONFIG_KEY = 'dictofon.preprocessing';
+
+const SAMPLE_RATE = 16000;
+const HIGH_PASS_HZ = 80; // below the voice, above hum and handling noise
+const FRAME_SECONDS = 0.02;
+const TARGET_SPEECH_DB = -20; // RMS of the speech frames after normalization
+const PEAK_CEILING = 0.9; // about -1 dBFS
+const MAX_GAIN_DB = 30;
+const GATE_MARGIN_DB = 8; // frames within this of the noise floor are gated
+const GATE_ATTENUATION = 0.1; // -20 dB rather than silence, so the gate does not chop words
+const GATE_SMOOTHING = 0.2; // per-frame gain change, avoids clicks at gate edges
+
+export interface PreprocessingConfig {
+  enabled: boolean;
+  normalize: boolean;
+  highPass: boolean;
+  noiseGate: boolean;
+}
+
+// A processed copy of a recording, kept in memory for listening and upload
+export interface ProcessedAudio {
+  source: Blob; // the recording audio it was made from
+  key: string; // see preprocessingKey
+  blob: Blob;
+  url: string;
+}
+
+export const DEFAULT_PREPROCESSING_CONFIG: PreprocessingConfig = {
+  enabled: true,
+  normalize: true,
+  highPass: false,
+  noiseGate: false,
+};
+
+export const loadPreprocessingConfig = (): PreprocessingConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONFIG_KEY) || 'null');
+    if (!stored) return DEFAULT_PREPROCESSING_CONFIG;
+    const flag = (key: keyof PreprocessingConfig) =>
+      typeof stored[key] === 'boolean' ? stored[key] : DEFAULT_PREPROCESSING_CONFIG[key];
+    return {
+      enabled: flag('enabled'),
+      normalize: flag('normalize'),
+      highPass: flag('highPass'),
+      noiseGate: flag('noiseGate'),
+    };
+  } catch {
+    return DEFAULT_PREPROCESSING_CONFIG;
+  }
+};
+
+export const savePreprocessingConfig = (config: PreprocessingConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+// Identifies the settings a processed copy was made with
+export const preprocessingKey = (config: PreprocessingConfig): string =>
+  [config.normalize, config.highPass, config.noiseGate].map(Number).join('');
+
+// The buffer is already decoded at SAMPLE_RATE, so a long recording is never
+// held at its original rate. Only the high-pass filter needs a render pass.
+const renderMono = async (buffer: AudioBuffer, highPass: boolean): Promise<Float32Array> => {
+  if (!highPass) return mixToMono(buffer);
+  const context = new OfflineAudioContext(1, buffer.length, SAMPLE_RATE);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+
+  const filter = context.createBiquadFilter();
+  filter.type = 'highpass';
+  filter.frequency.value = HIGH_PASS_HZ;
+  source.connect(filter);
+  filter.connect(context.destination);
+
+  source.start();
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0);
+};
+
+const applyNoiseGate = (samples: Float32Array, levels: Float32Array, frameLength: number) => {
+  const threshold = percentile(levels, 0.1) + GATE_MARGIN_DB;
+  let gain = 1;
+  for (let f = 0; f < levels.length; f++) {
+    const target = levels[f] < threshold ? GATE_ATTENUATION : 1;
+    const from = gain;
+    gain += (target - gain) * GATE_SMOOTHING;
+    // Ramp within the frame so the gain never jumps between samples
+    for (let i = 0; i < frameLength; i++) {
+      samples[f * frameLength + i] *= from + ((gain - from) * i) / frameLength;
+    }
+  }
+};
+
+// Brings the louder (speech) frames to a common level, limited by the peak
+// so quiet recordings are raised without clipping
+const normalizeLoudness = (samples: Float32Array, levels: Float32Array) => {
+  const speechLevel = percentile(levels, 0.8);
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  if (peak === 0) return;
+
+  const gainDb = Math.min(MAX_GAIN_DB, TARGET_SPEECH_DB - speechLevel);
+  const gain = Math.min(10 ** (gainDb / 20), PEAK_CEILING / peak);
+  for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+};
+
+// Mono 16 kHz, cleaned up as configured and encoded as Ogg Opus, or as WAV
+// where the browser has no Opus encoder
+export const preprocessAudio = async (blob: Blob, config: PreprocessingConfig): Promise<Blob> => {
+  const samples = await renderMono(await decodeAudioBlob(blob, SAMPLE_RATE), config.highPass);
+  const frameLength = Math.round(FRAME_SECONDS * SAMPLE_RATE);
+
+  if (config.noiseGate) {
+    applyNoiseGate(samples, frameLevels(samples, frameLength), frameLength);
+  }
+  if (config.normalize) {
+    normalizeLoudness(samples, frameLevels(samples, frameLength));
+  }
+
+  return encodeCompactAudio(samples, SAMPLE_RATE);
+};
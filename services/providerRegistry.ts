@@ -0,0 +1,20 @@
+import { createGeminiProvider, GEMINI_LABEL, GeminiConfig } from "./geminiService";
+import { MessageKey } from "./i18nService";
+import { mockProvider } from "./mockTranscriptionService";
+import { ProviderConfig, ProviderId, TranscriptionProvider } from "./transcriptionProvider";
+import { createWhisperProvider, WHISPER_LABEL } from "./whisperService";
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: MessageKey }[] = [
+  { id: 'gemini', label: GEMINI_LABEL },
+  { id: 'whisper', label: WHISPER_LABEL },
+  { id: 'mock', label: mockProvider.label },
+];
+
+// The model settings also carry the speech language, which Whisper uses too
+export const getTranscriptionProvider = (config: ProviderConfig, gemini: GeminiConfig): TranscriptionProvider => {
+  switch (config.active) {
+    case 'whisper': return createWhisperProvider(config.whisper, gemini.language);
+    case 'mock': return mockProvider;
+    default: return createGeminiProvider(gemini);
+  }
+};
@@ -0,0 +1,348 @@
+import { Recording } from "../types";
+import { segmentsToText } from "../utils/transcriptUtils";
+
+export type PiiKind = 'name' | 'phone' | 'passport' | 'snils' | 'inn' | 'address' | 'card' | 'account' | 'email';
+
+export interface PiiMatch {
+  id: string; // unit and offset, so re-running detection keeps the review decisions
+  kind: PiiKind;
+  unit: number; // index into getRedactionUnits
+  start: number;
+  end: number;
+  text: string;
+  source: 'pattern' | 'model';
+}
+
+// Used in the redacted text, which is Russian whatever the interface language
+const PSEUDONYM_LABELS: Record<PiiKind, string> = {
+  name: 'Лицо',
+  phone: 'Телефон',
+  passport: 'Паспорт',
+  snils: 'СНИЛС',
+  inn: 'ИНН',
+  address: 'Адрес',
+  card: 'Карта',
+  account: 'Счёт',
+  email: 'Email',
+};
+
+// The transcript is scanned segment by segment when it is built from them, so
+// the redacted copy keeps its timestamps; otherwise as a single block of text
+const usesSegments = (recording: Recording): boolean =>
+  (recording.segments?.length ?? 0) > 0 && segmentsToText(recording.segments!) === recording.transcript;
+
+export const getRedactionUnits = (recording: Recording): string[] =>
+  usesSegments(recording) ? recording.segments!.map(s => s.text) : [recording.transcript ?? ''];
+
+const digitsOf = (value: string): number[] => value.replace(/\D/g, '').split('').map(Number);
+
+const weightedSum = (digits: number[], weights: number[]): number =>
+  weights.reduce((sum, weight, i) => sum + weight * digits[i], 0);
+
+// ИНН has one check digit for organisations (10 digits) and two for people (12)
+const isValidInn = (digits: number[]): boolean => {
+  const check = (weights: number[]) => (weightedSum(digits, weights) % 11) % 10 === digits[weights.length];
+  if (digits.length === 10) return check([2, 4, 10, 3, 5, 9, 4, 6, 8]);
+  if (digits.length === 12) return check([7, 2, 4, 10, 3, 5, 9, 4, 6, 8]) && check([3, 7, 2, 4, 10, 3, 5, 9, 4, 6, 8]);
+  return false;
+};
+
+// The last two digits of СНИЛС check the first nine
+const isValidSnils = (digits: number[]): boolean => {
+  if (digits.length !== 11) return false;
+  const rest = weightedSum(digits, [9, 8, 7, 6, 5, 4, 3, 2, 1]) % 101;
+  return (rest === 100 ? 0 : rest) === digits[9] * 10 + digits[10];
+};
+
+const passesLuhn = (digits: number[]): boolean => {
+  const sum = digits.reduceRight((total, digit, i) => {
+    const doubled = (digits.length - 1 - i) % 2 === 1 ? digit * 2 : digit;
+    return total + (doubled > 9 ? doubled - 9 : doubled);
+  }, 0);
+  return sum % 10 === 0 && digits.some(d => d !== 0);
+};
+
+// Whether a keyword such as "паспорт" comes shortly before the match
+const precededBy = (input: string, index: number, keyword: RegExp, window = 40): boolean =>
+  keyword.test(input.slice(Math.max(0, index - window), index));
+
+// Words that may open a sentence get both cases of their first letter
+const anyCase = (words: string[]): string =>
+  `(?:${words.map(w => `[${w[0].toUpperCase()}${w[0]}]${w.slice(1)}`).join('|')})`;
+
+const NOT_WORD_BEFORE = '(?<![\\p{L}\\p{N}])';
+const NOT_WORD_AFTER = '(?![\\p{L}\\p{N}])';
+const CAPITALIZED = '[А-ЯЁ][а-яё]+(?:-[А-ЯЁ][а-яё]+)?';
+// Only a word shaped like a surname is taken for one at the start of a sentence
+const SURNAME = '[А-ЯЁ][а-яё]*(?:ов|ев|ёв|ин|ын|ск|цк|ых|их)[а-яё]{0,3}';
+const INITIALS = '[А-ЯЁ]\\.\\s?(?:[А-ЯЁ]\\.)?';
+const PATRONYMIC = '[А-ЯЁ][а-яё]+(?:(?:ович|евич|ич)(?:а|у|ем|е)?|(?:овн|евн|ичн)(?:а|ы|е|у|ой|ою))';
+// Roles that are followed by a surname in legal speech: "свидетель Петрова"
+const ROLE_WORDS = anyCase([
+  'гражданин', 'гражданка', 'граждан[а-яё]+', 'господин', 'госпож[а-яё]+', 'свидетел[а-яё]+',
+  'истец', 'истц[а-яё]+', 'ответчи[а-яё]+', 'потерпевш[а-яё]+', 'подсудим[а-яё]+', 'обвиняем[а-яё]+',
+  'адвокат[а-яё]*', 'судь[а-яё]+', 'следовател[а-яё]+',
+]);
+const STREET_TYPES = anyCase([
+  'ул\\.', 'улиц[аеуы]', 'пр-т', 'просп\\.', 'проспект[аеу]?', 'пер\\.', 'переул(?:ок|ка|ке|ку)',
+  'б-р', 'бульвар[аеу]?', 'шоссе', 'наб\\.', 'набережн(?:ая|ой|ую)', 'пл\\.', 'площад[ьи]',
+  'проезд[аеу]?', 'мкр\\.?', 'микрорайон[аеу]?',
+]);
+const ADDRESS = [
+  `(?:(?:\\d{6},?\\s*)?${anyCase(['г\\.', 'город[аеу]?'])}\\s*${CAPITALIZED},?\\s*)?`,
+  `${STREET_TYPES}\\s*(?:\\d+-?[а-яё]{0,2}\\s+)?${CAPITALIZED}(?:\\s+${CAPITALIZED})?`,
+  '(?:,?\\s*(?:д\\.|дом[аеу]?)?\\s*\\d+[а-яё]?(?:\\s*[/к]\\s*\\d+)?',
+  '(?:,?\\s*(?:корп\\.|корпус[аеу]?|стр\\.|строени[еяю])\\s*\\d+)?',
+  '(?:,?\\s*(?:кв\\.|квартир[аеуы]|оф\\.|офис[аеу]?)\\s*\\d+)?)?',
+].join('');
+
+interface Detector {
+  kind: PiiKind;
+  pattern: RegExp;
+  accept?: (text: string, input: string, index: number) => boolean;
+}
+
+// In priority order: where matches overlap, the earlier detector wins. Numbers
+// with a checksum come before the looser formats they could be mistaken for.
+// When in doubt a detector reports the match, since every hit is reviewed.
+const DETECTORS: Detector[] = [
+  {
+    kind: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@(?:[A-Za-zА-Яа-яЁё0-9-]+\.)+[A-Za-zА-Яа-яЁё]{2,}/gu,
+  },
+  {
+    kind: 'card',
+    pattern: /(?<![\d-])(?:\d{4}([ -]?)\d{4}\1\d{4}\1\d{4}|\d{13,19})(?![\d-])/gu,
+    accept: (text) => passesLuhn(digitsOf(text)),
+  },
+  {
+    // Russian bank accounts are 20 digits, often grouped 5-3-1-4-7
+    kind: 'account',
+    pattern: /(?<![\d-])(?:\d{20}|\d{5} \d{3} \d \d{4} \d{7})(?![\d-])/gu,
+  },
+  {
+    kind: 'snils',
+    pattern: /(?<![\d-])(?:\d{3}([- ])\d{3}\1\d{3}[ -]\d{2}|\d{11})(?![\d-])/gu,
+    // Grouped digits are common in case numbers too, so both forms need the checksum
+    accept: (text) => isValidSnils(digitsOf(text)),
+  },
+  {
+    kind: 'inn',
+    pattern: /(?<![\d-])(?:\d{12}|\d{10})(?![\d-])/gu,
+    accept: (text, input, index) => isValidInn(digitsOf(text)) || precededBy(input, index, /ИНН/i, 20),
+  },
+  {
+    // Series and number; ten bare digits only count after "паспорт" or "серия"
+    kind: 'passport',
+    pattern: /(?<![\d-])\d{2} ?\d{2} ?(?:№ ?)?\d{6}(?![\d-])/gu,
+    accept: (text, input, index) => /[ №]/.test(text) || precededBy(input, index, /паспорт|сери[яи]/i, 60),
+  },
+  {
+    kind: 'phone',
+    pattern: /(?<![\d+])(?:\+7|8)[\s-]*\(?\d{3}\)?[\s-]*\d{3}[\s-]*\d{2}[\s-]*\d{2}(?!\d)/gu,
+  },
+  {
+    kind: 'address',
+    pattern: new RegExp(`${NOT_WORD_BEFORE}${ADDRESS}`, 'gu'),
+  },
+  {
+    // "Иванов Иван Иванович", but not "Сегодня Иван Иванович"
+    kind: 'name',
+    pattern: new RegExp(`(?:(?<!(?:^|[.!?…])\\s*)${CAPITALIZED}|${NOT_WORD_BEFORE}${SURNAME})\\s+${CAPITALIZED}\\s+${PATRONYMIC}${NOT_WORD_AFTER}`, 'gu'),
+  },
+  {
+    // "Иван Иванович", "Иван Иванович Иванов"
+    kind: 'name',
+    pattern: new RegExp(`${NOT_WORD_BEFORE}${CAPITALIZED}\\s+${PATRONYMIC}(?:\\s+${CAPITALIZED})?${NOT_WORD_AFTER}`, 'gu'),
+  },
+  {
+    // "И.И. Иванов"; before the reverse order so "Потом И.И. Иванов" keeps "Потом"
+    kind: 'name',
+    pattern: new RegExp(`${NOT_WORD_BEFORE}${INITIALS}\\s?${CAPITALIZED}${NOT_WORD_AFTER}`, 'gu'),
+  },
+  {
+    // "Иванов И.И.", "Иванов И. И."
+    kind: 'name',
+    pattern: new RegExp(`${NOT_WORD_BEFORE}${CAPITALIZED}\\s+${INITIALS}`, 'gu'),
+  },
+  {
+    kind: 'name',
+    pattern: new RegExp(`(?<=${NOT_WORD_BEFORE}${ROLE_WORDS}\\s+)(?:${CAPITALIZED}(?:\\s+${CAPITALIZED}|\\s+${INITIALS})?|${INITIALS}\\s?${CAPITALIZED})${NOT_WORD_AFTER}`, 'gu'),
+  },
+];
+
+const overlaps = (a: PiiMatch, b: PiiMatch): boolean =>
+  a.unit === b.unit && a.start < b.end && b.start < a.end;
+
+const sortMatches = (matches: PiiMatch[]): PiiMatch[] =>
+  [...matches].sort((a, b) => a.unit - b.unit || a.start - b.start);
+
+// Regex and checksum detection, no network involved
+export const detectPii = (units: string[]): PiiMatch[] => {
+  const matches: PiiMatch[] = [];
+  units.forEach((input, unit) => {
+    for (const { kind, pattern, accept } of DETECTORS) {
+      for (const found of input.matchAll(pattern)) {
+        const start = found.index!;
+        if (accept && !accept(found[0], input, start)) continue;
+        const match: PiiMatch = { id: `${unit}:${start}`, kind, unit, start, end: start + found[0].length, text: found[0], source: 'pattern' };
+        if (!matches.some(m => overlaps(m, match))) matches.push(match);
+      }
+    }
+  });
+  return locateNameForms(units, matches);
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Names suggested by the model are searched for here rather than trusting its
+// offsets; each one usually occurs several times. Existing matches win.
+export const locateMentions = (units: string[], mentions: string[], existing: PiiMatch[]): PiiMatch[] => {
+  const matches = [...existing];
+  const unique = Array.from(new Set(mentions.map(m => m.trim()).filter(m => m.length > 1)))
+    .sort((a, b) => b.length - a.length);
+
+  units.forEach((input, unit) => {
+    for (const mention of unique) {
+      const pattern = new RegExp(`${NOT_WORD_BEFORE}${escapeRegExp(mention).replace(/\s+/g, '\\s+')}${NOT_WORD_AFTER}`, 'gu');
+      for (const found of input.matchAll(pattern)) {
+        const start = found.index!;
+        const match: PiiMatch = { id: `${unit}:${start}`, kind: 'name', unit, start, end: start + found[0].length, text: found[0], source: 'model' };
+        if (!matches.some(m => overlaps(m, match))) matches.push(match);
+      }
+    }
+  });
+  return sortMatches(matches);
+};
+
+// Case endings are cut so declined forms compare equal: "Иванову" and
+// "Ивановым" both give "иванов", "Сергея" and "Сергей" both give "серг"
+const NAME_ENDING = /(?:ыми|ого|ому|ией|ой|ою|ым|ом|ем|ей|ую|ых|ия|ии|ию|ья|ье|ью|а|я|у|ю|е|ы|и|ь|й)$/;
+
+const nameKey = (word: string): string => {
+  const lower = word.toLowerCase().replace(/ё/g, 'е');
+  const stripped = lower.replace(NAME_ENDING, '').replace(/[еи]$/, '');
+  return stripped.length >= 3 ? stripped : lower;
+};
+
+const nameKeys = (text: string): string[] =>
+  text.split(/[\s.]+/).filter(w => w.length > 1).map(nameKey);
+
+const NAME_WORD = new RegExp(`${NOT_WORD_BEFORE}${CAPITALIZED}${NOT_WORD_AFTER}`, 'gu');
+
+// A person found by the patterns is usually mentioned again in another case or
+// by surname alone ("Иванову"); such words are proposed for review as well
+const locateNameForms = (units: string[], existing: PiiMatch[]): PiiMatch[] => {
+  const keys = new Set(existing.filter(m => m.kind === 'name').flatMap(m => nameKeys(m.text)));
+  if (keys.size === 0) return sortMatches(existing);
+
+  const matches = [...existing];
+  units.forEach((input, unit) => {
+    for (const found of input.matchAll(NAME_WORD)) {
+      if (!keys.has(nameKey(found[0]))) continue;
+      const start = found.index!;
+      const match: PiiMatch = { id: `${unit}:${start}`, kind: 'name', unit, start, end: start + found[0].length, text: found[0], source: 'pattern' };
+      if (!matches.some(m => overlaps(m, match))) matches.push(match);
+    }
+  });
+  return sortMatches(matches);
+};
+
+const valueKey = (match: PiiMatch): string => {
+  switch (match.kind) {
+    case 'email': return match.text.toLowerCase();
+    case 'address': return match.text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+    default: return match.text.replace(/\D/g, '');
+  }
+};
+
+interface Person {
+  keys: string[];
+  label: string;
+}
+
+interface Pseudonyms {
+  byMatch: Map<string, string>; // match id → replacement
+  people: Person[];
+}
+
+// Every distinct value gets a numbered label, in order of first appearance.
+// A shorter mention joins the first fuller one that contains all its words,
+// so "Иванову" after "Иванов Иван Иванович" is the same "Лицо 1".
+const assignPseudonyms = (matches: PiiMatch[]): Pseudonyms => {
+  const ordered = sortMatches(matches);
+  const names = ordered.filter(m => m.kind === 'name');
+  const personKeys: string[][] = [];
+  const personOf = new Map<string, number>();
+  [...names]
+    .sort((a, b) => nameKeys(b.text).length - nameKeys(a.text).length)
+    .forEach(match => {
+      const keys = nameKeys(match.text);
+      let index = personKeys.findIndex(person => keys.every(k => person.includes(k)));
+      if (index === -1) index = personKeys.push(keys) - 1;
+      personOf.set(match.id, index);
+    });
+
+  const byMatch = new Map<string, string>();
+  const labels = new Map<string, string>();
+  const counters = new Map<PiiKind, number>();
+  const people: Person[] = [];
+
+  for (const match of ordered) {
+    const key = match.kind === 'name' ? `name:${personOf.get(match.id)}` : `${match.kind}:${valueKey(match)}`;
+    let label = labels.get(key);
+    if (!label) {
+      const number = (counters.get(match.kind) ?? 0) + 1;
+      counters.set(match.kind, number);
+      label = match.kind === 'name'
+        ? `${PSEUDONYM_LABELS.name} ${number}`
+        : `[${PSEUDONYM_LABELS[match.kind]} ${number}]`;
+      labels.set(key, label);
+      if (match.kind === 'name') people.push({ keys: personKeys[personOf.get(match.id)!], label });
+    }
+    byMatch.set(match.id, label);
+  }
+  return { byMatch, people };
+};
+
+// Replacement for each accepted match, for showing next to it during review
+export const getPseudonyms = (accepted: PiiMatch[]): Map<string, string> =>
+  assignPseudonyms(accepted).byMatch;
+
+const replaceSpans = (text: string, matches: PiiMatch[], replacements: Map<string, string>): string =>
+  matches
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, m) => result.slice(0, m.start) + replacements.get(m.id) + result.slice(m.end), text);
+
+// A copy for sharing: accepted matches are replaced, the original recording is
+// left as it was. The copy is only ever exported, never stored, so it carries
+// nothing that was not reviewed: no versions, documents, bookmark notes or name.
+export const redactRecording = (recording: Recording, accepted: PiiMatch[]): Recording => {
+  const { byMatch, people } = assignPseudonyms(accepted);
+  const units = getRedactionUnits(recording)
+    .map((text, unit) => replaceSpans(text, accepted.filter(m => m.unit === unit), byMatch));
+  const segments = usesSegments(recording)
+    ? recording.segments!.map((segment, i) => ({ ...segment, text: units[i] }))
+    : undefined;
+
+  // Speaker names are usually real names: they take the pseudonym of the
+  // matching person or fall back to the numbered default
+  const speakerNames: Record<string, string> = {};
+  for (const [speaker, name] of Object.entries(recording.speakerNames ?? {})) {
+    const keys = nameKeys(name);
+    const person = keys.length > 0 && people.find(p => keys.every(k => p.keys.includes(k)));
+    if (person) speakerNames[speaker] = person.label;
+  }
+
+  return {
+    ...recording,
+    name: undefined,
+    transcript: segments ? segmentsToText(segments) : units[0],
+    segments,
+    speakerNames,
+    versions: undefined,
+    documents: undefined,
+    bookmarks: undefined,
+    chunks: undefined,
+  };
+};
@@ -0,0 +1,175 @@
+import { Recording, TranscriptionStatus } from "../types";
+import { stemRussian } from "../utils/russianStemmer";
+import { getIntlLocale } from "./i18nService";
+
+// Where in a recording a term occurs: its name, a transcript segment, or the
+// whole transcript for recordings without timestamps
+export type FieldRef = 'name' | 'text' | number;
+
+interface Posting {
+  recordingId: string;
+  field: FieldRef;
+  count: number;
+}
+
+export interface SearchIndex {
+  postings: Map<string, Posting[]>;
+}
+
+export type SortOrder = 'relevance' | 'date-desc' | 'date-asc' | 'duration-desc' | 'duration-asc' | 'name';
+
+export interface SearchFilters {
+  dateFrom?: string; // yyyy-mm-dd, inclusive
+  dateTo?: string; // yyyy-mm-dd, inclusive
+  minMinutes?: number;
+  maxMinutes?: number;
+  status?: TranscriptionStatus;
+  tag?: string;
+  matterId?: string;
+}
+
+export interface SearchQuery {
+  text: string;
+  filters: SearchFilters;
+  sort: SortOrder;
+}
+
+export const EMPTY_SEARCH: SearchQuery = { text: '', filters: {}, sort: 'date-desc' };
+
+export interface SearchResult {
+  recording: Recording;
+  score: number;
+  matchedSegments: number[]; // indices into recording.segments, in transcript order
+}
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+export const tokenize = (text: string): string[] => text.toLowerCase().match(WORD) ?? [];
+
+export const stemTerms = (text: string): string[] =>
+  Array.from(new Set(tokenize(text).map(stemRussian)));
+
+const countStems = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  tokenize(text).forEach((word) => {
+    const stem = stemRussian(word);
+    counts.set(stem, (counts.get(stem) ?? 0) + 1);
+  });
+  return counts;
+};
+
+// Inverted index from word stem to the places it occurs. Rebuilding is cheap
+// because stems are memoized, so the index is simply recomputed when the
+// library changes.
+export const buildSearchIndex = (recordings: Recording[]): SearchIndex => {
+  const postings = new Map<string, Posting[]>();
+
+  const add = (recordingId: string, field: FieldRef, text: string) => {
+    countStems(text).forEach((count, stem) => {
+      const list = postings.get(stem) ?? [];
+      list.push({ recordingId, field, count });
+      postings.set(stem, list);
+    });
+  };
+
+  recordings.forEach((recording) => {
+    if (recording.name) add(recording.id, 'name', recording.name);
+    if (recording.segments && recording.segments.length > 0) {
+      recording.segments.forEach((segment, index) => add(recording.id, index, segment.text));
+    } else if (recording.transcript) {
+      add(recording.id, 'text', recording.transcript);
+    }
+  });
+
+  return { postings };
+};
+
+const startOfDay = (value: string): number => new Date(`${value}T00:00:00`).getTime();
+
+export const matchesFilters = (recording: Recording, filters: SearchFilters): boolean => {
+  if (filters.dateFrom && recording.timestamp < startOfDay(filters.dateFrom)) return false;
+  if (filters.dateTo && recording.timestamp >= startOfDay(filters.dateTo) + 24 * 60 * 60 * 1000) return false;
+  if (filters.minMinutes !== undefined && recording.duration < filters.minMinutes * 60) return false;
+  if (filters.maxMinutes !== undefined && recording.duration > filters.maxMinutes * 60) return false;
+  if (filters.status && recording.status !== filters.status) return false;
+  if (filters.tag && !(recording.tags ?? []).includes(filters.tag)) return false;
+  if (filters.matterId && recording.matterId !== filters.matterId) return false;
+  return true;
+};
+
+const NAME_WEIGHT = 5;
+
+const compare = (sort: SortOrder) => (a: SearchResult, b: SearchResult): number => {
+  switch (sort) {
+    case 'relevance': return b.score - a.score || b.recording.timestamp - a.recording.timestamp;
+    case 'date-asc': return a.recording.timestamp - b.recording.timestamp;
+    case 'duration-desc': return b.recording.duration - a.recording.duration;
+    case 'duration-asc': return a.recording.duration - b.recording.duration;
+    case 'name': return (a.recording.name ?? '').localeCompare(b.recording.name ?? '', getIntlLocale()) || b.recording.timestamp - a.recording.timestamp;
+    default: return b.recording.timestamp - a.recording.timestamp;
+  }
+};
+
+// Every query term must occur somewhere in the recording (name or transcript)
+export const searchRecordings = (
+  recordings: Recording[],
+  index: SearchIndex | null,
+  { text, filters, sort }: SearchQuery
+): SearchResult[] => {
+  const terms = stemTerms(text);
+  const candidates = recordings.filter(r => matchesFilters(r, filters));
+
+  if (terms.length === 0 || !index) {
+    const results = candidates.map(recording => ({ recording, score: 0, matchedSegments: [] }));
+    return results.sort(compare(sort === 'relevance' ? 'date-desc' : sort));
+  }
+
+  const scores = new Map<string, { score: number; terms: Set<string>; segments: Set<number> }>();
+  terms.forEach((term) => {
+    (index.postings.get(term) ?? []).forEach(({ recordingId, field, count }) => {
+      const entry = scores.get(recordingId) ?? { score: 0, terms: new Set(), segments: new Set() };
+      entry.score += field === 'name' ? count * NAME_WEIGHT : count;
+      entry.terms.add(term);
+      if (typeof field === 'number') entry.segments.add(field);
+      scores.set(recordingId, entry);
+    });
+  });
+
+  const results: SearchResult[] = [];
+  candidates.forEach((recording) => {
+    const entry = scores.get(recording.id);
+    if (!entry || entry.terms.size < terms.length) return;
+    results.push({
+      recording,
+      score: entry.score,
+      matchedSegments: Array.from(entry.segments).sort((a, b) => a - b),
+    });
+  });
+
+  return results.sort(compare(sort));
+};
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+// Splits text into runs so that words sharing a stem with the query can be marked
+export const highlightText = (text: string, stems: Set<string>): HighlightPart[] => {
+  if (stems.size === 0) return [{ text, match: false }];
+
+  const parts: HighlightPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(WORD)) {
+    const index = match.index ?? 0;
+    if (!stems.has(stemRussian(match[0]))) continue;
+    if (index > last) parts.push({ text: text.slice(last, index), match: false });
+    parts.push({ text: match[0], match: true });
+    last = index + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+  return parts;
+};
+
+export const getAllTags = (recordings: Recording[]): string[] =>
+  Array.from(new Set(recordings.flatMap(r => r.tags ?? []))).sort((a, b) => a.localeCompare(b, getIntlLocale()));
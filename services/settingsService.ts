@@ -0,0 +1,236 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GeminiConfig } from "./geminiService";
+import { translate } from "./i18nService";
+import { takeLegacyWhisperLanguage } from "./transcriptionProvider";
+import { PLAYBACK_RATES } from "../utils/playerUtils";
+
+const STORAGE_KEY = 'dictofon.settings';
+
+export interface PromptPreset {
+  id: string;
+  name: string;
+  text: string; // what the model is asked to do; segment and speaker instructions are added by the provider
+  builtIn?: boolean; // shipped with the app, read-only
+}
+
+export interface TranscriptionSettings {
+  model: string; // Gemini model for transcription and documents
+  temperature: number;
+  language: string; // ISO 639-1 code of the speech, '' to detect it
+  promptId: string;
+}
+
+export interface RecordingSettings {
+  deviceId: string; // '' for the system default microphone
+  mimeType: string; // '' lets the browser choose
+  bitrate: number; // bits per second, 0 for the browser default
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export interface PlaybackSettings {
+  rate: number; // shared by all players, pitch is preserved
+  volume: number; // 0..1
+  autoRewindSeconds: number; // stepped back on pause while the transcript is being edited
+}
+
+export interface AppSettings {
+  transcription: TranscriptionSettings;
+  prompts: PromptPreset[]; // the user's own presets
+  recording: RecordingSettings;
+  playback: PlaybackSettings;
+  visualizerFftSize: number;
+}
+
+export const BUILT_IN_PROMPT: PromptPreset = {
+  id: 'default',
+  name: 'Стандартная транскрипция',
+  text: "Пожалуйста, сделай точную транскрипцию этой аудиозаписи. Не добавляй никаких вводных или заключительных замечаний, только текст транскрипции.",
+  builtIn: true,
+};
+
+export const MODEL_SUGGESTIONS = ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'];
+
+// Speech languages offered besides auto-detection; names come from Intl in the interface language
+export const SPEECH_LANGUAGES = ['ru', 'en', 'uk', 'be', 'kk', 'de', 'fr', 'es', 'zh'];
+
+// Candidates offered when the browser can record them
+export const RECORDING_FORMATS: { mimeType: string; label: string }[] = [
+  { mimeType: 'audio/webm;codecs=opus', label: 'WebM (Opus)' },
+  { mimeType: 'audio/ogg;codecs=opus', label: 'Ogg (Opus)' },
+  { mimeType: 'audio/mp4;codecs=mp4a.40.2', label: 'MP4 (AAC)' },
+  { mimeType: 'audio/mp4', label: 'MP4' },
+  { mimeType: 'audio/webm', label: 'WebM' },
+];
+
+export const BITRATE_OPTIONS = [0, 24000, 32000, 48000, 64000, 128000];
+
+export const FFT_SIZE_OPTIONS = [64, 128, 256, 512, 1024];
+
+export const MAX_TEMPERATURE = 2;
+
+export const AUTO_REWIND_OPTIONS = [0, 1, 2, 3, 5];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  transcription: {
+    model: 'gemini-2.5-flash',
+    temperature: 0.2, // low for faithful transcription
+    language: 'ru',
+    promptId: BUILT_IN_PROMPT.id,
+  },
+  prompts: [],
+  recording: {
+    deviceId: '',
+    mimeType: '',
+    bitrate: 0,
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+  },
+  playback: {
+    rate: 1,
+    volume: 1,
+    autoRewindSeconds: 2,
+  },
+  visualizerFftSize: 256,
+};
+
+// One check per field. A field that fails keeps its default, so a damaged
+// or outdated entry never takes the other settings down with it.
+type Schema<T> = { [K in keyof T]: (value: unknown) => boolean };
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const oneOf = (options: unknown[]) => (value: unknown) => options.includes(value);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const TRANSCRIPTION_SCHEMA: Schema<TranscriptionSettings> = {
+  model: value => isString(value) && /^[\w.\-/]+$/.test(value),
+  temperature: value => typeof value === 'number' && value >= 0 && value <= MAX_TEMPERATURE,
+  language: oneOf(['', ...SPEECH_LANGUAGES]),
+  promptId: value => isString(value) && value !== '',
+};
+
+const RECORDING_SCHEMA: Schema<RecordingSettings> = {
+  deviceId: isString,
+  mimeType: oneOf(['', ...RECORDING_FORMATS.map(f => f.mimeType)]),
+  bitrate: oneOf(BITRATE_OPTIONS),
+  echoCancellation: isBoolean,
+  noiseSuppression: isBoolean,
+  autoGainControl: isBoolean,
+};
+
+const PLAYBACK_SCHEMA: Schema<PlaybackSettings> = {
+  rate: oneOf(PLAYBACK_RATES),
+  volume: value => typeof value === 'number' && value >= 0 && value <= 1,
+  autoRewindSeconds: oneOf(AUTO_REWIND_OPTIONS),
+};
+
+const validateSection = <T extends object>(raw: unknown, schema: Schema<T>, defaults: T, path: string, issues: string[]): T => {
+  const result = { ...defaults };
+  for (const key of Object.keys(schema) as (keyof T)[]) {
+    const value = isObject(raw) ? raw[key as string] : undefined;
+    if (value === undefined) continue;
+    if (schema[key](value)) result[key] = value as T[keyof T];
+    else issues.push(`${path}.${String(key)}`);
+  }
+  return result;
+};
+
+const validatePrompt = (raw: unknown): PromptPreset | null =>
+  isObject(raw) && isString(raw.id) && isString(raw.name) && isString(raw.text) && raw.id !== BUILT_IN_PROMPT.id
+    ? { id: raw.id, name: raw.name, text: raw.text }
+    : null;
+
+// Returns the valid settings and the fields that had to be reset
+export const parseSettings = (raw: unknown): { settings: AppSettings; issues: string[] } => {
+  const issues: string[] = [];
+  const section = (key: string) => (isObject(raw) ? raw[key] : undefined);
+  const rawPrompts = section('prompts');
+  const prompts = Array.isArray(rawPrompts)
+    ? rawPrompts.map(validatePrompt).filter((p): p is PromptPreset => p !== null)
+    : [];
+  const fftSize = section('visualizerFftSize');
+  const transcription = validateSection(section('transcription'), TRANSCRIPTION_SCHEMA, DEFAULT_SETTINGS.transcription, 'transcription', issues);
+  if (!getPromptPresets(prompts).some(p => p.id === transcription.promptId)) {
+    issues.push('transcription.promptId');
+    transcription.promptId = BUILT_IN_PROMPT.id;
+  }
+
+  return {
+    settings: {
+      transcription,
+      prompts,
+      recording: validateSection(section('recording'), RECORDING_SCHEMA, DEFAULT_SETTINGS.recording, 'recording', issues),
+      playback: validateSection(section('playback'), PLAYBACK_SCHEMA, DEFAULT_SETTINGS.playback, 'playback', issues),
+      visualizerFftSize: typeof fftSize === 'number' && FFT_SIZE_OPTIONS.includes(fftSize) ? fftSize : DEFAULT_SETTINGS.visualizerFftSize,
+    },
+    issues,
+  };
+};
+
+// The Whisper language applies only where the user has not chosen one here yet
+const migrateWhisperLanguage = (raw: unknown, settings: AppSettings): AppSettings => {
+  const language = takeLegacyWhisperLanguage();
+  const chosen = isObject(raw) && isObject(raw.transcription) && raw.transcription.language !== undefined;
+  if (language === undefined || chosen || !TRANSCRIPTION_SCHEMA.language(language)) return settings;
+  const migrated = { ...settings, transcription: { ...settings.transcription, language } };
+  saveSettings(migrated);
+  return migrated;
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const raw: unknown = stored ? JSON.parse(stored) : null;
+    const { settings, issues } = parseSettings(raw);
+    if (issues.length > 0) console.warn("Invalid settings were reset to defaults:", issues.join(', '));
+    return migrateWhisperLanguage(raw, settings);
+  } catch (error) {
+    console.error("Error loading settings:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getPromptPresets = (prompts: PromptPreset[]): PromptPreset[] => [BUILT_IN_PROMPT, ...prompts];
+
+export const getPromptText = (settings: AppSettings): string =>
+  (getPromptPresets(settings.prompts).find(p => p.id === settings.transcription.promptId) ?? BUILT_IN_PROMPT).text.trim()
+  || BUILT_IN_PROMPT.text;
+
+export const getGeminiConfig = (settings: AppSettings): GeminiConfig => ({
+  model: settings.transcription.model.trim() || DEFAULT_SETTINGS.transcription.model,
+  temperature: settings.transcription.temperature,
+  language: settings.transcription.language,
+  prompt: getPromptText(settings),
+});
+
+export const createPromptPreset = (from: PromptPreset): PromptPreset => ({
+  id: uuidv4(),
+  name: translate('settings.promptCopyName', { name: from.name }),
+  text: from.text,
+});
+
+export const getSupportedRecordingFormats = (): typeof RECORDING_FORMATS =>
+  typeof MediaRecorder === 'undefined'
+    ? []
+    : RECORDING_FORMATS.filter(f => MediaRecorder.isTypeSupported(f.mimeType));
+
+export const buildAudioConstraints = (recording: RecordingSettings, useDevice = true): MediaTrackConstraints => ({
+  ...(useDevice && recording.deviceId && { deviceId: { exact: recording.deviceId } }),
+  echoCancellation: recording.echoCancellation,
+  noiseSuppression: recording.noiseSuppression,
+  autoGainControl: recording.autoGainControl,
+});
+
+// A format chosen on another machine may not be recordable here
+export const buildRecorderOptions = (recording: RecordingSettings): MediaRecorderOptions => ({
+  ...(recording.mimeType && MediaRecorder.isTypeSupported(recording.mimeType) && { mimeType: recording.mimeType }),
+  ...(recording.bitrate > 0 && { audioBitsPerSecond: recording.bitrate }),
+});
@@ -0,0 +1,386 @@
+import { Bookmark, Recording, TranscriptionStatus } from "../types";
+import { isSealedWithCurrentKey, lockVault, openBlob, openJson, SealedData, sealBlob, sealJson } from "./vaultService";
+import { LocalizedError } from "./i18nService";
+
+const DB_NAME = 'dictofon';
+const DB_VERSION = 2;
+
+// Metadata and audio live in separate stores so that status/transcript updates
+// do not rewrite the (potentially large) audio blob every time.
+const RECORDINGS_STORE = 'recordings';
+const AUDIO_STORE = 'audio';
+// Recordings in progress are flushed here chunk by chunk until they are stopped
+const CAPTURE_SESSIONS_STORE = 'captureSessions';
+const CAPTURE_CHUNKS_STORE = 'captureChunks';
+
+type StoredRecording = Omit<Recording, 'blob' | 'url'>;
+
+// Everything but the id is encrypted. Entries written before the vault
+// existed are plain until resealStoredData has run over them.
+interface SealedRecording {
+  id: string;
+  sealed: SealedData;
+}
+type RecordingEntry = SealedRecording | StoredRecording;
+type AudioEntry = SealedData | Blob;
+
+interface CaptureChunk {
+  sessionId: string;
+  seq: number;
+  sealed?: SealedData;
+  blob?: Blob; // before the vault existed
+}
+
+export class StorageQuotaError extends LocalizedError {
+  constructor() {
+    super('storage.errorQuota');
+    this.name = 'StorageQuotaError';
+  }
+}
+
+export interface CaptureSession {
+  id: string;
+  startedAt: number;
+  mimeType: string;
+  elapsed: number; // seconds of audio captured so far, excluding pauses
+  bookmarks?: SealedData; // markers placed so far; notes are as private as the audio
+}
+
+export interface InterruptedCapture {
+  session: CaptureSession;
+  blob: Blob;
+  bookmarks: Bookmark[];
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+        db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+        db.createObjectStore(AUDIO_STORE);
+      }
+      if (!db.objectStoreNames.contains(CAPTURE_SESSIONS_STORE)) {
+        db.createObjectStore(CAPTURE_SESSIONS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(CAPTURE_CHUNKS_STORE)) {
+        db.createObjectStore(CAPTURE_CHUNKS_STORE, { keyPath: ['sessionId', 'seq'] });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'QuotaExceededError';
+
+// Wraps a transaction in a promise that settles once it is committed, so the
+// caller knows the data has actually reached the disk (or why it has not).
+const runTransaction = async (
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    const fail = () => {
+      const error = tx.error;
+      reject(isQuotaError(error) ? new StorageQuotaError() : error);
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = fail;
+    tx.onabort = fail;
+    work(tx);
+  });
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Writes that have not committed yet, so locking can wait for them
+const pendingWrites = new Set<Promise<unknown>>();
+
+const trackWrite = <T>(write: Promise<T>): Promise<T> => {
+  pendingWrites.add(write);
+  const settle = () => pendingWrites.delete(write);
+  write.then(settle, settle);
+  return write;
+};
+
+export const waitForPendingWrites = async (): Promise<void> => {
+  await Promise.allSettled([...pendingWrites]);
+};
+
+// Lets writes in flight commit before the keys are forgotten
+export const lockStorage = async (): Promise<void> => {
+  await waitForPendingWrites();
+  lockVault();
+};
+
+const isSealed = (value: unknown): value is SealedData =>
+  typeof value === 'object' && value !== null && 'keyId' in value && 'iv' in value;
+
+const toStored = ({ blob, url, ...rest }: Recording): StoredRecording => rest;
+
+const sealRecording = async (recording: Recording): Promise<SealedRecording> =>
+  ({ id: recording.id, sealed: await sealJson(toStored(recording)) });
+
+const openRecording = (entry: RecordingEntry): Promise<StoredRecording> | StoredRecording =>
+  'sealed' in entry ? openJson<StoredRecording>(entry.sealed) : entry;
+
+const openAudio = (entry: AudioEntry): Promise<Blob> | Blob =>
+  isSealed(entry) ? openBlob(entry) : entry;
+
+export const loadRecordings = async (): Promise<Recording[]> => {
+  const db = await openDb();
+  const tx = db.transaction([RECORDINGS_STORE, AUDIO_STORE], 'readonly');
+  const entries = await requestToPromise<RecordingEntry[]>(tx.objectStore(RECORDINGS_STORE).getAll());
+  const audioStore = tx.objectStore(AUDIO_STORE);
+  const audio = await Promise.all(entries.map(entry =>
+    requestToPromise<AudioEntry | undefined>(audioStore.get(entry.id))
+  ));
+
+  // Decrypt once the reads are done; the transaction does not outlive them
+  const recordings = await Promise.all(entries.map(async (entry, index) => {
+    if (!audio[index]) return null;
+    try {
+      const item = await openRecording(entry);
+      const blob = await openAudio(audio[index]);
+      const recording: Recording = {
+        ...item,
+        blob,
+        url: URL.createObjectURL(blob),
+        // A transcription that was in flight when the page closed will never finish
+        status: item.status === TranscriptionStatus.LOADING ? TranscriptionStatus.IDLE : item.status,
+      };
+      return recording;
+    } catch (error) {
+      console.error(`Could not decrypt recording ${entry.id}:`, error);
+      return null;
+    }
+  }));
+
+  return recordings
+    .filter((r): r is Recording => r !== null)
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+const writeRecording = async (recording: Recording, includeAudio: boolean): Promise<void> => {
+  const entry = await sealRecording(recording);
+  const audio = includeAudio ? await sealBlob(recording.blob) : null;
+  await runTransaction([RECORDINGS_STORE, AUDIO_STORE], 'readwrite', (tx) => {
+    tx.objectStore(RECORDINGS_STORE).put(entry);
+    if (audio) {
+      tx.objectStore(AUDIO_STORE).put(audio, recording.id);
+    }
+  });
+};
+
+export const saveRecording = (recording: Recording, includeAudio = true): Promise<void> =>
+  trackWrite(writeRecording(recording, includeAudio));
+
+export const deleteRecording = (id: string): Promise<void> =>
+  trackWrite(runTransaction([RECORDINGS_STORE, AUDIO_STORE], 'readwrite', (tx) => {
+    tx.objectStore(RECORDINGS_STORE).delete(id);
+    tx.objectStore(AUDIO_STORE).delete(id);
+  }));
+
+const sessionRange = (sessionId: string) => IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]);
+
+export const startCaptureSession = (session: CaptureSession): Promise<void> =>
+  runTransaction([CAPTURE_SESSIONS_STORE], 'readwrite', (tx) => {
+    tx.objectStore(CAPTURE_SESSIONS_STORE).put(session);
+  });
+
+// Each MediaRecorder timeslice is written as soon as it arrives, together with
+// the elapsed time, so a crash loses at most one timeslice of audio.
+export const appendCaptureChunk = (session: CaptureSession, seq: number, blob: Blob): Promise<void> =>
+  trackWrite(sealBlob(blob).then(sealed =>
+    runTransaction([CAPTURE_SESSIONS_STORE, CAPTURE_CHUNKS_STORE], 'readwrite', (tx) => {
+      tx.objectStore(CAPTURE_SESSIONS_STORE).put(session);
+      const chunk: CaptureChunk = { sessionId: session.id, seq, sealed };
+      tx.objectStore(CAPTURE_CHUNKS_STORE).put(chunk);
+    })
+  ));
+
+// The session object is shared with appendCaptureChunk, which writes it again
+// with every chunk, so the markers stay in place either way
+export const saveCaptureBookmarks = (session: CaptureSession, bookmarks: Bookmark[]): Promise<void> =>
+  trackWrite(sealJson(bookmarks).then(sealed => {
+    session.bookmarks = sealed;
+    return runTransaction([CAPTURE_SESSIONS_STORE], 'readwrite', (tx) => {
+      tx.objectStore(CAPTURE_SESSIONS_STORE).put(session);
+    });
+  }));
+
+// Chunks are encrypted before they are written, so the last ones may still be
+// on their way; let them land first or they would bring the session back
+export const deleteCaptureSession = (sessionId: string): Promise<void> =>
+  trackWrite(waitForPendingWrites().then(() =>
+    runTransaction([CAPTURE_SESSIONS_STORE, CAPTURE_CHUNKS_STORE], 'readwrite', (tx) => {
+      tx.objectStore(CAPTURE_SESSIONS_STORE).delete(sessionId);
+      tx.objectStore(CAPTURE_CHUNKS_STORE).delete(sessionRange(sessionId));
+    })
+  ));
+
+// Any capture session still in storage at startup was never stopped cleanly
+export const loadInterruptedCaptures = async (): Promise<InterruptedCapture[]> => {
+  const db = await openDb();
+  const tx = db.transaction([CAPTURE_SESSIONS_STORE, CAPTURE_CHUNKS_STORE], 'readonly');
+  const sessions = await requestToPromise<CaptureSession[]>(tx.objectStore(CAPTURE_SESSIONS_STORE).getAll());
+  const chunkStore = tx.objectStore(CAPTURE_CHUNKS_STORE);
+
+  const stored = await Promise.all(sessions.map(session =>
+    requestToPromise<CaptureChunk[]>(chunkStore.getAll(sessionRange(session.id)))
+  ));
+
+  const captures = await Promise.all(sessions.map(async (session, index) => {
+    const parts = await Promise.all(stored[index].map(c => c.sealed ? openBlob(c.sealed) : c.blob!));
+    const bookmarks = session.bookmarks ? await openJson<Bookmark[]>(session.bookmarks) : [];
+    return { session, blob: new Blob(parts, { type: session.mimeType }), bookmarks };
+  }));
+
+  return captures.sort((a, b) => b.session.startedAt - a.session.startedAt);
+};
+
+// Re-encrypts one entry with the current key. The write checks that the entry
+// was not saved again in the meantime, so a newer version is never overwritten
+// with the one read here.
+const resealEntry = async <T>(
+  storeName: string,
+  key: IDBValidKey,
+  getSealed: (value: T) => SealedData | null,
+  reseal: (value: T) => Promise<T>
+): Promise<void> => {
+  const db = await openDb();
+  const value = await requestToPromise<T | undefined>(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+  if (value === undefined) return;
+  const sealed = getSealed(value);
+  if (sealed && isSealedWithCurrentKey(sealed)) return;
+
+  const next = await reseal(value);
+  await runTransaction([storeName], 'readwrite', (tx) => {
+    const store = tx.objectStore(storeName);
+    const check = store.get(key);
+    check.onsuccess = () => {
+      const current = check.result as T | undefined;
+      if (current === undefined) return;
+      if (getSealed(current)?.keyId !== sealed?.keyId) return;
+      // Stores with inline keys take the key from the value
+      if (store.keyPath === null) store.put(next, key);
+      else store.put(next);
+    };
+  });
+};
+
+// Brings everything in storage under the vault's current key: entries from
+// before the vault existed and entries under a key from an old passphrase
+export const resealStoredData = async (onProgress?: (done: number, total: number) => void): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([RECORDINGS_STORE, AUDIO_STORE, CAPTURE_CHUNKS_STORE, CAPTURE_SESSIONS_STORE], 'readonly');
+  const [recordingKeys, audioKeys, chunkKeys, sessions] = await Promise.all([
+    requestToPromise(tx.objectStore(RECORDINGS_STORE).getAllKeys()),
+    requestToPromise(tx.objectStore(AUDIO_STORE).getAllKeys()),
+    requestToPromise(tx.objectStore(CAPTURE_CHUNKS_STORE).getAllKeys()),
+    requestToPromise<CaptureSession[]>(tx.objectStore(CAPTURE_SESSIONS_STORE).getAll()),
+  ]);
+  // Sessions are plain apart from their markers
+  const sessionKeys = sessions.filter(session => session.bookmarks).map(session => session.id);
+
+  const total = recordingKeys.length + audioKeys.length + chunkKeys.length + sessionKeys.length;
+  let done = 0;
+  const step = () => onProgress?.(++done, total);
+  onProgress?.(0, total);
+
+  for (const key of recordingKeys) {
+    await trackWrite(resealEntry<RecordingEntry>(
+      RECORDINGS_STORE,
+      key,
+      entry => 'sealed' in entry ? entry.sealed : null,
+      async entry => ({ id: entry.id, sealed: await sealJson(await openRecording(entry)) })
+    ));
+    step();
+  }
+  for (const key of audioKeys) {
+    await trackWrite(resealEntry<AudioEntry>(
+      AUDIO_STORE,
+      key,
+      entry => isSealed(entry) ? entry : null,
+      async entry => sealBlob(await openAudio(entry))
+    ));
+    step();
+  }
+  for (const key of chunkKeys) {
+    await trackWrite(resealEntry<CaptureChunk>(
+      CAPTURE_CHUNKS_STORE,
+      key,
+      chunk => chunk.sealed ?? null,
+      async chunk => ({
+        sessionId: chunk.sessionId,
+        seq: chunk.seq,
+        sealed: await sealBlob(chunk.sealed ? await openBlob(chunk.sealed) : chunk.blob!),
+      })
+    ));
+    step();
+  }
+  for (const key of sessionKeys) {
+    await trackWrite(resealEntry<CaptureSession>(
+      CAPTURE_SESSIONS_STORE,
+      key,
+      session => session.bookmarks ?? null,
+      async session => ({ ...session, bookmarks: await sealJson(await openJson<Bookmark[]>(session.bookmarks!)) })
+    ));
+    step();
+  }
+};
+
+// For a forgotten passphrase: without it nothing stored can be read anyway
+export const deleteAllData = async (): Promise<void> => {
+  if (dbPromise) {
+    (await dbPromise).close();
+    dbPromise = null;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// Ask the browser not to evict our data under storage pressure. Browsers may
+// silently refuse; the app keeps working either way.
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+};
@@ -0,0 +1,116 @@
+import { TranscriptionResult, TranscriptSegment } from "../types";
+import { LocalizedError, MessageKey, MessageParams } from "./i18nService";
+
+export type ProviderId = 'gemini' | 'whisper' | 'mock';
+
+export interface TranscribeOptions {
+  duration?: number; // seconds, only used to sanity-check the returned timestamps
+  diarize?: boolean; // label each segment with a speaker id
+  vocabulary?: string[]; // glossary terms and names to bias recognition towards
+  signal?: AbortSignal; // cancels the request
+  continuation?: SpeakerContext; // set when the audio continues an already diarized part
+}
+
+// What a diarized request needs to keep the speaker ids of the parts before it
+export interface SpeakerContext {
+  speakers: string[]; // ids used so far, in order of first appearance
+  tail: TranscriptSegment[]; // the last lines before this audio
+}
+
+// A failed request to a transcription backend. `status` is the HTTP status,
+// absent when the backend could not be reached at all.
+export class TranscriptionRequestError extends LocalizedError {
+  constructor(key: MessageKey, params?: MessageParams, public status?: number) {
+    super(key, params);
+    this.name = 'TranscriptionRequestError';
+  }
+
+  // Rate limits, server errors and network failures are worth another try
+  get isRetryable(): boolean {
+    return this.status === undefined || this.status === 429 || this.status >= 500;
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+// For work between requests, such as decoding, that cannot watch the signal itself
+export const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) throw new DOMException("Отменено", 'AbortError');
+};
+
+export interface TranscriptionProvider {
+  id: ProviderId;
+  label: MessageKey;
+  supportsDiarization: boolean;
+  // Larger blobs are split into segments before being sent
+  maxUploadBytes: number;
+  // Whether audio leaves the user's own infrastructure
+  isLocal: boolean;
+  transcribe: (audioBlob: Blob, options?: TranscribeOptions) => Promise<TranscriptionResult>;
+}
+
+export interface WhisperConfig {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+export interface ProviderConfig {
+  active: ProviderId;
+  whisper: WhisperConfig;
+  concurrency: number; // transcription jobs running at the same time
+}
+
+const CONFIG_KEY = 'dictofon.provider';
+
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+  active: 'gemini',
+  whisper: {
+    baseUrl: 'http://localhost:8000',
+    model: 'whisper-1',
+    apiKey: '',
+  },
+  concurrency: 2,
+};
+
+export const MAX_CONCURRENCY = 8;
+
+export const loadProviderConfig = (): ProviderConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONFIG_KEY) || 'null');
+    if (!stored) return DEFAULT_PROVIDER_CONFIG;
+    return {
+      active: ['gemini', 'whisper', 'mock'].includes(stored.active) ? stored.active : DEFAULT_PROVIDER_CONFIG.active,
+      whisper: {
+        baseUrl: typeof stored.whisper?.baseUrl === 'string' ? stored.whisper.baseUrl : DEFAULT_PROVIDER_CONFIG.whisper.baseUrl,
+        model: typeof stored.whisper?.model === 'string' ? stored.whisper.model : DEFAULT_PROVIDER_CONFIG.whisper.model,
+        apiKey: typeof stored.whisper?.apiKey === 'string' ? stored.whisper.apiKey : DEFAULT_PROVIDER_CONFIG.whisper.apiKey,
+      },
+      concurrency: Number.isInteger(stored.concurrency) && stored.concurrency >= 1 && stored.concurrency <= MAX_CONCURRENCY
+        ? stored.concurrency
+        : DEFAULT_PROVIDER_CONFIG.concurrency,
+    };
+  } catch {
+    return DEFAULT_PROVIDER_CONFIG;
+  }
+};
+
+// Whisper used to keep its own speech language before it moved to the
+// transcription settings. Returns it once and drops it from storage.
+export const takeLegacyWhisperLanguage = (): string | undefined => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONFIG_KEY) || 'null');
+    const language = stored?.whisper?.language;
+    if (typeof language !== 'string') return undefined;
+    delete stored.whisper.language;
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(stored));
+    return language.trim().toLowerCase();
+  } catch {
+    return undefined;
+  }
+};
+
+export const saveProviderConfig = (config: ProviderConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
@@ -0,0 +1,162 @@
+import { isAbortError, TranscribeOptions, TranscriptionProvider, TranscriptionRequestError } from "./transcriptionProvider";
+
+const MAX_RETRIES = 4;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 60000;
+
+export type JobState = 'queued' | 'running' | 'waiting'; // waiting = backing off before a retry
+
+export interface JobInfo {
+  id: string; // recording id
+  state: JobState;
+  retries: number;
+  retryAt?: number; // while waiting, when the next attempt starts
+  lastError?: string;
+}
+
+// The task gets a provider whose requests are retried and cancelled on the
+// job's behalf, so long recordings retry segment by segment.
+export type JobTask = (provider: TranscriptionProvider, signal: AbortSignal) => Promise<void>;
+
+export interface TranscriptionQueue {
+  enqueue: (id: string, provider: TranscriptionProvider, task: JobTask) => boolean;
+  has: (id: string) => boolean;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  setConcurrency: (concurrency: number) => void;
+}
+
+interface Job {
+  info: JobInfo;
+  provider: TranscriptionProvider;
+  task: JobTask;
+  controller: AbortController;
+}
+
+const abortError = () => new DOMException("Отменено", 'AbortError');
+
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Exponential backoff with jitter, so parallel jobs hitting a rate limit do not retry in lockstep
+const backoffDelay = (retry: number): number =>
+  Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** retry) * (0.75 + Math.random() * 0.5);
+
+export const withRetries = async <T>(
+  run: () => Promise<T>,
+  signal: AbortSignal,
+  onRetry: (retry: number, delayMs: number, error: Error) => void
+): Promise<T> => {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (signal.aborted) throw abortError();
+      const retryable = error instanceof TranscriptionRequestError && error.isRetryable;
+      if (!retryable || retry >= MAX_RETRIES) throw error;
+      const delay = backoffDelay(retry);
+      onRetry(retry + 1, delay, error);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+export const createTranscriptionQueue = (
+  onChange: (jobs: JobInfo[]) => void,
+  initialConcurrency = 1
+): TranscriptionQueue => {
+  let concurrency = initialConcurrency;
+  let jobs: Job[] = [];
+
+  const emit = () => onChange(jobs.map(job => ({ ...job.info })));
+
+  const update = (job: Job, patch: Partial<JobInfo>) => {
+    job.info = { ...job.info, ...patch };
+    emit();
+  };
+
+  const finish = (job: Job) => {
+    jobs = jobs.filter(j => j !== job);
+    emit();
+    pump();
+  };
+
+  const start = (job: Job) => {
+    const { signal } = job.controller;
+    update(job, { state: 'running' });
+
+    const transcribe = (blob: Blob, options?: TranscribeOptions) =>
+      withRetries(
+        () => {
+          if (job.info.state === 'waiting') update(job, { state: 'running', retryAt: undefined });
+          return job.provider.transcribe(blob, { ...options, signal });
+        },
+        signal,
+        (retries, delayMs, error) => {
+          update(job, { state: 'waiting', retries, retryAt: Date.now() + delayMs, lastError: error.message });
+        }
+      );
+
+    job.task({ ...job.provider, transcribe }, signal)
+      .catch((error) => {
+        // Tasks report their own failures; anything left here is a bug in the task
+        if (!isAbortError(error)) console.error("Transcription job failed:", error);
+      })
+      .finally(() => finish(job));
+  };
+
+  const pump = () => {
+    let running = jobs.filter(j => j.info.state !== 'queued').length;
+    for (const job of jobs) {
+      if (running >= concurrency) break;
+      if (job.info.state !== 'queued') continue;
+      start(job);
+      running++;
+    }
+  };
+
+  const cancelJob = (job: Job) => {
+    job.controller.abort();
+    // Running jobs leave the queue when their task settles
+    if (job.info.state === 'queued') {
+      jobs = jobs.filter(j => j !== job);
+    }
+  };
+
+  return {
+    // Returns false when the recording already has a job
+    enqueue: (id, provider, task) => {
+      if (jobs.some(j => j.info.id === id)) return false;
+      jobs.push({ info: { id, state: 'queued', retries: 0 }, provider, task, controller: new AbortController() });
+      emit();
+      pump();
+      return true;
+    },
+    has: (id) => jobs.some(j => j.info.id === id),
+    cancel: (id) => {
+      const job = jobs.find(j => j.info.id === id);
+      if (!job) return;
+      cancelJob(job);
+      emit();
+    },
+    cancelAll: () => {
+      [...jobs].forEach(cancelJob);
+      emit();
+    },
+    setConcurrency: (next) => {
+      concurrency = Math.max(1, next);
+      pump();
+    },
+  };
+};
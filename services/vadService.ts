@@ -0,0 +1,272 @@
+import { TimeRange } from "../types";
+import { decodeAudioBlob, frameLevels, mixToMono, percentile, toDecibels } from "../utils/audioUtils";
+import { encodeCompactAudio } from "../utils/oggOpus";
+
+const CONFIG_KEY = 'dictofon.vad';
+
+const SAMPLE_RATE = 16000;
+const FRAME_SECONDS = 0.03;
+const SPEECH_MARGIN_DB = 12; // how far above the noise floor speech must be
+const MIN_SPEECH_DB = -55; // anything quieter is silence, however clean the recording
+const MERGE_GAP_SECONDS = 0.3; // shorter gaps are pauses between words
+const MIN_SPEECH_SECONDS = 0.15; // shorter bursts are clicks and bumps
+const PAD_SECONDS = 0.2; // kept around speech so word onsets are not clipped
+const KEPT_PAUSE_SECONDS = 0.5; // what is left of a removed pause
+
+const MONITOR_INTERVAL_MS = 50;
+const ONSET_FRAMES = 2; // consecutive loud polls before speech counts as started
+const FLOOR_RISE = 0.002; // how fast the live noise floor follows a louder room
+const PRE_ROLL_SECONDS = 3; // at least this much of the wait, and at most twice it, is kept before the first word
+
+export interface VadConfig {
+  trimSilence: boolean; // cut silence before the first and after the last speech
+  removePauses: boolean;
+  maxPauseSeconds: number; // pauses longer than this are shortened
+  autoStopSeconds: number; // voice-activated recording stops after this much silence
+}
+
+export const DEFAULT_VAD_CONFIG: VadConfig = {
+  trimSilence: true,
+  removePauses: false,
+  maxPauseSeconds: 3,
+  autoStopSeconds: 5,
+};
+
+export const loadVadConfig = (): VadConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONFIG_KEY) || 'null');
+    if (!stored) return DEFAULT_VAD_CONFIG;
+    const seconds = (value: unknown, fallback: number) =>
+      typeof value === 'number' && value >= 1 && value <= 60 ? value : fallback;
+    return {
+      trimSilence: typeof stored.trimSilence === 'boolean' ? stored.trimSilence : DEFAULT_VAD_CONFIG.trimSilence,
+      removePauses: typeof stored.removePauses === 'boolean' ? stored.removePauses : DEFAULT_VAD_CONFIG.removePauses,
+      maxPauseSeconds: seconds(stored.maxPauseSeconds, DEFAULT_VAD_CONFIG.maxPauseSeconds),
+      autoStopSeconds: seconds(stored.autoStopSeconds, DEFAULT_VAD_CONFIG.autoStopSeconds),
+    };
+  } catch {
+    return DEFAULT_VAD_CONFIG;
+  }
+};
+
+export const saveVadConfig = (config: VadConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+// Energy-based detection against the recording's own noise floor. The
+// threshold is also capped below the loud frames, so a recording that is
+// speech from end to end is not read as one long silence.
+export const detectSpeech = (samples: Float32Array, sampleRate: number): TimeRange[] => {
+  const levels = frameLevels(samples, Math.round(FRAME_SECONDS * sampleRate));
+  const frameCount = levels.length;
+  if (frameCount === 0) return [];
+
+  const floor = percentile(levels, 0.1);
+  const loud = percentile(levels, 0.9);
+  const threshold = Math.max(MIN_SPEECH_DB, Math.min(floor + SPEECH_MARGIN_DB, loud - SPEECH_MARGIN_DB));
+
+  const regions: TimeRange[] = [];
+  for (let f = 0; f < frameCount; f++) {
+    if (levels[f] < threshold) continue;
+    const start = f * FRAME_SECONDS;
+    const last = regions[regions.length - 1];
+    if (last && start - last.end < MERGE_GAP_SECONDS) {
+      last.end = start + FRAME_SECONDS;
+    } else {
+      regions.push({ start, end: start + FRAME_SECONDS });
+    }
+  }
+
+  const duration = samples.length / sampleRate;
+  const padded: TimeRange[] = [];
+  for (const region of regions.filter(r => r.end - r.start >= MIN_SPEECH_SECONDS)) {
+    const start = Math.max(0, region.start - PAD_SECONDS);
+    const end = Math.min(duration, region.end + PAD_SECONDS);
+    const last = padded[padded.length - 1];
+    if (last && start <= last.end) last.end = end;
+    else padded.push({ start, end });
+  }
+  return padded;
+};
+
+export const analyzeSpeech = async (blob: Blob): Promise<TimeRange[]> =>
+  detectSpeech(mixToMono(await decodeAudioBlob(blob, SAMPLE_RATE)), SAMPLE_RATE);
+
+export const getSpeechSeconds = (speech: TimeRange[]): number =>
+  speech.reduce((sum, range) => sum + range.end - range.start, 0);
+
+// Parts of the recording to keep under the given settings, in order
+export const planKeptRanges = (speech: TimeRange[], duration: number, config: VadConfig): TimeRange[] => {
+  if (speech.length === 0) return [{ start: 0, end: duration }];
+
+  const start = config.trimSilence ? speech[0].start : 0;
+  const end = config.trimSilence ? speech[speech.length - 1].end : duration;
+  if (!config.removePauses) return [{ start, end }];
+
+  const kept = Math.min(config.maxPauseSeconds, KEPT_PAUSE_SECONDS) / 2;
+  const ranges: TimeRange[] = [{ start, end }];
+  for (let i = 1; i < speech.length; i++) {
+    const pauseStart = speech[i - 1].end;
+    const pauseEnd = speech[i].start;
+    if (pauseEnd - pauseStart <= config.maxPauseSeconds) continue;
+    const current = ranges[ranges.length - 1];
+    current.end = pauseStart + kept;
+    ranges.push({ start: pauseEnd - kept, end });
+  }
+  return ranges;
+};
+
+export interface CondensedAudio {
+  blob: Blob; // 16 kHz mono, Ogg Opus where the browser can encode it
+  ranges: TimeRange[]; // parts of the original recording it contains
+  speech: TimeRange[]; // speech map of the original recording
+}
+
+// Drops silence before transcription. Returns null when the settings would
+// keep (nearly) everything or no speech was found, so the original is sent.
+export const condenseForTranscription = async (blob: Blob, config: VadConfig): Promise<CondensedAudio | null> => {
+  if (!config.trimSilence && !config.removePauses) return null;
+
+  const samples = mixToMono(await decodeAudioBlob(blob, SAMPLE_RATE));
+  const duration = samples.length / SAMPLE_RATE;
+  const speech = detectSpeech(samples, SAMPLE_RATE);
+  if (speech.length === 0) return null;
+
+  const ranges = planKeptRanges(speech, duration, config);
+  const keptSeconds = ranges.reduce((sum, range) => sum + range.end - range.start, 0);
+  if (duration - keptSeconds < 1) return null;
+
+  const condensed = new Float32Array(ranges.reduce(
+    (sum, range) => sum + Math.round(range.end * SAMPLE_RATE) - Math.round(range.start * SAMPLE_RATE), 0
+  ));
+  let offset = 0;
+  for (const range of ranges) {
+    const part = samples.subarray(Math.round(range.start * SAMPLE_RATE), Math.round(range.end * SAMPLE_RATE));
+    condensed.set(part, offset);
+    offset += part.length;
+  }
+  return { blob: await encodeCompactAudio(condensed, SAMPLE_RATE), ranges, speech };
+};
+
+export interface VoiceActivityMonitor {
+  reset: () => void; // forget the silence so far, e.g. after a pause
+  stop: () => void;
+}
+
+interface VoiceActivityCallbacks {
+  onSpeech: () => void; // speech started after silence
+  onSilence: () => void; // silence lasted `silenceSeconds` after speech
+}
+
+// Watches a live microphone stream with the same analyser approach as the
+// visualizer. The noise floor drops at once to quieter levels and rises
+// slowly, so a steady background noise is learned but speech is not.
+export const monitorVoiceActivity = (
+  stream: MediaStream,
+  silenceSeconds: number,
+  { onSpeech, onSilence }: VoiceActivityCallbacks
+): VoiceActivityMonitor => {
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+  const buffer = new Float32Array(analyser.fftSize);
+
+  let floor: number | null = null;
+  let loudPolls = 0;
+  let silentSeconds = 0;
+  let isSpeaking = false;
+  let silenceReported = true; // nothing to report before the first speech
+
+  const timer = window.setInterval(() => {
+    analyser.getFloatTimeDomainData(buffer);
+    const level = toDecibels(buffer);
+    floor = floor === null || level < floor ? level : floor + (level - floor) * FLOOR_RISE;
+
+    if (level > Math.max(floor + SPEECH_MARGIN_DB, MIN_SPEECH_DB)) {
+      silentSeconds = 0;
+      if (++loudPolls >= ONSET_FRAMES && !isSpeaking) {
+        isSpeaking = true;
+        silenceReported = false;
+        onSpeech();
+      }
+      return;
+    }
+
+    loudPolls = 0;
+    silentSeconds += MONITOR_INTERVAL_MS / 1000;
+    if (silentSeconds >= MERGE_GAP_SECONDS) isSpeaking = false;
+    if (!silenceReported && silentSeconds >= silenceSeconds) {
+      silenceReported = true;
+      onSilence();
+    }
+  }, MONITOR_INTERVAL_MS);
+
+  return {
+    reset: () => {
+      silentSeconds = 0;
+    },
+    stop: () => {
+      window.clearInterval(timer);
+      source.disconnect();
+      context.close();
+    },
+  };
+};
+
+export interface PreRoll {
+  recorder: MediaRecorder; // still running, handed over to the capture
+  chunks: Blob[]; // what it has delivered so far, in order
+  startedAt: number; // Date.now() when it started
+}
+
+export interface PreRollRecorder {
+  take: () => PreRoll; // stops replacing recorders and hands the older running one over
+  stop: () => void;
+}
+
+// Records while voice activation waits, so the words that set it off are kept
+// from their onset instead of from the moment they were detected. Two
+// recorders overlap: every few seconds the older one is dropped and a new one
+// starts, so the older one always holds at least PRE_ROLL_SECONDS of audio
+// (or everything since the wait began) and the wait stays out of the recording.
+export const startPreRoll = (stream: MediaStream, options: MediaRecorderOptions, timesliceMs: number): PreRollRecorder => {
+  const start = (): PreRoll => {
+    const preRoll: PreRoll = { recorder: new MediaRecorder(stream, options), chunks: [], startedAt: Date.now() };
+    preRoll.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) preRoll.chunks.push(event.data);
+    };
+    preRoll.recorder.start(timesliceMs);
+    return preRoll;
+  };
+
+  const discard = (preRoll: PreRoll) => {
+    preRoll.recorder.ondataavailable = null;
+    if (preRoll.recorder.state !== 'inactive') preRoll.recorder.stop();
+  };
+
+  let older = start();
+  let newer: PreRoll | null = null;
+  const timer = window.setInterval(() => {
+    if (newer) {
+      discard(older);
+      older = newer;
+    }
+    newer = start();
+  }, PRE_ROLL_SECONDS * 1000);
+
+  return {
+    take: () => {
+      window.clearInterval(timer);
+      if (newer) discard(newer);
+      newer = null;
+      return older;
+    },
+    stop: () => {
+      window.clearInterval(timer);
+      discard(older);
+      if (newer) discard(newer);
+    },
+  };
+};
@@ -0,0 +1,248 @@
+import { v4 as uuidv4 } from 'uuid';
+import { LocalizedError } from './i18nService';
+
+// Recordings are encrypted with a random data key. The passphrase only wraps
+// that key, through a key derived with PBKDF2. Changing the passphrase makes a
+// new data key and re-encrypts the library with it; until that finishes the
+// old keys stay in the vault, wrapped with the new passphrase, so an
+// interrupted change loses nothing.
+
+const STORAGE_KEY = 'dictofon.vault';
+
+const PBKDF2_ITERATIONS = 600000; // OWASP recommendation for PBKDF2-SHA256
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const AUTO_LOCK_OPTIONS = [5, 15, 30, 60]; // minutes
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+export class VaultPassphraseError extends LocalizedError {
+  constructor() {
+    super('vault.errorPassphrase');
+    this.name = 'VaultPassphraseError';
+  }
+}
+
+interface WrappedKey {
+  id: string;
+  iv: string; // base64
+  key: string; // base64, AES-GCM encrypted raw key
+}
+
+export interface VaultMeta {
+  salt: string; // base64
+  iterations: number;
+  key: WrappedKey; // encrypts everything written from now on
+  previousKeys: WrappedKey[]; // still needed by data that has not been re-encrypted yet
+  resealing: boolean; // data may still be under previous keys or unencrypted
+  autoLockMinutes: number;
+}
+
+interface VaultKeys {
+  currentId: string;
+  keys: Map<string, CryptoKey>;
+}
+
+// Encrypted data as stored in IndexedDB. The ciphertext is kept as a Blob so
+// the browser can keep large audio on disk rather than in memory.
+export interface SealedData {
+  keyId: string;
+  iv: Uint8Array;
+  data: Blob;
+  type?: string; // MIME type of the original blob
+}
+
+let unlocked: VaultKeys | null = null;
+let autoLockHolds = 0;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const randomBytes = (length: number): Uint8Array<ArrayBuffer> =>
+  crypto.getRandomValues(new Uint8Array(length));
+
+const deriveWrappingKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+// Data keys stay extractable so a passphrase change can wrap them again
+const generateDataKey = (): Promise<CryptoKey> =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+const wrapDataKey = async (id: string, key: CryptoKey, wrappingKey: CryptoKey): Promise<WrappedKey> => {
+  const iv = randomBytes(IV_BYTES);
+  const wrapped = await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv });
+  return { id, iv: toBase64(iv), key: toBase64(new Uint8Array(wrapped)) };
+};
+
+// AES-GCM authenticates the wrapped key, so a wrong passphrase fails here
+const unwrapDataKey = async (wrapped: WrappedKey, wrappingKey: CryptoKey): Promise<CryptoKey> => {
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      fromBase64(wrapped.key),
+      wrappingKey,
+      { name: 'AES-GCM', iv: fromBase64(wrapped.iv) },
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    );
+  } catch {
+    throw new VaultPassphraseError();
+  }
+};
+
+export const loadVaultMeta = (): VaultMeta | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!stored || typeof stored.salt !== 'string' || !stored.key?.id) return null;
+    return {
+      salt: stored.salt,
+      iterations: typeof stored.iterations === 'number' ? stored.iterations : PBKDF2_ITERATIONS,
+      key: stored.key,
+      previousKeys: Array.isArray(stored.previousKeys) ? stored.previousKeys : [],
+      resealing: stored.resealing === true,
+      autoLockMinutes: AUTO_LOCK_OPTIONS.includes(stored.autoLockMinutes) ? stored.autoLockMinutes : DEFAULT_AUTO_LOCK_MINUTES,
+    };
+  } catch {
+    return null;
+  }
+};
+
+const saveVaultMeta = (meta: VaultMeta) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(meta));
+};
+
+export const isVaultCreated = (): boolean => loadVaultMeta() !== null;
+
+export const isVaultUnlocked = (): boolean => unlocked !== null;
+
+// Wraps the given keys with a new passphrase and makes `current` the one new data is written with
+const storeKeys = async (
+  passphrase: string,
+  current: { id: string; key: CryptoKey },
+  previous: [string, CryptoKey][],
+  autoLockMinutes: number
+) => {
+  const salt = randomBytes(SALT_BYTES);
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+  saveVaultMeta({
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    key: await wrapDataKey(current.id, current.key, wrappingKey),
+    previousKeys: await Promise.all(previous.map(([id, key]) => wrapDataKey(id, key, wrappingKey))),
+    resealing: true,
+    autoLockMinutes,
+  });
+  unlocked = { currentId: current.id, keys: new Map([...previous, [current.id, current.key]]) };
+};
+
+// The caller re-encrypts existing (unencrypted) data and then calls finishResealing
+export const createVault = async (passphrase: string): Promise<void> => {
+  await storeKeys(passphrase, { id: uuidv4(), key: await generateDataKey() }, [], DEFAULT_AUTO_LOCK_MINUTES);
+};
+
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  const meta = loadVaultMeta();
+  if (!meta) throw new LocalizedError('vault.errorNotCreated');
+  const wrappingKey = await deriveWrappingKey(passphrase, fromBase64(meta.salt), meta.iterations);
+  const keys = new Map<string, CryptoKey>();
+  for (const wrapped of [meta.key, ...meta.previousKeys]) {
+    keys.set(wrapped.id, await unwrapDataKey(wrapped, wrappingKey));
+  }
+  unlocked = { currentId: meta.key.id, keys };
+};
+
+// Switches to a new data key under the new passphrase. The caller then
+// re-encrypts the stored data and calls finishResealing.
+export const changePassphrase = async (currentPassphrase: string, nextPassphrase: string): Promise<void> => {
+  const meta = loadVaultMeta();
+  if (!meta || !unlocked) throw new LocalizedError('vault.errorLocked');
+  // Checks the current passphrase
+  await unwrapDataKey(meta.key, await deriveWrappingKey(currentPassphrase, fromBase64(meta.salt), meta.iterations));
+  await storeKeys(
+    nextPassphrase,
+    { id: uuidv4(), key: await generateDataKey() },
+    [...unlocked.keys.entries()],
+    meta.autoLockMinutes
+  );
+};
+
+// Everything is under the current key now; drop the old ones
+export const finishResealing = () => {
+  const meta = loadVaultMeta();
+  if (!meta || !unlocked) return;
+  saveVaultMeta({ ...meta, previousKeys: [], resealing: false });
+  const current = unlocked.keys.get(unlocked.currentId)!;
+  unlocked = { currentId: unlocked.currentId, keys: new Map([[unlocked.currentId, current]]) };
+};
+
+export const lockVault = () => {
+  unlocked = null;
+};
+
+export const deleteVault = () => {
+  unlocked = null;
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+export const setAutoLockMinutes = (minutes: number) => {
+  const meta = loadVaultMeta();
+  if (meta) saveVaultMeta({ ...meta, autoLockMinutes: minutes });
+};
+
+// Keeps the app from locking itself while something must not be interrupted,
+// e.g. a recording. Returns the function that releases the hold.
+export const holdAutoLock = (): (() => void) => {
+  autoLockHolds++;
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    autoLockHolds--;
+  };
+};
+
+export const isAutoLockHeld = (): boolean => autoLockHolds > 0;
+
+const requireKeys = (): VaultKeys => {
+  if (!unlocked) throw new LocalizedError('vault.errorLocked');
+  return unlocked;
+};
+
+export const isSealedWithCurrentKey = (sealed: SealedData): boolean =>
+  sealed.keyId === requireKeys().currentId;
+
+export const sealBlob = async (blob: Blob): Promise<SealedData> => {
+  const { currentId, keys } = requireKeys();
+  const iv = randomBytes(IV_BYTES);
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, keys.get(currentId)!, await blob.arrayBuffer());
+  return { keyId: currentId, iv, data: new Blob([encrypted]), type: blob.type };
+};
+
+export const openBlob = async (sealed: SealedData): Promise<Blob> => {
+  const key = requireKeys().keys.get(sealed.keyId);
+  if (!key) throw new LocalizedError('vault.errorUnknownKey');
+  const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv as Uint8Array<ArrayBuffer> }, key, await sealed.data.arrayBuffer());
+  return new Blob([decrypted], { type: sealed.type ?? '' });
+};
+
+export const sealJson = (value: unknown): Promise<SealedData> =>
+  sealBlob(new Blob([JSON.stringify(value)], { type: 'application/json' }));
+
+export const openJson = async <T>(sealed: SealedData): Promise<T> =>
+  JSON.parse(await (await openBlob(sealed)).text());
@@ -0,0 +1,96 @@
+import { TranscriptionResult, TranscriptSegment } from "../types";
+import { parseSegments, segmentsToText, TranscriptFormatError } from "../utils/transcriptUtils";
+import { MessageKey } from "./i18nService";
+import { isAbortError, TranscribeOptions, TranscriptionProvider, TranscriptionRequestError, WhisperConfig } from "./transcriptionProvider";
+
+// Extensions the OpenAI-compatible servers use to sniff the container format
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/flac': 'flac',
+};
+
+const getFileName = (blob: Blob): string => {
+  const mimeType = (blob.type || 'audio/webm').split(';')[0];
+  return `audio.${EXTENSIONS[mimeType] || 'webm'}`;
+};
+
+const parsePlainText = (body: string, duration?: number): TranscriptSegment[] => {
+  let text: unknown;
+  try {
+    text = JSON.parse(body)?.text;
+  } catch {
+    text = body;
+  }
+  if (typeof text !== 'string') {
+    throw new TranscriptFormatError('transcript.errorNoText');
+  }
+  return text.trim() ? [{ start: 0, end: duration ?? 0, text: text.trim() }] : [];
+};
+
+const MAX_PROMPT_CHARS = 800;
+
+export const WHISPER_LABEL: MessageKey = 'provider.whisper';
+
+// Talks to a self-hosted `/v1/audio/transcriptions` endpoint (faster-whisper-server,
+// whisper.cpp server, LocalAI and the like), so audio never leaves the office network.
+export const createWhisperProvider = (config: WhisperConfig, language: string): TranscriptionProvider => {
+  const transcribe = async (audioBlob: Blob, { duration, vocabulary = [], signal }: TranscribeOptions = {}): Promise<TranscriptionResult> => {
+    const form = new FormData();
+    form.append('file', audioBlob, getFileName(audioBlob));
+    form.append('model', config.model);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'segment');
+    if (language) {
+      form.append('language', language);
+    }
+    // Whisper only looks at the last ~224 tokens of the prompt
+    if (vocabulary.length > 0) {
+      form.append('prompt', vocabulary.join(', ').slice(0, MAX_PROMPT_CHARS));
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/v1/audio/transcriptions`, {
+        method: 'POST',
+        headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : undefined,
+        body: form,
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error("Whisper request error:", error);
+      throw new TranscriptionRequestError('whisper.errorUnreachable', { url: config.baseUrl });
+    }
+
+    const body = await response.text();
+    if (!response.ok) {
+      throw new TranscriptionRequestError(
+        'whisper.errorStatus',
+        { status: response.status, detail: body.slice(0, 200) },
+        response.status
+      );
+    }
+
+    // Servers that ignore verbose_json return only the plain text
+    const plain = /"segments"\s*:/.test(body) ? null : parsePlainText(body, duration);
+    const segments = plain ?? parseSegments(body, duration);
+
+    return { text: segmentsToText(segments), segments };
+  };
+
+  return {
+    id: 'whisper',
+    label: WHISPER_LABEL,
+    supportsDiarization: false,
+    // The reference API rejects uploads over 25 MB
+    maxUploadBytes: 24 * 1024 * 1024,
+    isLocal: true,
+    transcribe,
+  };
+};
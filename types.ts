@@ -5,6 +5,41 @@ export enum TranscriptionStatus {
   ERROR = 'ERROR',
 }
 
+export interface TranscriptSegment {
+  start: number; // in seconds from the beginning of the recording
+  end: number; // in seconds
+  text: string;
+  speaker?: string; // speaker id as returned by the model, only in diarized mode
+}
+
+export interface TranscriptionResult {
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+export interface TranscriptVersion {
+  id: string;
+  createdAt: number;
+  source: 'model' | 'user';
+  text: string;
+  segments?: TranscriptSegment[];
+  note?: string; // e.g. which version a revert restored
+}
+
+export interface TimeRange {
+  start: number; // in seconds
+  end: number; // in seconds
+}
+
+export interface TranscriptionChunk {
+  index: number;
+  start: number; // in seconds
+  end: number; // in seconds
+  status: TranscriptionStatus;
+  segments?: TranscriptSegment[]; // already offset to recording time
+  error?: string;
+}
+
 export interface Recording {
   id: string;
   blob: Blob;
@@ -12,12 +47,94 @@ export interface Recording {
   timestamp: number;
   duration: number; // in seconds
   transcript: string | null;
+  segments?: TranscriptSegment[]; // absent for transcripts made before timestamps existed
+  diarize?: boolean; // whether the last transcription separated speakers
+  speakerNames?: Record<string, string>; // user-assigned names keyed by speaker id
+  versions?: TranscriptVersion[]; // oldest first; transcript/segments mirror the last one
+  tags?: string[];
   status: TranscriptionStatus;
   error?: string;
   name?: string;
+  chunks?: TranscriptionChunk[]; // only for recordings too long for a single request
+  documents?: GeneratedDocument[]; // newest first
+  speech?: TimeRange[]; // where voice activity detection found speech; absent until analyzed
+  matterId?: string;
+  clientId?: string; // follows the matter's client when the matter has one
+  bookmarks?: Bookmark[]; // sorted by time
+}
+
+export interface Bookmark {
+  id: string;
+  time: number; // seconds from the start of the recording
+  note: string; // may be empty
+}
+
+export interface Client {
+  id: string;
+  name: string;
+}
+
+export interface Matter {
+  id: string;
+  name: string; // case number and short title, as the firm refers to it
+  clientId?: string;
+  archived: boolean; // hidden from pickers, its recordings stay in the library
+  createdAt: number;
+}
+
+export interface TemplateSection {
+  id: string;
+  title: string;
+  instructions: string; // what the model should put into this section
+}
+
+export interface DocumentTemplate {
+  id: string;
+  name: string;
+  description: string; // overall purpose and tone of the document
+  sections: TemplateSection[];
+  builtIn?: boolean; // shipped with the app, read-only
+}
+
+export interface DocumentSection {
+  title: string;
+  content: string;
+}
+
+export interface GeneratedDocument {
+  id: string;
+  templateId: string;
+  templateName: string; // kept so the document still reads right if the template is deleted
+  createdAt: number;
+  sections: DocumentSection[];
+}
+
+export interface GlossaryEntry {
+  id: string;
+  term: string; // preferred spelling
+  variants: string[]; // misheard forms replaced with `term` after transcription
+  note?: string; // context for the model, e.g. "фамилия клиента"
+}
+
+export interface ReplacementRule {
+  id: string;
+  pattern: string;
+  replacement: string;
+  isRegex: boolean;
+}
+
+export interface Glossary {
+  id: string;
+  name: string;
+  matterId?: string; // set for glossaries that apply only to one matter's recordings
+  enabled: boolean;
+  convertLegalNumbers: boolean; // "статья сто пятьдесят девять" → "ст. 159"
+  entries: GlossaryEntry[];
+  rules: ReplacementRule[];
 }
 
 export interface AudioVisualizerProps {
   stream: MediaStream | null;
   isRecording: boolean;
+  fftSize?: number; // analyser resolution, half of it is the number of bars
 }
\ No newline at end of file
@@ -0,0 +1,200 @@
+// Container detection and recording-date extraction for imported audio files.
+// Only the few fields needed for import are read; this is not a tag library.
+
+export type AudioContainer = 'mp3' | 'aac' | 'mp4' | 'wav' | 'ogg' | 'flac' | 'webm';
+
+export const CONTAINER_MIME_TYPES: Record<AudioContainer, string> = {
+  mp3: 'audio/mpeg',
+  aac: 'audio/aac',
+  mp4: 'audio/mp4',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+  webm: 'audio/webm',
+};
+
+export interface AudioMetadata {
+  container: AudioContainer;
+  recordedAt?: number; // from the container's own tags
+}
+
+const HEAD_BYTES = 512 * 1024;
+const TAIL_BYTES = 1024 * 1024;
+const MP4_EPOCH_OFFSET = 2082844800; // seconds from 1904-01-01 to 1970-01-01
+const WEBM_EPOCH_MS = Date.UTC(2001, 0, 1);
+
+const ascii = (bytes: Uint8Array, from: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(from, from + length));
+
+const indexOf = (bytes: Uint8Array, pattern: string, from = 0): number => {
+  const codes = Array.from(pattern, c => c.charCodeAt(0));
+  outer: for (let i = from; i <= bytes.length - codes.length; i++) {
+    for (let j = 0; j < codes.length; j++) {
+      if (bytes[i + j] !== codes[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+export const sniffContainer = (bytes: Uint8Array): AudioContainer | null => {
+  if (bytes.length < 12) return null;
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') return 'wav';
+  if (ascii(bytes, 4, 4) === 'ftyp') return 'mp4';
+  if (ascii(bytes, 0, 4) === 'OggS') return 'ogg';
+  if (ascii(bytes, 0, 4) === 'fLaC') return 'flac';
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'webm';
+  if (ascii(bytes, 0, 3) === 'ID3') return 'mp3';
+  if (bytes[0] === 0xff && (bytes[1] & 0xf6) === 0xf0) return 'aac'; // ADTS, layer bits 00
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0 && (bytes[1] & 0x06) !== 0) return 'mp3';
+  return null;
+};
+
+const isPlausible = (timestamp: number): boolean =>
+  Number.isFinite(timestamp) && timestamp > Date.UTC(1995, 0, 1) && timestamp < Date.now() + 24 * 3600 * 1000;
+
+const plausibleOrUndefined = (timestamp: number | undefined): number | undefined =>
+  timestamp !== undefined && isPlausible(timestamp) ? timestamp : undefined;
+
+// "2024-03-15", "2024-03-15T14:30:12", "2024:03:15 14:30:12". Values without a
+// zone are local time, which is what recorders write. A bare year is too vague.
+export const parseDateString = (value: string): number | undefined => {
+  const match = value.trim().match(/^(\d{4})[-:.](\d{2})[-:.](\d{2})(?:[T ](\d{2})[:.]?(\d{2})(?:[:.]?(\d{2}))?)?(Z|[+-]\d{2}:?\d{2})?/);
+  if (!match) return undefined;
+  const [, y, mo, d, h = '0', mi = '0', s = '0', zone] = match;
+  if (zone) {
+    const iso = `${y}-${mo}-${d}T${h.padStart(2, '0')}:${mi.padStart(2, '0')}:${s.padStart(2, '0')}${zone === 'Z' ? 'Z' : zone.replace(/^([+-]\d{2})(\d{2})$/, '$1:$2')}`;
+    return plausibleOrUndefined(Date.parse(iso));
+  }
+  return plausibleOrUndefined(new Date(+y, +mo - 1, +d, +h, +mi, +s).getTime());
+};
+
+// Phone recorders put the date in the name: "Recording_20240315_143012",
+// "2024-03-15 14.30.12", "AUD-20240315-WA0001"
+export const parseFileNameDate = (name: string): number | undefined => {
+  const match = name.match(/(?:^|\D)((?:19|20)\d{2})[-_.]?(\d{2})[-_.]?(\d{2})(?:[ _T-]?(\d{2})[-_.:]?(\d{2})(?:[-_.:]?(\d{2}))?)?(?!\d)/);
+  if (!match) return undefined;
+  const [, y, mo, d, h = '0', mi = '0', s = '0'] = match;
+  if (+mo < 1 || +mo > 12 || +d < 1 || +d > 31 || +h > 23 || +mi > 59 || +s > 59) return undefined;
+  return plausibleOrUndefined(new Date(+y, +mo - 1, +d, +h, +mi, +s).getTime());
+};
+
+const readMp4Date = (bytes: Uint8Array): number | undefined => {
+  const at = indexOf(bytes, 'mvhd');
+  if (at === -1 || at + 16 > bytes.length) return undefined;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = bytes[at + 4];
+  const seconds = version === 1
+    ? Number(view.getBigUint64(at + 8))
+    : view.getUint32(at + 8);
+  return seconds > 0 ? plausibleOrUndefined((seconds - MP4_EPOCH_OFFSET) * 1000) : undefined;
+};
+
+// Broadcast WAV origination date, or the INFO list creation date
+const readWavDate = (bytes: Uint8Array): number | undefined => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const id = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'bext' && body + 338 <= bytes.length) {
+      const date = parseDateString(`${ascii(bytes, body + 320, 10)} ${ascii(bytes, body + 330, 8)}`);
+      if (date) return date;
+    }
+    if (id === 'LIST' && ascii(bytes, body, 4) === 'INFO') {
+      const icrd = indexOf(bytes.subarray(body, Math.min(bytes.length, body + size)), 'ICRD');
+      if (icrd !== -1) {
+        const length = view.getUint32(body + icrd + 4, true);
+        const date = parseDateString(ascii(bytes, body + icrd + 8, length).replace(/\0+$/, ''));
+        if (date) return date;
+      }
+    }
+    if (id === 'data') break;
+    offset = body + size + (size % 2);
+  }
+  return undefined;
+};
+
+const decodeId3Text = (bytes: Uint8Array): string => {
+  const [encoding, ...rest] = bytes;
+  const data = Uint8Array.from(rest);
+  const label = encoding === 1 ? 'utf-16' : encoding === 2 ? 'utf-16be' : encoding === 3 ? 'utf-8' : 'latin1';
+  return new TextDecoder(label).decode(data).replace(/\0+$/, '');
+};
+
+// ID3v2.4 TDRC or ID3v2.3 TYER + TDAT (DDMM) + TIME (HHMM)
+const readId3Date = (bytes: Uint8Array): number | undefined => {
+  if (ascii(bytes, 0, 3) !== 'ID3') return undefined;
+  const major = bytes[3];
+  const syncsafe = (at: number) => (bytes[at] << 21) | (bytes[at + 1] << 14) | (bytes[at + 2] << 7) | bytes[at + 3];
+  const tagEnd = Math.min(bytes.length, 10 + syncsafe(6));
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const frames: Record<string, string> = {};
+
+  for (let offset = 10; offset + 10 <= tagEnd;) {
+    const id = ascii(bytes, offset, 4);
+    if (!/^[A-Z0-9]{4}$/.test(id)) break;
+    const size = major >= 4 ? syncsafe(offset + 4) : view.getUint32(offset + 4);
+    if (['TDRC', 'TDOR', 'TYER', 'TDAT', 'TIME'].includes(id)) {
+      frames[id] = decodeId3Text(bytes.subarray(offset + 10, offset + 10 + size));
+    }
+    offset += 10 + size;
+  }
+
+  const full = frames.TDRC || frames.TDOR;
+  if (full) return parseDateString(full);
+  if (frames.TYER && frames.TDAT) {
+    const time = frames.TIME ?? '0000';
+    return parseDateString(
+      `${frames.TYER}-${frames.TDAT.slice(2, 4)}-${frames.TDAT.slice(0, 2)} ${time.slice(0, 2)}:${time.slice(2, 4)}`
+    );
+  }
+  return undefined;
+};
+
+// Vorbis comment "DATE=...", used by Ogg and FLAC
+const readVorbisDate = (bytes: Uint8Array): number | undefined => {
+  const at = indexOf(bytes, 'DATE=');
+  if (at < 4) return undefined;
+  const length = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(at - 4, true);
+  if (length <= 5 || at + length > bytes.length) return undefined;
+  return parseDateString(new TextDecoder().decode(bytes.subarray(at + 5, at + length)));
+};
+
+// Matroska DateUTC: element 0x4461, 8-byte nanoseconds since 2001-01-01
+const readWebmDate = (bytes: Uint8Array): number | undefined => {
+  for (let i = 0; i + 11 <= bytes.length; i++) {
+    if (bytes[i] === 0x44 && bytes[i + 1] === 0x61 && bytes[i + 2] === 0x88) {
+      const view = new DataView(bytes.buffer, bytes.byteOffset + i + 3, 8);
+      return plausibleOrUndefined(WEBM_EPOCH_MS + Number(view.getBigInt64(0) / 1000000n));
+    }
+  }
+  return undefined;
+};
+
+const readDate = (container: AudioContainer, bytes: Uint8Array): number | undefined => {
+  switch (container) {
+    case 'mp4': return readMp4Date(bytes);
+    case 'wav': return readWavDate(bytes);
+    case 'mp3': return readId3Date(bytes);
+    case 'ogg':
+    case 'flac': return readVorbisDate(bytes);
+    case 'webm': return readWebmDate(bytes);
+    default: return undefined;
+  }
+};
+
+// Returns null when the file does not start like any supported container
+export const readAudioMetadata = async (file: Blob): Promise<AudioMetadata | null> => {
+  const head = new Uint8Array(await file.slice(0, HEAD_BYTES).arrayBuffer());
+  const container = sniffContainer(head);
+  if (!container) return null;
+
+  let recordedAt = readDate(container, head);
+  // Phones often write the MP4 index after the audio
+  if (recordedAt === undefined && container === 'mp4' && file.size > HEAD_BYTES) {
+    const tail = new Uint8Array(await file.slice(Math.max(HEAD_BYTES, file.size - TAIL_BYTES)).arrayBuffer());
+    recordedAt = readMp4Date(tail);
+  }
+  return { container, recordedAt };
+};
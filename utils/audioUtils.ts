@@ -1,3 +1,5 @@
+import { getIntlLocale, LocalizedError, MessageKey, translate } from "../services/i18nService";
+
 export const blobToBase64 = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -12,24 +14,51 @@ export const blobToBase64 = (blob: Blob): Promise<string> => {
   });
 };
 
+const DURATION_TIMEOUT_MS = 15000;
+
+export class AudioFormatError extends LocalizedError {
+  constructor(key: MessageKey = 'audio.errorUnreadable') {
+    super(key);
+    this.name = 'AudioFormatError';
+  }
+}
+
+// Rejects with AudioFormatError when the browser cannot read the file
 export const getAudioDuration = (blob: Blob): Promise<number> => {
-  return new Promise((resolve) => {
+  return new Promise((resolve, reject) => {
     const audio = document.createElement('audio');
     const url = URL.createObjectURL(blob);
-    audio.src = url;
-    audio.preload = 'metadata';
-    
-    audio.onloadedmetadata = () => {
+
+    const finish = (error: Error | null, duration = 0) => {
+      clearTimeout(timer);
+      audio.onloadedmetadata = null;
+      audio.ondurationchange = null;
+      audio.onerror = null;
+      audio.removeAttribute('src');
       URL.revokeObjectURL(url);
-      // Avoid Infinity for streams that haven't started (though uncommon for blobs)
-      const duration = audio.duration === Infinity ? 0 : audio.duration;
-      resolve(duration);
+      if (error) reject(error);
+      else resolve(duration);
     };
-    
-    audio.onerror = () => {
-       URL.revokeObjectURL(url);
-       resolve(0);
-    }
+
+    const timer = setTimeout(() => finish(new AudioFormatError('audio.errorDuration')), DURATION_TIMEOUT_MS);
+
+    audio.onloadedmetadata = () => {
+      if (Number.isFinite(audio.duration)) {
+        finish(null, audio.duration);
+        return;
+      }
+      // MediaRecorder output has no duration header; seeking past the end
+      // makes the browser scan the file and report the real length
+      audio.ondurationchange = () => {
+        if (Number.isFinite(audio.duration)) finish(null, audio.duration);
+      };
+      audio.currentTime = Number.MAX_SAFE_INTEGER;
+    };
+
+    audio.onerror = () => finish(new AudioFormatError());
+
+    audio.preload = 'metadata';
+    audio.src = url;
   });
 };
 
@@ -40,11 +69,115 @@ export const formatDuration = (seconds: number): string => {
 };
 
 export const formatTimestamp = (timestamp: number): string => {
-  return new Intl.DateTimeFormat('ru-RU', {
+  return new Intl.DateTimeFormat(getIntlLocale(), {
     weekday: 'short',
     month: 'short',
     day: 'numeric',
     hour: 'numeric',
     minute: 'numeric',
   }).format(new Date(timestamp));
-};
\ No newline at end of file
+};
+
+// Totals such as "1 ч 5 мин" / "1 hr 5 min", where a clock-style 65:00 reads poorly
+export const formatLongDuration = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const format = (value: number, unit: 'hour' | 'minute' | 'second') =>
+    new Intl.NumberFormat(getIntlLocale(), { style: 'unit', unit, unitDisplay: 'short' }).format(value);
+  if (hours > 0) return minutes > 0 ? `${format(hours, 'hour')} ${format(minutes, 'minute')}` : format(hours, 'hour');
+  if (minutes > 0) return format(minutes, 'minute');
+  return format(Math.round(seconds), 'second');
+};
+
+export const formatBytes = (bytes: number): string => {
+  const units = [translate('units.bytes'), translate('units.kilobytes'), translate('units.megabytes'), translate('units.gigabytes')];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${new Intl.NumberFormat(getIntlLocale(), { maximumFractionDigits: unit === 0 ? 0 : 1, minimumFractionDigits: unit === 0 ? 0 : 1 }).format(value)} ${units[unit]}`;
+};
+
+// Decodes a compressed blob into PCM. Passing a sample rate makes the browser
+// resample while decoding, which keeps memory in check for long recordings.
+export const decodeAudioBlob = async (blob: Blob, sampleRate?: number): Promise<AudioBuffer> => {
+  const arrayBuffer = await blob.arrayBuffer();
+  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)(
+    sampleRate ? { sampleRate } : undefined
+  );
+  try {
+    return await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    audioContext.close();
+  }
+};
+
+export const mixToMono = (buffer: AudioBuffer): Float32Array => {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+};
+
+// RMS level of samples[from, to) in dBFS
+export const toDecibels = (samples: Float32Array, from = 0, to = samples.length): number => {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  return 10 * Math.log10(sum / Math.max(1, to - from) + 1e-12);
+};
+
+// Levels of consecutive frames, for telling speech from background
+export const frameLevels = (samples: Float32Array, frameLength: number): Float32Array => {
+  const levels = new Float32Array(Math.floor(samples.length / frameLength));
+  for (let f = 0; f < levels.length; f++) {
+    levels[f] = toDecibels(samples, f * frameLength, (f + 1) * frameLength);
+  }
+  return levels;
+};
+
+export const percentile = (values: Float32Array, fraction: number): number => {
+  const sorted = Float32Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+};
+
+// 16-bit PCM WAV, the most widely accepted lossless format for re-encoding in the browser
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const bytesPerSample = 2;
+  const dataSize = samples.length * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true);
+  view.setUint16(32, bytesPerSample, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < samples.length; i++, offset += 2) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
@@ -0,0 +1,31 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Bookmark, TranscriptSegment } from '../types';
+import { formatDuration } from './audioUtils';
+import { matchesShortcut } from './playerUtils';
+
+// Function key and a modifier combo, so a marker can be placed while a note is being typed
+export const BOOKMARK_SHORTCUTS = ['F2', 'Ctrl+Enter'];
+
+export const matchBookmarkShortcut = (event: KeyboardEvent): boolean =>
+  BOOKMARK_SHORTCUTS.some(keys => matchesShortcut(event, keys));
+
+export const createBookmark = (time: number, note = ''): Bookmark => ({ id: uuidv4(), time, note });
+
+export const sortBookmarks = (bookmarks: Bookmark[]): Bookmark[] =>
+  [...bookmarks].sort((a, b) => a.time - b.time);
+
+// A marker belongs to the last segment that starts at or before it; segments
+// are in time order, so markers before the first one go to the first
+export const bookmarksBySegment = (segments: TranscriptSegment[], bookmarks: Bookmark[]): Map<number, Bookmark[]> => {
+  const result = new Map<number, Bookmark[]>();
+  if (segments.length === 0) return result;
+  for (const bookmark of sortBookmarks(bookmarks)) {
+    let index = 0;
+    while (index + 1 < segments.length && segments[index + 1].start <= bookmark.time) index++;
+    result.set(index, [...(result.get(index) ?? []), bookmark]);
+  }
+  return result;
+};
+
+export const formatBookmark = (bookmark: Bookmark): string =>
+  `[${formatDuration(bookmark.time)}]${bookmark.note.trim() ? ` ${bookmark.note.trim()}` : ''}`;
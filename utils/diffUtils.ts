@@ -0,0 +1,73 @@
+export type DiffPart = { type: 'equal' | 'insert' | 'delete'; text: string };
+
+// Above this many LCS cells the word diff would freeze the tab; fall back to lines
+const MAX_CELLS = 4_000_000;
+
+const tokenize = (text: string, byLine: boolean): string[] =>
+  byLine ? text.split(/(\n)/) : text.split(/(\s+)/).filter(Boolean);
+
+const push = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+};
+
+// Word-level diff between two versions of a transcript (LCS over tokens, with
+// the common prefix and suffix stripped first since edits are usually local).
+export const diffText = (before: string, after: string): DiffPart[] => {
+  let a = tokenize(before, false);
+  let b = tokenize(after, false);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const head = a.slice(0, prefix).join('');
+  const tail = a.slice(a.length - suffix).join('');
+  a = a.slice(prefix, a.length - suffix);
+  b = b.slice(prefix, b.length - suffix);
+
+  if (a.length * b.length > MAX_CELLS) {
+    a = tokenize(a.join(''), true);
+    b = tokenize(b.join(''), true);
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  if (head) push(parts, 'equal', head);
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(parts, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(parts, 'delete', a[i++]);
+    } else {
+      push(parts, 'insert', b[j++]);
+    }
+  }
+  while (i < a.length) push(parts, 'delete', a[i++]);
+  while (j < b.length) push(parts, 'insert', b[j++]);
+
+  if (tail) push(parts, 'equal', tail);
+  return parts;
+};
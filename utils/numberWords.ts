@@ -0,0 +1,75 @@
+// Parses Russian cardinal and ordinal number words ("сто пятьдесят девять",
+// "сто пятьдесят девятой") as they appear in dictated legal references.
+
+const CARDINALS: Record<string, number> = {
+  'ноль': 0, 'один': 1, 'одна': 1, 'одно': 1, 'два': 2, 'две': 2, 'три': 3, 'четыре': 4,
+  'пять': 5, 'шесть': 6, 'семь': 7, 'восемь': 8, 'девять': 9, 'десять': 10,
+  'одиннадцать': 11, 'двенадцать': 12, 'тринадцать': 13, 'четырнадцать': 14, 'пятнадцать': 15,
+  'шестнадцать': 16, 'семнадцать': 17, 'восемнадцать': 18, 'девятнадцать': 19,
+  'двадцать': 20, 'тридцать': 30, 'сорок': 40, 'пятьдесят': 50, 'шестьдесят': 60,
+  'семьдесят': 70, 'восемьдесят': 80, 'девяносто': 90,
+  'сто': 100, 'двести': 200, 'триста': 300, 'четыреста': 400, 'пятьсот': 500,
+  'шестьсот': 600, 'семьсот': 700, 'восемьсот': 800, 'девятьсот': 900,
+  'тысяча': 1000,
+};
+
+// Ordinal stems; any adjective ending may follow ("перв-ая", "трет-ьей", "сот-ой")
+const ORDINAL_STEMS: [string, number][] = [
+  ['перв', 1], ['втор', 2], ['трет', 3], ['четверт', 4], ['пят', 5], ['шест', 6], ['седьм', 7],
+  ['восьм', 8], ['девят', 9], ['десят', 10], ['одиннадцат', 11], ['двенадцат', 12],
+  ['тринадцат', 13], ['четырнадцат', 14], ['пятнадцат', 15], ['шестнадцат', 16],
+  ['семнадцат', 17], ['восемнадцат', 18], ['девятнадцат', 19], ['двадцат', 20],
+  ['тридцат', 30], ['сороков', 40], ['пятидесят', 50], ['шестидесят', 60], ['семидесят', 70],
+  ['восьмидесят', 80], ['девяност', 90], ['сот', 100], ['двухсот', 200], ['трехсот', 300],
+  ['четырехсот', 400], ['пятисот', 500], ['шестисот', 600], ['семисот', 700],
+  ['восьмисот', 800], ['девятисот', 900], ['тысячн', 1000],
+];
+
+// Longest stem first so that "пятидесят-ой" is not read as "пят-идесятой"
+const ORDINAL_STEMS_BY_LENGTH = [...ORDINAL_STEMS].sort((a, b) => b[0].length - a[0].length);
+
+const ORDINAL_ENDING = /^(ая|ой|ую|ый|ое|ого|ому|ым|ом|ые|ых|ыми|ья|ьей|ью|ий|ье|ьего|ьему|ьим|ьем|ей|ем)$/;
+
+const parseOrdinal = (word: string): number | null => {
+  for (const [stem, value] of ORDINAL_STEMS_BY_LENGTH) {
+    if (word.startsWith(stem) && ORDINAL_ENDING.test(word.slice(stem.length))) return value;
+  }
+  return null;
+};
+
+// Decimal place of a number word, used to check that the words go from larger
+// to smaller places ("сто пятьдесят девять", not "девять сто")
+const placeOf = (value: number): number =>
+  value >= 1000 ? 4 : value >= 100 ? 3 : value >= 10 ? 2 : 1;
+
+export interface ParsedNumber {
+  value: number;
+  wordCount: number;
+}
+
+// Reads as many number words from the start of `words` as form one number
+export const parseNumberWords = (words: string[]): ParsedNumber | null => {
+  let total = 0;
+  let count = 0;
+  let lastPlace = 5;
+
+  for (const raw of words) {
+    const word = raw.toLowerCase().replace(/ё/g, 'е');
+    const cardinal = CARDINALS[word];
+    const value = cardinal ?? parseOrdinal(word);
+    if (value === null || value === undefined) break;
+
+    const place = placeOf(value);
+    // 10-19 occupy both the tens and units places
+    const nextPlace = value >= 10 && value <= 19 ? 0 : place;
+    if (place >= lastPlace) break;
+
+    total += value;
+    count++;
+    lastPlace = nextPlace;
+    // An ordinal always ends the number
+    if (cardinal === undefined) break;
+  }
+
+  return count > 0 ? { value: total, wordCount: count } : null;
+};
@@ -0,0 +1,210 @@
+import { encodeWav } from "./audioUtils";
+
+// Opus encoding through WebCodecs, wrapped in an Ogg container (RFC 7845) so
+// that the result is an ordinary .ogg file every transcription service accepts.
+
+const GRANULE_RATE = 48000; // Ogg Opus counts positions at 48 kHz whatever the input rate
+const DEFAULT_PRE_SKIP = 312; // libopus lookahead, used when the encoder does not report its own
+export const OPUS_BITRATE = 24000; // plenty for speech
+const MAX_PAGE_PACKETS = 50; // about a second of audio per page
+const MAX_QUEUED_BLOCKS = 8;
+const VENDOR = 'dictofon';
+
+interface OpusPacket {
+  data: Uint8Array;
+  frames: number; // at 48 kHz
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let value = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & 0x80000000 ? (value << 1) ^ 0x04c11db7 : value << 1;
+    }
+    table[i] = value >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+};
+
+const lacingFor = (length: number): number[] => {
+  const lacing = new Array(Math.floor(length / 255)).fill(255);
+  lacing.push(length % 255); // a trailing 0 marks packets that fill whole segments
+  return lacing;
+};
+
+const FLAG_FIRST_PAGE = 0x02;
+const FLAG_LAST_PAGE = 0x04;
+
+const buildPage = (packets: Uint8Array[], granule: number, sequence: number, serial: number, flags: number): Uint8Array => {
+  const lacing = packets.flatMap(p => lacingFor(p.length));
+  const bodyLength = packets.reduce((sum, p) => sum + p.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodyLength);
+  const view = new DataView(page.buffer);
+
+  page.set([0x4f, 0x67, 0x67, 0x53], 0); // "OggS"
+  page[4] = 0; // version
+  page[5] = flags;
+  view.setBigUint64(6, BigInt(granule), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+  let offset = 27 + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+  view.setUint32(22, oggCrc(page), true); // computed with the CRC field zeroed
+  return page;
+};
+
+const ascii = (value: string): number[] => Array.from(value, c => c.charCodeAt(0));
+
+const opusHead = (sampleRate: number, preSkip: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(ascii('OpusHead'), 0);
+  head[8] = 1; // version
+  head[9] = 1; // mono
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, sampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0; // mapping family: mono/stereo
+  return head;
+};
+
+const opusTags = (): Uint8Array => {
+  const tags = new Uint8Array(8 + 4 + VENDOR.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(ascii('OpusTags'), 0);
+  view.setUint32(8, VENDOR.length, true);
+  tags.set(ascii(VENDOR), 12);
+  view.setUint32(12 + VENDOR.length, 0, true); // no comments
+  return tags;
+};
+
+const muxOggOpus = (packets: OpusPacket[], sampleRate: number, totalSamples: number, preSkip: number): Blob => {
+  const serial = Math.floor(Math.random() * 0xffffffff);
+  const pages: Uint8Array[] = [
+    buildPage([opusHead(sampleRate, preSkip)], 0, 0, serial, FLAG_FIRST_PAGE),
+    buildPage([opusTags()], 0, 1, serial, 0),
+  ];
+  // The last page's position tells players where the real audio ends
+  const finalGranule = preSkip + Math.round((totalSamples * GRANULE_RATE) / sampleRate);
+
+  let granule = preSkip;
+  let pending: Uint8Array[] = [];
+  let pendingLacing = 0;
+  const flush = (isLast: boolean) => {
+    pages.push(buildPage(
+      pending,
+      isLast ? finalGranule : granule,
+      pages.length,
+      serial,
+      isLast ? FLAG_LAST_PAGE : 0
+    ));
+    pending = [];
+    pendingLacing = 0;
+  };
+
+  packets.forEach((packet, index) => {
+    const lacing = lacingFor(packet.data.length).length;
+    if (pending.length >= MAX_PAGE_PACKETS || pendingLacing + lacing > 255) flush(false);
+    pending.push(packet.data);
+    pendingLacing += lacing;
+    granule += packet.frames;
+    if (index === packets.length - 1) flush(true);
+  });
+
+  return new Blob(pages, { type: 'audio/ogg' });
+};
+
+const readPreSkip = (description: AllowSharedBufferSource | undefined): number | null => {
+  if (!description) return null;
+  const bytes = description instanceof ArrayBuffer || description instanceof SharedArrayBuffer
+    ? new Uint8Array(description)
+    : new Uint8Array(description.buffer, description.byteOffset, description.byteLength);
+  if (bytes.length < 12 || String.fromCharCode(...bytes.subarray(0, 8)) !== 'OpusHead') return null;
+  return bytes[10] | (bytes[11] << 8);
+};
+
+const encoderConfig = (sampleRate: number): AudioEncoderConfig =>
+  ({ codec: 'opus', sampleRate, numberOfChannels: 1, bitrate: OPUS_BITRATE });
+
+// Whether encodeOggOpus can run here; otherwise encodeCompactAudio falls back to WAV
+export const canEncodeOpus = async (sampleRate: number): Promise<boolean> => {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    return (await AudioEncoder.isConfigSupported(encoderConfig(sampleRate))).supported === true;
+  } catch {
+    return false;
+  }
+};
+
+// Resolves to null where WebCodecs or its Opus encoder is not available
+export const encodeOggOpus = async (samples: Float32Array, sampleRate: number): Promise<Blob | null> => {
+  if (samples.length === 0 || !(await canEncodeOpus(sampleRate))) return null;
+
+  const config = encoderConfig(sampleRate);
+
+  const packets: OpusPacket[] = [];
+  const errors: Error[] = [];
+  let preSkip = DEFAULT_PRE_SKIP;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      preSkip = readPreSkip(metadata?.decoderConfig?.description) ?? preSkip;
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, frames: Math.round(((chunk.duration ?? 20000) * GRANULE_RATE) / 1e6) });
+    },
+    error: (error) => errors.push(error),
+  });
+  encoder.configure(config);
+
+  // Feed one second at a time and let the encoder catch up, so a long
+  // recording is not copied into the encoder queue all at once
+  for (let offset = 0; offset < samples.length && errors.length === 0; offset += sampleRate) {
+    while (encoder.encodeQueueSize > MAX_QUEUED_BLOCKS) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    const block = samples.slice(offset, offset + sampleRate);
+    const data = new AudioData({
+      format: 'f32',
+      sampleRate,
+      numberOfFrames: block.length,
+      numberOfChannels: 1,
+      timestamp: Math.round((offset / sampleRate) * 1e6),
+      data: block,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+
+  try {
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  if (errors.length > 0) throw errors[0];
+  return packets.length > 0 ? muxOggOpus(packets, sampleRate, samples.length, preSkip) : null;
+};
+
+// Ogg Opus, or WAV where the browser has no Opus encoder
+export const encodeCompactAudio = async (samples: Float32Array, sampleRate: number): Promise<Blob> => {
+  try {
+    const encoded = await encodeOggOpus(samples, sampleRate);
+    if (encoded) return encoded;
+  } catch (error) {
+    console.warn("Opus encoding failed, falling back to WAV:", error);
+  }
+  return encodeWav(samples, sampleRate);
+};
@@ -0,0 +1,59 @@
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+export const SHORT_SKIP_SECONDS = 5;
+export const LONG_SKIP_SECONDS = 15;
+
+export type PlayerAction =
+  | { type: 'toggle' }
+  | { type: 'skip'; seconds: number }
+  | { type: 'rate'; step: 1 | -1 }
+  | { type: 'rate-reset' };
+
+export interface PlayerShortcut {
+  keys: string[]; // as shown to the user
+  action: PlayerAction;
+}
+
+// Every shortcut has a modifier or is a function key, so they keep working
+// while the transcript is being typed. Matching goes by physical key
+// (KeyboardEvent.code), which stays the same on the Russian layout.
+export const PLAYER_SHORTCUTS: PlayerShortcut[] = [
+  { keys: ['Ctrl+Space', 'F9'], action: { type: 'toggle' } },
+  { keys: ['Ctrl+,', 'F7'], action: { type: 'skip', seconds: -SHORT_SKIP_SECONDS } },
+  { keys: ['Ctrl+.', 'F8'], action: { type: 'skip', seconds: SHORT_SKIP_SECONDS } },
+  { keys: ['Ctrl+Shift+,', 'Shift+F7'], action: { type: 'skip', seconds: -LONG_SKIP_SECONDS } },
+  { keys: ['Ctrl+Shift+.', 'Shift+F8'], action: { type: 'skip', seconds: LONG_SKIP_SECONDS } },
+  { keys: ['Ctrl+['], action: { type: 'rate', step: -1 } },
+  { keys: ['Ctrl+]'], action: { type: 'rate', step: 1 } },
+  { keys: ['Ctrl+\\'], action: { type: 'rate-reset' } },
+];
+
+const KEY_CODES: Record<string, string> = {
+  'Space': 'Space',
+  ',': 'Comma',
+  '.': 'Period',
+  '[': 'BracketLeft',
+  ']': 'BracketRight',
+  '\\': 'Backslash',
+};
+
+export const matchesShortcut = (event: KeyboardEvent, keys: string): boolean => {
+  const parts = keys.split('+');
+  const key = parts.pop()!;
+  const ctrl = parts.includes('Ctrl');
+  const shift = parts.includes('Shift');
+  // Cmd stands in for Ctrl on macOS
+  return (event.ctrlKey || event.metaKey) === ctrl
+    && event.shiftKey === shift
+    && !event.altKey
+    && event.code === (KEY_CODES[key] ?? key);
+};
+
+export const matchPlayerShortcut = (event: KeyboardEvent): PlayerAction | null =>
+  PLAYER_SHORTCUTS.find(shortcut => shortcut.keys.some(keys => matchesShortcut(event, keys)))?.action ?? null;
+
+export const stepPlaybackRate = (rate: number, step: 1 | -1): number => {
+  const index = PLAYBACK_RATES.findIndex(r => r >= rate);
+  const current = index === -1 ? PLAYBACK_RATES.length - 1 : index;
+  return PLAYBACK_RATES[Math.min(PLAYBACK_RATES.length - 1, Math.max(0, current + step))];
+};
@@ -0,0 +1,79 @@
+// Snowball (Porter) stemmer for Russian. The suffix groups below are taken
+// from the reference algorithm; a match closer to the start of the word wins,
+// which gives the "longest suffix" rule for free.
+
+const PERFECTIVE_GERUND = /((ив|ивши|ившись|ыв|ывши|ывшись)|((?<=[ая])(в|вши|вшись)))$/;
+const REFLEXIVE = /(с[яь])$/;
+const ADJECTIVE = /(ее|ие|ые|ое|ими|ыми|ей|ий|ый|ой|ем|им|ым|ом|его|ого|ему|ому|их|ых|ую|юю|ая|яя|ою|ею)$/;
+const PARTICIPLE = /((ивш|ывш|ующ)|((?<=[ая])(ем|нн|вш|ющ|щ)))$/;
+const VERB = /((ила|ыла|ена|ейте|уйте|ите|или|ыли|ей|уй|ил|ыл|им|ым|ен|ило|ыло|ено|ят|ует|уют|ит|ыт|ены|ить|ыть|ишь|ую|ю)|((?<=[ая])(ла|на|ете|йте|ли|й|л|ем|н|ло|но|ет|ют|ны|ть|ешь|нно)))$/;
+const NOUN = /(а|ев|ов|ие|ье|е|иями|ями|ами|еи|ии|и|ией|ей|ой|ий|й|иям|ям|ием|ем|ам|ом|о|у|ах|иях|ях|ы|ь|ию|ью|ю|ия|ья|я)$/;
+const DERIVATIONAL = /ость?$/;
+const SUPERLATIVE = /(ейше|ейш)$/;
+// RV is the part of the word after the first vowel
+const RV = /^(.*?[аеиоуыэюя])(.*)$/;
+
+const CYRILLIC = /^[а-яё]+$/;
+const VOWELS = 'аеиоуыэюя';
+
+// Start of the region after the first non-vowel that follows a vowel (R1 when
+// searched from 0, R2 when searched from R1)
+const regionStart = (word: string, from: number): number => {
+  for (let i = from + 1; i < word.length; i++) {
+    if (!VOWELS.includes(word[i]) && VOWELS.includes(word[i - 1])) return i + 1;
+  }
+  return word.length;
+};
+
+const cache = new Map<string, string>();
+
+export const stemRussian = (input: string): string => {
+  const word = input.toLowerCase().replace(/ё/g, 'е');
+  if (!CYRILLIC.test(word)) return word;
+
+  const cached = cache.get(word);
+  if (cached) return cached;
+
+  const match = RV.exec(word);
+  if (!match) return word;
+
+  const [, prefix] = match;
+  let rv = match[2];
+  const r2 = regionStart(word, regionStart(word, 0));
+
+  // Step 1
+  let stripped = rv.replace(PERFECTIVE_GERUND, '');
+  if (stripped === rv) {
+    rv = rv.replace(REFLEXIVE, '');
+    stripped = rv.replace(ADJECTIVE, '');
+    if (stripped !== rv) {
+      rv = stripped.replace(PARTICIPLE, '');
+    } else {
+      stripped = rv.replace(VERB, '');
+      rv = stripped !== rv ? stripped : rv.replace(NOUN, '');
+    }
+  } else {
+    rv = stripped;
+  }
+
+  // Step 2
+  rv = rv.replace(/и$/, '');
+
+  // Step 3: derivational suffix, only inside R2
+  const derivational = DERIVATIONAL.exec(rv);
+  if (derivational && prefix.length + derivational.index >= r2) {
+    rv = rv.slice(0, derivational.index);
+  }
+
+  // Step 4
+  stripped = rv.replace(/ь$/, '');
+  if (stripped !== rv) {
+    rv = stripped;
+  } else {
+    rv = rv.replace(SUPERLATIVE, '').replace(/нн$/, 'н');
+  }
+
+  const stem = prefix + rv;
+  cache.set(word, stem);
+  return stem;
+};
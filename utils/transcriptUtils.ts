@@ -0,0 +1,105 @@
+import { Recording, TranscriptSegment } from "../types";
+import { LocalizedError, MessageKey, MessageParams, translate } from "../services/i18nService";
+
+export class TranscriptFormatError extends LocalizedError {
+  constructor(key: MessageKey, params?: MessageParams) {
+    super(key, params);
+    this.name = 'TranscriptFormatError';
+  }
+}
+
+// Accepts seconds as a number or a clock string ("75", "1:15", "01:01:15")
+export const parseTimestamp = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const parts = value.trim().split(':');
+  if (parts.length > 3 || parts.some(p => !/^\d+(\.\d+)?$/.test(p))) return null;
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+};
+
+// Validates the model's JSON before it reaches the UI. Timestamps are clamped
+// to the audio length and forced to be monotonic, since models occasionally
+// drift past the end of the clip or repeat a start time.
+export const parseSegments = (json: string, duration?: number): TranscriptSegment[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new TranscriptFormatError('transcript.errorNotJson');
+  }
+
+  const rawSegments = (data as { segments?: unknown })?.segments;
+  if (!Array.isArray(rawSegments)) {
+    throw new TranscriptFormatError('transcript.errorNoSegments');
+  }
+
+  const limit = duration && duration > 0 ? duration : Infinity;
+  const segments: TranscriptSegment[] = [];
+
+  rawSegments.forEach((raw, i) => {
+    const start = parseTimestamp(raw?.start);
+    const end = parseTimestamp(raw?.end);
+    if (start === null || end === null || typeof raw?.text !== 'string') {
+      throw new TranscriptFormatError('transcript.errorSegment', { index: i + 1 });
+    }
+
+    const text = raw.text.trim();
+    if (!text) return;
+
+    const previousEnd = segments.length > 0 ? segments[segments.length - 1].end : 0;
+    const safeStart = Math.min(Math.max(start, previousEnd), limit);
+    const segment: TranscriptSegment = { start: safeStart, end: Math.min(Math.max(end, safeStart), limit), text };
+    if (typeof raw.speaker === 'string' || typeof raw.speaker === 'number') {
+      const speaker = String(raw.speaker).replace(/\D/g, '') || String(raw.speaker).trim();
+      if (speaker) segment.speaker = speaker;
+    }
+    segments.push(segment);
+  });
+
+  return segments;
+};
+
+export const segmentsToText = (segments: TranscriptSegment[]): string =>
+  segments.map(s => s.text).join('\n\n');
+
+export const offsetSegments = (segments: TranscriptSegment[], offset: number): TranscriptSegment[] =>
+  segments.map(s => ({ ...s, start: s.start + offset, end: s.end + offset }));
+
+// Index of the segment playing at `time`, or -1 between segments
+export const findActiveSegment = (segments: TranscriptSegment[], time: number): number =>
+  segments.findIndex(s => time >= s.start && time < s.end);
+
+export const getSpeakerName = (recording: Recording, speaker: string): string =>
+  recording.speakerNames?.[speaker] || translate('transcript.speaker', { speaker });
+
+export interface SpeakerTurn {
+  speaker?: string;
+  items: { segment: TranscriptSegment; index: number }[];
+}
+
+// Consecutive segments by the same speaker form one turn of the conversation
+export const groupBySpeaker = (segments: TranscriptSegment[]): SpeakerTurn[] =>
+  segments.reduce<SpeakerTurn[]>((turns, segment, index) => {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.items.push({ segment, index });
+    } else {
+      turns.push({ speaker: segment.speaker, items: [{ segment, index }] });
+    }
+    return turns;
+  }, []);
+
+// Plain text of a transcript with the current speaker names applied. Names are
+// resolved here rather than stored in the text, so renaming never goes stale.
+export const transcriptToText = (recording: Recording): string => {
+  const segments = recording.segments ?? [];
+  if (!segments.some(s => s.speaker)) return recording.transcript ?? '';
+
+  return groupBySpeaker(segments)
+    .map(turn => {
+      const text = turn.items.map(i => i.segment.text).join(' ');
+      return turn.speaker ? `${getSpeakerName(recording, turn.speaker)}: ${text}` : text;
+    })
+    .join('\n\n');
+};
@@ -0,0 +1,49 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Recording, TranscriptSegment, TranscriptVersion } from "../types";
+import { translate } from "../services/i18nService";
+
+type VersionFields = Pick<Recording, 'versions' | 'transcript' | 'segments'>;
+
+// Transcripts made before history existed have no versions; treat the current
+// text as the original model output.
+export const getVersions = (recording: Recording): TranscriptVersion[] => {
+  if (recording.versions && recording.versions.length > 0) return recording.versions;
+  if (recording.transcript === null) return [];
+  return [{
+    id: 'original',
+    createdAt: recording.timestamp,
+    source: 'model',
+    text: recording.transcript,
+    segments: recording.segments,
+  }];
+};
+
+export const hasUserEdits = (recording: Recording): boolean =>
+  getVersions(recording).some(v => v.source === 'user');
+
+// Appends a version and makes it current. Earlier versions are never modified,
+// so manual corrections survive a re-transcription and can be restored.
+export const addVersion = (
+  recording: Recording,
+  version: { source: TranscriptVersion['source']; text: string; segments?: TranscriptSegment[]; note?: string }
+): VersionFields => {
+  const entry: TranscriptVersion = { id: uuidv4(), createdAt: Date.now(), ...version };
+  return {
+    versions: [...getVersions(recording), entry],
+    transcript: entry.text,
+    segments: entry.segments,
+  };
+};
+
+export const revertToVersion = (recording: Recording, versionId: string): VersionFields | null => {
+  const versions = getVersions(recording);
+  const index = versions.findIndex(v => v.id === versionId);
+  if (index === -1) return null;
+  const target = versions[index];
+  return addVersion(recording, {
+    source: 'user',
+    text: target.text,
+    segments: target.segments,
+    note: translate('version.revertNote', { index: index + 1 }),
+  });
+};
@@ -0,0 +1,185 @@
+import { LocalizedError, MessageKey, MessageParams } from "../services/i18nService";
+
+// Minimal ZIP writer (stored entries, no compression). Enough for DOCX
+// containers and archives of already-compressed audio, without a dependency.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array | string;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const encoder = new TextEncoder();
+
+// DOS date/time as stored in ZIP headers
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// Without ZIP64 every size and offset must fit in 32 bits and the entry count in 16
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+export class ZipLimitError extends LocalizedError {
+  constructor(key: MessageKey, params?: MessageParams) {
+    super(key, params);
+    this.name = 'ZipLimitError';
+  }
+}
+
+export const createZip = (entries: ZipEntry[], mimeType = 'application/zip'): Blob => {
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new ZipLimitError('zip.errorTooManyFiles', { count: entries.length, max: MAX_ZIP_ENTRIES });
+  }
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  const { time, date } = toDosDateTime(new Date());
+  let offset = 0;
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    if (offset + 30 + name.length + data.length > MAX_ZIP_SIZE) {
+      throw new ZipLimitError('zip.errorTooLarge');
+    }
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true); // version made by
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, data.length, true);
+    header.setUint32(24, data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), name, data);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  if (offset + centralSize > MAX_ZIP_SIZE) {
+    throw new ZipLimitError('zip.errorTooLarge');
+  }
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: mimeType });
+};
+
+export class ZipFormatError extends LocalizedError {
+  constructor(key: MessageKey, params?: MessageParams) {
+    super(key, params);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const END_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const END_RECORD_SIZE = 22;
+const MAX_COMMENT = 0xffff;
+
+const inflateRaw = async (data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Reads stored and deflated entries, so archives repacked by other tools
+// still open. Directories are skipped.
+export const readZip = async (blob: Blob): Promise<ZipEntry[]> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+
+  let end = -1;
+  for (let i = bytes.length - END_RECORD_SIZE; i >= Math.max(0, bytes.length - END_RECORD_SIZE - MAX_COMMENT); i--) {
+    if (view.getUint32(i, true) === END_SIGNATURE) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new ZipFormatError('zip.errorNoDirectory');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let n = 0; n < count; n++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new ZipFormatError('zip.errorDirectory');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    if (offset + 46 + nameLength > bytes.length) throw new ZipFormatError('zip.errorDirectory');
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith('/')) continue;
+
+    // Offsets come from the file, so a damaged one must not read past the end
+    if (localOffset + 30 > bytes.length || view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) {
+      throw new ZipFormatError('zip.errorEntry', { name });
+    }
+    // The local header may carry a different extra field than the central one
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (start + compressedSize > bytes.length) throw new ZipFormatError('zip.errorTruncated', { name });
+    const raw = bytes.slice(start, start + compressedSize);
+
+    let data: Uint8Array;
+    if (method === 0) data = raw;
+    else if (method === 8) data = await inflateRaw(raw);
+    else throw new ZipFormatError('zip.errorMethod', { method, name });
+
+    if (crc32(data) !== crc) throw new ZipFormatError('zip.errorChecksum', { name });
+    entries.push({ name, data });
+  }
+  return entries;
+};